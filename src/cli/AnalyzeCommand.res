@@ -9,8 +9,9 @@ type gitHubConfig = {
   octokit: octoKit,
 }
 
-@module("../lib/jjUtils.js")
-external buildChangeGraph: JJTypes.jjFunctions => promise<JJTypes.changeGraph> = "buildChangeGraph"
+@module("../lib/graphCache.js")
+external buildChangeGraph: JJTypes.jjFunctions => promise<JJTypes.changeGraph> =
+  "buildCachedChangeGraph"
 @module("../lib/submit.js")
 external getExistingPRs: (
   octoKit,
@@ -19,7 +20,14 @@ external getExistingPRs: (
   array<string>,
 ) => promise<Map.t<string, SubmitCommand.pullRequest>> = "getExistingPRs"
 
-let analyzeCommand = async (jjFunctions: JJTypes.jjFunctions, ~remote: string, ~dryRun: bool) => {
+let analyzeCommand = async (
+  jjFunctions: JJTypes.jjFunctions,
+  ~remote: string,
+  ~pushRemote: string,
+  ~dryRun: bool,
+  ~submissionOptions: SubmitCommand.submissionOptions,
+  ~splitting: SubmitCommand.changeSplitting,
+) => {
   Console.log("Fetching from remote...")
 
   try {
@@ -34,14 +42,8 @@ let analyzeCommand = async (jjFunctions: JJTypes.jjFunctions, ~remote: string, ~
   Console.log("Building change graph from user bookmarks...")
   let changeGraph = await buildChangeGraph(jjFunctions)
 
-  // AIDEV-NOTE: Show user message if any bookmarks were excluded due to merge commits
-  if changeGraph.excludedBookmarkCount > 0 {
-    Console.log(
-      `ℹ️  Found ${changeGraph.excludedBookmarkCount->Int.toString} bookmarks on merge commits or their descendants, ignoring.
-   jj-stack works with linear stacking workflows. Consider using 'jj rebase' to linearize your history before creating stacked pull requests.`,
-    )
-    Console.log() // add space after the message
-  }
+  Utils.printExcludedBookmarks(changeGraph, ~log=message => Console.log(message))
+  Utils.printConflictedChanges(changeGraph)
 
   if changeGraph.stacks->Array.length == 0 {
     Console.log("No bookmark stacks found. Create bookmarks with `jj bookmark create` first.")
@@ -195,5 +197,97 @@ let analyzeCommand = async (jjFunctions: JJTypes.jjFunctions, ~remote: string, ~
     changeGraph,
     dryRun,
     remote,
+    pushRemote,
+    submissionOptions,
+    None,
+    SubmitCommand.Interactive,
+    false,
+    splitting,
   )
 }
+
+/**
+ * Print the change graph as JSON instead of showing the interactive graph
+ */
+let analyzeJsonCommand = async (jjFunctions: JJTypes.jjFunctions) => {
+  try {
+    await jjFunctions.gitFetch()
+  } catch {
+  | Exn.Error(error) =>
+    Console.error(
+      "Error fetching from remote: " ++ error->Exn.message->Option.getOr("Unknown error"),
+    )
+  }
+
+  let changeGraph = await buildChangeGraph(jjFunctions)
+  JsonOutput.printJson(JsonOutput.changeGraphToJson(changeGraph))
+}
+
+let formatPathEntry = (change: JJTypes.logEntry) => {
+  let bookmarks =
+    change.localBookmarks->Array.length > 0 ? ` (${change.localBookmarks->Array.join(", ")})` : ""
+  `${change.changeId->String.slice(~start=0, ~end=12)} ${change.descriptionFirstLine}${bookmarks}`
+}
+
+/**
+ * AIDEV-NOTE: `jj-stack analyze --explain <bookmark>` - say why a bookmark is or isn't in the
+ * change graph. For excluded bookmarks, shows the changes from the bookmark down to the one
+ * that caused the exclusion.
+ */
+let explainCommand = async (jjFunctions: JJTypes.jjFunctions, bookmarkName: string) => {
+  try {
+    await jjFunctions.gitFetch()
+  } catch {
+  | Exn.Error(error) =>
+    Console.error(
+      "Error fetching from remote: " ++ error->Exn.message->Option.getOr("Unknown error"),
+    )
+  }
+
+  let changeGraph = await buildChangeGraph(jjFunctions)
+
+  switch (
+    changeGraph.bookmarkToChangeId->Map.get(bookmarkName),
+    changeGraph.excludedBookmarks->Array.find(({name}) => name == bookmarkName),
+  ) {
+  | (Some(changeId), _) => {
+      // Walk down the stack to trunk, naming the bookmarks on the way
+      let path = [changeId]
+      let current = ref(changeId)
+      while changeGraph.bookmarkedChangeAdjacencyList->Map.has(current.contents) {
+        current :=
+          changeGraph.bookmarkedChangeAdjacencyList->Map.get(current.contents)->Option.getExn
+        path->Array.push(current.contents)
+      }
+      let stack =
+        path
+        ->Array.map(id =>
+          Utils.changeIdToLogEntry(changeGraph, id).localBookmarks->Array.join(", ")
+        )
+        ->Array.join(" → ")
+      Console.log(`✅ ${bookmarkName} is in the change graph: ${stack} → trunk()`)
+    }
+  | (None, Some({reason, path})) => {
+      Console.log(
+        `❌ ${bookmarkName} is excluded from the change graph: ${Utils.describeExclusionReason(
+            reason,
+          )}`,
+      )
+      if path->Array.length > 0 {
+        Console.log()
+        path->Array.forEachWithIndex((change, i) => {
+          let isOffending = i == path->Array.length - 1
+          Console.log(`   ${isOffending ? "●" : "○"} ${formatPathEntry(change)}`)
+        })
+        Console.log()
+      }
+      Console.log(Utils.describeExclusionFix(bookmarkName, reason))
+    }
+  | (None, None) => {
+      Console.error(
+        `❓ ${bookmarkName} isn't one of your bookmarks. jj-stack only looks at bookmarks on your own changes (mine()) and those added with --include.`,
+      )
+      exit(1)
+    }
+  }
+}
@@ -3,24 +3,25 @@
 import * as $$Ink from "ink";
 import * as Utils from "./Utils.res.mjs";
 import * as Js_exn from "rescript/lib/es6/js_exn.js";
+import * as JsonOutput from "./JsonOutput.res.mjs";
 import * as PervasivesU from "rescript/lib/es6/pervasivesU.js";
 import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
 import * as SubmitCommand from "./SubmitCommand.res.mjs";
 import * as SubmitJs from "../lib/submit.js";
-import * as JjUtilsJs from "../lib/jjUtils.js";
 import * as JsxRuntime from "react/jsx-runtime";
 import * as Caml_js_exceptions from "rescript/lib/es6/caml_js_exceptions.js";
+import * as GraphCacheJs from "../lib/graphCache.js";
 import * as AnalyzeCommandComponent from "./AnalyzeCommandComponent.res.mjs";
 
 function buildChangeGraph(prim) {
-  return JjUtilsJs.buildChangeGraph(prim);
+  return GraphCacheJs.buildCachedChangeGraph(prim);
 }
 
 function getExistingPRs(prim0, prim1, prim2, prim3) {
   return SubmitJs.getExistingPRs(prim0, prim1, prim2, prim3);
 }
 
-async function analyzeCommand(jjFunctions, remote, dryRun) {
+async function analyzeCommand(jjFunctions, remote, pushRemote, dryRun, submissionOptions, splitting) {
   console.log("Fetching from remote...");
   try {
     await jjFunctions.gitFetch();
@@ -34,11 +35,11 @@ async function analyzeCommand(jjFunctions, remote, dryRun) {
     }
   }
   console.log("Building change graph from user bookmarks...");
-  var changeGraph = await JjUtilsJs.buildChangeGraph(jjFunctions);
-  if (changeGraph.excludedBookmarkCount > 0) {
-    console.log("ℹ️  Found " + changeGraph.excludedBookmarkCount.toString() + " bookmarks on merge commits or their descendants, ignoring.\n   jj-stack works with linear stacking workflows. Consider using 'jj rebase' to linearize your history before creating stacked pull requests.");
-    console.log();
-  }
+  var changeGraph = await GraphCacheJs.buildCachedChangeGraph(jjFunctions);
+  Utils.printExcludedBookmarks(changeGraph, (function (message) {
+          console.log(message);
+        }));
+  Utils.printConflictedChanges(changeGraph);
   if (changeGraph.stacks.length === 0) {
     console.log("No bookmark stacks found. Create bookmarks with `jj bookmark create` first.");
     PervasivesU.exit(0);
@@ -173,12 +174,87 @@ async function analyzeCommand(jjFunctions, remote, dryRun) {
         }));
   var segment = Core__Option.getExn(changeGraph.bookmarkedChangeIdToSegment.get(changeId$1), undefined);
   var logEntry = Core__Option.getExn(segment[0], undefined);
-  return await SubmitCommand.runSubmit(jjFunctions, Core__Option.getExn(logEntry.localBookmarks[0], undefined), changeGraph, dryRun, remote);
+  return await SubmitCommand.runSubmit(jjFunctions, Core__Option.getExn(logEntry.localBookmarks[0], undefined), changeGraph, dryRun, remote, pushRemote, submissionOptions, undefined, "Interactive", false, splitting);
+}
+
+async function analyzeJsonCommand(jjFunctions) {
+  try {
+    await jjFunctions.gitFetch();
+  }
+  catch (raw_error){
+    var error = Caml_js_exceptions.internalToOCamlException(raw_error);
+    if (error.RE_EXN_ID === Js_exn.$$Error) {
+      console.error("Error fetching from remote: " + Core__Option.getOr(error._1.message, "Unknown error"));
+    } else {
+      throw error;
+    }
+  }
+  var changeGraph = await GraphCacheJs.buildCachedChangeGraph(jjFunctions);
+  return JsonOutput.printJson(JsonOutput.changeGraphToJson(changeGraph));
+}
+
+function formatPathEntry(change) {
+  var bookmarks = change.localBookmarks.length > 0 ? " (" + change.localBookmarks.join(", ") + ")" : "";
+  return change.changeId.slice(0, 12) + " " + change.descriptionFirstLine + bookmarks;
+}
+
+async function explainCommand(jjFunctions, bookmarkName) {
+  try {
+    await jjFunctions.gitFetch();
+  }
+  catch (raw_error){
+    var error = Caml_js_exceptions.internalToOCamlException(raw_error);
+    if (error.RE_EXN_ID === Js_exn.$$Error) {
+      console.error("Error fetching from remote: " + Core__Option.getOr(error._1.message, "Unknown error"));
+    } else {
+      throw error;
+    }
+  }
+  var changeGraph = await GraphCacheJs.buildCachedChangeGraph(jjFunctions);
+  var match = changeGraph.bookmarkToChangeId.get(bookmarkName);
+  var match$1 = changeGraph.excludedBookmarks.find(function (param) {
+        return param.name === bookmarkName;
+      });
+  if (match !== undefined) {
+    var path = [match];
+    var current = match;
+    while(changeGraph.bookmarkedChangeAdjacencyList.has(current)) {
+      current = Core__Option.getExn(changeGraph.bookmarkedChangeAdjacencyList.get(current), undefined);
+      path.push(current);
+    };
+    var stack = path.map(function (id) {
+            return Utils.changeIdToLogEntry(changeGraph, id).localBookmarks.join(", ");
+          }).join(" → ");
+    console.log("✅ " + bookmarkName + " is in the change graph: " + stack + " → trunk()");
+    return ;
+  }
+  if (match$1 !== undefined) {
+    var path$1 = match$1.path;
+    var reason = match$1.reason;
+    console.log("❌ " + bookmarkName + " is excluded from the change graph: " + Utils.describeExclusionReason(reason));
+    if (path$1.length > 0) {
+      console.log();
+      path$1.forEach(function (change, i) {
+            var isOffending = i === (path$1.length - 1 | 0);
+            console.log("   " + (
+                  isOffending ? "●" : "○"
+                ) + " " + formatPathEntry(change));
+          });
+      console.log();
+    }
+    console.log(Utils.describeExclusionFix(bookmarkName, reason));
+    return ;
+  }
+  console.error("❓ " + bookmarkName + " isn't one of your bookmarks. jj-stack only looks at bookmarks on your own changes (mine()) and those added with --include.");
+  return PervasivesU.exit(1);
 }
 
 export {
   buildChangeGraph ,
   getExistingPRs ,
   analyzeCommand ,
+  analyzeJsonCommand ,
+  formatPathEntry ,
+  explainCommand ,
 }
 /* ink Not a pure module */
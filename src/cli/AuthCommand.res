@@ -16,15 +16,22 @@ type authDetails = {
   scopes: array<string>,
 }
 
+// A GitHub instance, apiUrl is only set for GitHub Enterprise Server
+type gitHubHost = {
+  hostname: string,
+  apiUrl?: string,
+}
+
 type authResult =
   | Success({config: authConfig})
   | Failure({reason: string})
 
-@module("../lib/auth.js") external getGitHubAuthRaw: unit => promise<{..}> = "getGitHubAuth"
+@module("../lib/auth.js")
+external getGitHubAuthRaw: option<gitHubHost> => promise<{..}> = "getGitHubAuth"
 
 // Convert the JS object to a proper ReScript variant
-let getGitHubAuth = async () => {
-  let result = await getGitHubAuthRaw()
+let getGitHubAuth = async (~host=?) => {
+  let result = await getGitHubAuthRaw(host)
 
   switch result["kind"] {
   | "success" =>
@@ -43,7 +50,10 @@ let getGitHubAuth = async () => {
   }
 }
 @module("../lib/auth.js")
-external getAuthDetails: authConfig => promise<authDetails> = "getAuthDetails"
+external getAuthDetails: (authConfig, option<gitHubHost>) => promise<authDetails> = "getAuthDetails"
+
+@module("../lib/submit.js")
+external getGitHubHost: (JJTypes.jjFunctions, string) => promise<gitHubHost> = "getGitHubHost"
 
 let authInstructions = `🔐 GitHub Authentication Required
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -59,8 +69,8 @@ Required token permissions:
 • pull_requests (Create and update pull requests)`
 
 // CLI wrapper that provides user-facing messaging
-let getGitHubAuthCli = async () => {
-  let result = await getGitHubAuth()
+let getGitHubAuthCli = async (~host=?) => {
+  let result = await getGitHubAuth(~host?)
 
   switch result {
   | Success({config}) => {
@@ -92,13 +102,14 @@ let sourceToString = (source: source): string => {
   }
 }
 
-let authTestCommand = async () => {
-  Console.log("🔐 Testing GitHub Authentication...\n")
+let authTestCommand = async (~host=?) => {
+  let hostname = host->Option.mapOr("github.com", host => host.hostname)
+  Console.log(`🔐 Testing GitHub Authentication for ${hostname}...\n`)
 
-  let authConfig = await getGitHubAuthCli()
+  let authConfig = await getGitHubAuthCli(~host?)
 
   // Test the authentication by making a simple API call
-  let authDetails = await getAuthDetails(authConfig)
+  let authDetails = await getAuthDetails(authConfig, host)
 
   let nameStr = switch authDetails.name {
   | Some(name) => name
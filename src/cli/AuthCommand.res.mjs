@@ -1,14 +1,16 @@
 // Generated by ReScript, PLEASE EDIT WITH CARE
 
 import * as Js_exn from "rescript/lib/es6/js_exn.js";
+import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
 import * as AuthJs from "../lib/auth.js";
+import * as SubmitJs from "../lib/submit.js";
 
 function getGitHubAuthRaw(prim) {
-  return AuthJs.getGitHubAuth();
+  return AuthJs.getGitHubAuth(prim);
 }
 
-async function getGitHubAuth() {
-  var result = await AuthJs.getGitHubAuth();
+async function getGitHubAuth(host) {
+  var result = await AuthJs.getGitHubAuth(host);
   var match = result.kind;
   switch (match) {
     case "failure" :
@@ -44,14 +46,18 @@ async function getGitHubAuth() {
   }
 }
 
-function getAuthDetails(prim) {
-  return AuthJs.getAuthDetails(prim);
+function getAuthDetails(prim0, prim1) {
+  return AuthJs.getAuthDetails(prim0, prim1);
+}
+
+function getGitHubHost(prim0, prim1) {
+  return SubmitJs.getGitHubHost(prim0, prim1);
 }
 
 var authInstructions = "🔐 GitHub Authentication Required\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nTo create and manage pull requests, jj-stack needs access to GitHub.\n\nPlease set up authentication using one of these methods:\n1. Install GitHub CLI and run: gh auth login\n2. Set environment variable: export GITHUB_TOKEN=your_token\n   (Create a token at: https://github.com/settings/tokens/new)\n\nRequired token permissions:\n• repo (Full control of private repositories)\n• pull_requests (Create and update pull requests)";
 
-async function getGitHubAuthCli() {
-  var result = await getGitHubAuth();
+async function getGitHubAuthCli(host) {
+  var result = await getGitHubAuth(host);
   if (result.TAG === "Success") {
     var config = result.config;
     var match = config.source;
@@ -74,10 +80,13 @@ function sourceToString(source) {
   }
 }
 
-async function authTestCommand() {
-  console.log("🔐 Testing GitHub Authentication...\n");
-  var authConfig = await getGitHubAuthCli();
-  var authDetails = await AuthJs.getAuthDetails(authConfig);
+async function authTestCommand(host) {
+  var hostname = Core__Option.mapOr(host, "github.com", (function (host) {
+          return host.hostname;
+        }));
+  console.log("🔐 Testing GitHub Authentication for " + hostname + "...\n");
+  var authConfig = await getGitHubAuthCli(host);
+  var authDetails = await AuthJs.getAuthDetails(authConfig, host);
   var name = authDetails.name;
   var nameStr = name !== undefined ? name : "No name set";
   console.log("👤 Authenticated as: " + authDetails.username + " (" + nameStr + ")");
@@ -101,6 +110,7 @@ export {
   getGitHubAuthRaw ,
   getGitHubAuth ,
   getAuthDetails ,
+  getGitHubHost ,
   authInstructions ,
   getGitHubAuthCli ,
   sourceToString ,
@@ -0,0 +1,173 @@
+// AIDEV-NOTE: Cleanup command - deletes the bookmarks of merged or closed PRs, locally and on the
+// remote, and closes PRs whose bookmarks were deleted locally. Fetches first, so bookmarks GitHub
+// already deleted are gone from the graph before it's checked.
+@module("process") external exit: int => unit = "exit"
+@module("../lib/graphCache.js")
+external buildChangeGraph: JJTypes.jjFunctions => promise<JJTypes.changeGraph> =
+  "buildCachedChangeGraph"
+
+type finishedBookmark = {
+  bookmark: JJTypes.bookmark,
+  prNumber: int,
+  prUrl: string,
+  state: [#merged | #closed],
+}
+
+type keptBookmark = {
+  bookmarkName: string,
+  prNumber: int,
+  reason: string,
+}
+
+type orphanedPR = {
+  bookmarkName: string,
+  pr: SubmitCommand.pullRequest,
+}
+
+type cleanupPlan = {
+  finishedBookmarks: array<finishedBookmark>,
+  keptBookmarks: array<keptBookmark>,
+  orphanedPRs: array<orphanedPR>,
+  repoInfo: SubmitCommand.repoInfo,
+  remoteName: string,
+}
+
+type cleanupResult = {
+  success: bool,
+  closedPRs: array<orphanedPR>,
+  deletedBookmarks: array<string>,
+  errors: array<SubmitCommand.errorWithContext>,
+}
+
+@module("../lib/cleanup.js")
+external createCleanupPlan: (
+  JJTypes.jjFunctions,
+  'githubConfig,
+  JJTypes.changeGraph,
+  string,
+  option<'cleanupCallbacks>,
+) => promise<cleanupPlan> = "createCleanupPlan"
+
+@module("../lib/cleanup.js")
+external executeCleanupPlan: (
+  cleanupPlan,
+  JJTypes.jjFunctions,
+  'githubConfig,
+  option<'cleanupCallbacks>,
+) => promise<cleanupResult> = "executeCleanupPlan"
+
+/**
+ * Create cleanup callbacks for console output during plan creation and execution
+ */
+let createCleanupCallbacks = (): 'cleanupCallbacks => {
+  {
+    "onCheckingPRs": Some(
+      (bookmarks: array<JJTypes.bookmark>) => {
+        Console.log(`🔍 Checking PRs for ${bookmarks->Array.length->Int.toString} bookmark(s)...`)
+      },
+    ),
+    "onPRClosed": Some(
+      (bookmarkName: string, pr: SubmitCommand.pullRequest) => {
+        Console.log(`✅ Closed PR for ${bookmarkName}: ${pr.html_url}`)
+      },
+    ),
+    "onBookmarkDeleted": Some(
+      (bookmarkName: string) => {
+        Console.log(`✅ Deleted ${bookmarkName}`)
+      },
+    ),
+    "onError": Some(
+      (error: Exn.t, context: string) => {
+        let errorMessage = error->Exn.message->Option.getOr("Unknown error")
+        Console.error(`❌ Error (${context}): ${errorMessage}`)
+      },
+    ),
+  }
+}
+
+let cleanupCommand = async (
+  jjFunctions: JJTypes.jjFunctions,
+  ~remote: string,
+  ~pushRemote: string,
+  ~dryRun: bool,
+) => {
+  Console.log("Fetching from remote...")
+  try {
+    await jjFunctions.gitFetch()
+  } catch {
+  | Exn.Error(error) =>
+    Console.error(
+      "Error fetching from remote: " ++ error->Exn.message->Option.getOr("Unknown error"),
+    )
+  }
+
+  Console.log(`🔑 Getting GitHub authentication...`)
+  let githubConfig = await SubmitCommand.getGitHubConfig(jjFunctions, remote, pushRemote)
+
+  let changeGraph = await buildChangeGraph(jjFunctions)
+  let callbacks = createCleanupCallbacks()
+  let plan = await createCleanupPlan(
+    jjFunctions,
+    githubConfig,
+    changeGraph,
+    pushRemote,
+    Some(callbacks),
+  )
+
+  Console.log(`📍 GitHub repository: ${plan.repoInfo.owner}/${plan.repoInfo.repo}`)
+
+  plan.keptBookmarks->Array.forEach(item => {
+    Console.log(
+      `ℹ️  Keeping ${item.bookmarkName} (#${item.prNumber->Int.toString}): ${item.reason}`,
+    )
+  })
+
+  let nothingToDo = plan.finishedBookmarks->Array.length == 0 && plan.orphanedPRs->Array.length == 0
+
+  let succeeded = if nothingToDo {
+    Console.log(`\n✅ Nothing to clean up`)
+    true
+  } else {
+    if plan.finishedBookmarks->Array.length > 0 {
+      Console.log(
+        dryRun
+          ? `\n🧹 Would delete bookmarks of merged or closed PRs:`
+          : `\n🧹 Deleting bookmarks of merged or closed PRs:`,
+      )
+      plan.finishedBookmarks->Array.forEach(item => {
+        let stateStr = switch item.state {
+        | #merged => "merged"
+        | #closed => "closed"
+        }
+        let where = item.bookmark.hasRemote ? ` and on ${plan.remoteName}` : ""
+        Console.log(
+          `   • ${item.bookmark.name} (#${item.prNumber->Int.toString}, ${stateStr}), locally${where}`,
+        )
+      })
+    }
+
+    if plan.orphanedPRs->Array.length > 0 {
+      Console.log(
+        dryRun
+          ? `\n🚪 Would close PRs whose bookmarks were deleted locally:`
+          : `\n🚪 Closing PRs whose bookmarks were deleted locally:`,
+      )
+      plan.orphanedPRs->Array.forEach(item => {
+        Console.log(`   • ${item.bookmarkName} (#${item.pr.number->Int.toString})`)
+      })
+    }
+
+    if dryRun {
+      true
+    } else {
+      Console.log()
+      let result = await executeCleanupPlan(plan, jjFunctions, githubConfig, Some(callbacks))
+      result.success
+    }
+  }
+
+  if !succeeded {
+    // Errors should have been printed already by the onError callback
+    exit(1)
+  }
+}
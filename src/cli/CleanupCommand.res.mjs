@@ -0,0 +1,87 @@
+// Generated by ReScript, PLEASE EDIT WITH CARE
+
+import * as Js_exn from "rescript/lib/es6/js_exn.js";
+import * as Process from "process";
+import * as Caml_option from "rescript/lib/es6/caml_option.js";
+import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
+import * as SubmitCommand from "./SubmitCommand.res.mjs";
+import * as CleanupJs from "../lib/cleanup.js";
+import * as Caml_js_exceptions from "rescript/lib/es6/caml_js_exceptions.js";
+import * as GraphCacheJs from "../lib/graphCache.js";
+
+function buildChangeGraph(prim) {
+  return GraphCacheJs.buildCachedChangeGraph(prim);
+}
+
+function createCleanupPlan(prim0, prim1, prim2, prim3, prim4) {
+  return CleanupJs.createCleanupPlan(prim0, prim1, prim2, prim3, prim4);
+}
+
+function executeCleanupPlan(prim0, prim1, prim2, prim3) {
+  return CleanupJs.executeCleanupPlan(prim0, prim1, prim2, prim3);
+}
+
+function createCleanupCallbacks() {
+  return {
+          onCheckingPRs: (function (bookmarks) {
+              console.log("🔍 Checking PRs for " + bookmarks.length.toString() + " bookmark(s)...");
+            }),
+          onPRClosed: (function (bookmarkName, pr) {
+              console.log("✅ Closed PR for " + bookmarkName + ": " + pr.html_url);
+            }),
+          onBookmarkDeleted: (function (bookmarkName) {
+              console.log("✅ Deleted " + bookmarkName);
+            }),
+          onError: (function (error, context) {
+              var errorMessage = Core__Option.getOr(error.message, "Unknown error");
+              console.error("❌ Error (" + context + "): " + errorMessage);
+            })
+        };
+}
+
+async function cleanupCommand(jjFunctions, remote, pushRemote, dryRun) {
+  console.log("Fetching from remote...");
+  try {
+    await jjFunctions.gitFetch();
+  }
+  catch (raw_error){
+    var error = Caml_js_exceptions.internalToOCamlException(raw_error);
+    if (error.RE_EXN_ID === Js_exn.$$Error) {
+      console.error("Error fetching from remote: " + Core__Option.getOr(error._1.message, "Unknown error"));
+    } else {
+      throw error;
+    }
+  }
+  console.log("🔑 Getting GitHub authentication...");
+  var githubConfig = await SubmitCommand.getGitHubConfig(jjFunctions, remote, pushRemote);
+  var changeGraph = await GraphCacheJs.buildCachedChangeGraph(jjFunctions);
+  var callbacks = createCleanupCallbacks();
+  var plan = await createCleanupPlan(jjFunctions, githubConfig, changeGraph, pushRemote, Caml_option.some(callbacks));
+  console.log("📍 GitHub repository: " + plan.repoInfo.owner + "/" + plan.repoInfo.repo);
+  plan.keptBookmarks.forEach(function (item) {
+        console.log("ℹ️  Keeping " + item.bookmarkName + " (#" + item.prNumber.toString() + "): " + item.reason);
+      });
+  var nothingToDo = plan.finishedBookmarks.length === 0 && plan.orphanedPRs.length === 0;
+  var succeeded = nothingToDo ? (console.log("\n✅ Nothing to clean up"), true) : (plan.finishedBookmarks.length > 0 ? (console.log(dryRun ? "\n🧹 Would delete bookmarks of merged or closed PRs:" : "\n🧹 Deleting bookmarks of merged or closed PRs:"), plan.finishedBookmarks.forEach(function (item) {
+                var match = item.state;
+                var stateStr = match === "closed" ? "closed" : "merged";
+                var where = item.bookmark.hasRemote ? " and on " + plan.remoteName : "";
+                console.log("   • " + item.bookmark.name + " (#" + item.prNumber.toString() + ", " + stateStr + "), locally" + where);
+              }), undefined) : undefined, plan.orphanedPRs.length > 0 ? (console.log(dryRun ? "\n🚪 Would close PRs whose bookmarks were deleted locally:" : "\n🚪 Closing PRs whose bookmarks were deleted locally:"), plan.orphanedPRs.forEach(function (item) {
+                console.log("   • " + item.bookmarkName + " (#" + item.pr.number.toString() + ")");
+              }), undefined) : undefined, dryRun ? true : (console.log(), (await executeCleanupPlan(plan, jjFunctions, githubConfig, Caml_option.some(callbacks))).success));
+  if (!succeeded) {
+    Process.exit(1);
+    return ;
+  }
+  
+}
+
+export {
+  buildChangeGraph ,
+  createCleanupPlan ,
+  executeCleanupPlan ,
+  createCleanupCallbacks ,
+  cleanupCommand ,
+}
+/* process Not a pure module */
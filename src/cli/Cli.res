@@ -1,9 +1,15 @@
 @scope("process") @val external argv: array<string> = "argv"
 @scope("process") @val external exit: int => unit = "exit"
+@scope(("process", "stdin")) @val external stdinIsTTY: option<bool> = "isTTY"
 
 // AIDEV-NOTE: Main CLI entry point implementing all jj-stack commands:
-// - Default (no args): Interactive change graph analysis and stack selection
+// - Default (no args): Interactive change graph analysis and stack selection (--json to print it)
+// - analyze [--explain <bookmark>]: The default command, or why a bookmark isn't in the graph
 // - submit <bookmark> [--dry-run]: Submit bookmark stack as PRs
+// - submit --resume: Continue an interrupted submission from its journal
+// - sync [--dry-run]: Retarget PRs after PRs lower in their stacks were merged
+// - cleanup [--dry-run]: Delete bookmarks of finished PRs and close PRs of deleted bookmarks
+// - config: Show the effective settings from jj config and .jj-stack.json
 // - auth test: Validate GitHub authentication setup
 // - auth help: Show authentication setup instructions
 // - help/--help/-h: Display command usage information
@@ -12,9 +18,19 @@
 @module("../lib/jjUtils.js")
 external createJjFunctions: JJTypes.jjConfig => JJTypes.jjFunctions = "createJjFunctions"
 @module("../lib/jjUtils.js")
-external isGitHubRemote: string => bool = "isGitHubRemote"
+external isGitHubRemote: (string, array<string>) => bool = "isGitHubRemote"
+@module("../lib/config.js")
+external loadConfig: JJTypes.jjFunctions => promise<JJTypes.loadedConfig> = "loadConfig"
+@module("../lib/config.js")
+external readPRTemplate: (JJTypes.jjFunctions, string) => promise<string> = "readPRTemplate"
 
-@unboxed type argumentValue = String(string) | Boolean(bool)
+type draftFlags = {draft: bool, ready: bool}
+type draftOptions = {draft: bool, markReady: bool}
+
+@module("../lib/submit.js")
+external resolveDraftOptions: (draftFlags, option<bool>) => draftOptions = "resolveDraftOptions"
+
+@unboxed type argumentValue = String(string) | Boolean(bool) | Strings(array<string>)
 
 type parseArgsResult = {"values": Js.Dict.t<argumentValue>, "positionals": array<string>}
 
@@ -28,9 +44,48 @@ USAGE:
   jj-stack [COMMAND] [OPTIONS]
 
 COMMANDS:
+  analyze               Show the change graph (the default command)
+    --json              Print the stacks as JSON
+    --explain <bookmark> Explain why a bookmark is or isn't in the change graph
+    --onto <revset>     Stack on this bookmark or revset instead of trunk()
+    --include <revset>  Also stack bookmarks on these changes, e.g. a teammate's
+
   submit <bookmark>     Submit a bookmark and all downstack bookmarks as PRs
     --dry-run           Show what would be done without making changes
     --remote <name>     Use the specified Git remote (must be a GitHub remote)
+    --push-remote <name> Push bookmarks to this remote (e.g. your fork) and open
+                        PRs against --remote
+    --stack-info <mode> Where to show the stack list: comment (default), body, or both
+    --update-body       Regenerate PR descriptions that haven't been edited by hand
+    --draft             Create new PRs as drafts
+    --ready             Mark existing draft PRs in the stack as ready for review
+    --reviewer <name>   Request a review on new PRs (user or org/team, repeatable)
+    --assignee <name>   Assign new PRs to a user (repeatable)
+    --label <name>      Add a label to new PRs (repeatable)
+    --resume            Continue an interrupted submission from the step that failed
+    --json              Print the submission plan (and result) as JSON
+    --non-interactive   Never prompt (the default when stdin isn't a terminal)
+    --prefer-bookmark <glob>  When a change has several bookmarks, submit the one
+                        matching this glob (repeatable, first match wins)
+    --split-changes     Give each unbookmarked change in the stack a bookmark
+                        (named by the splitBookmarkTemplate setting) and its own PR
+    --onto <revset>     Stack on this bookmark or revset instead of trunk(). If it
+                        names a bookmark, the bottom PR targets that branch.
+    --include <revset>  Also stack on bookmarks on these changes, using their
+                        existing PRs as bases without pushing or editing them
+
+  sync                  Retarget open PRs after PRs below them were merged or closed
+    --dry-run           Show what would be done without making changes
+    --remote <name>     Use the specified Git remote (must be a GitHub remote)
+    --push-remote <name> The remote your bookmarks are pushed to, if it's a fork
+
+  cleanup               Delete the bookmarks of merged or closed PRs (locally and on
+                        the remote), and close PRs whose bookmarks were deleted locally
+    --dry-run           Show what would be done without making changes
+    --remote <name>     Use the specified Git remote (must be a GitHub remote)
+    --push-remote <name> The remote your bookmarks are pushed to, if it's a fork
+
+  config                Show the effective settings and where each one came from
 
   auth test             Test GitHub authentication
   auth help             Show authentication help
@@ -39,15 +94,43 @@ COMMANDS:
 
 DEFAULT BEHAVIOR:
   Running jj-stack without arguments analyzes and displays the current
-  graph of stacked bookmarks.
+  graph of stacked bookmarks. Pass --json to print the stacks as JSON instead.
 
 EXAMPLES:
   jj-stack                        # Show change graph
+  jj-stack analyze --explain feature-branch  # Why isn't feature-branch in the graph?
   jj-stack submit feature-branch  # Submit feature-branch and downstack as PRs
   jj-stack submit feature-branch --dry-run  # Preview what would be done
   jj-stack submit feature-branch --remote upstream  # Use a specific remote
+  jj-stack submit feature-branch --remote upstream --push-remote origin  # From a fork
+  jj-stack submit feature-branch --stack-info body  # Show the stack in PR descriptions
+  jj-stack submit feature-branch --split-changes  # One PR per change
+  jj-stack submit --resume        # Finish a submission that failed part way
+  jj-stack submit feature-branch --dry-run --json  # Print the plan for other tools
+  jj-stack submit feature-branch --non-interactive --prefer-bookmark 'pr/*'  # In CI
+  jj-stack submit hotfix --onto release-1.2  # Stack on a release branch
+  jj-stack submit my-feature --include 'author(alice)'  # Stack on alice's PRs
+  jj-stack sync                   # Retarget PRs after the bottom of a stack merged
+  jj-stack cleanup --dry-run      # List bookmarks and PRs left over from merged stacks
+  jj-stack config                 # Show the effective settings
   jj-stack auth test              # Test GitHub authentication
 
+CONFIGURATION:
+  Defaults can be set in jj's config under jj-stack.*, or in a .jj-stack.json
+  file in the root of the repository. jj config wins over the file, and flags
+  win over both:
+    jj config set --repo jj-stack.remote upstream
+    { "reviewers": ["alice", "my-org/my-team"], "labels": ["stacked"] }
+  Settings: remote, pushRemote, defaultBranch, trunk, includeBookmarks, draft,
+  stackInfo, updateBody, splitChanges, splitBookmarkTemplate, reviewers, assignees,
+  labels, prTemplate, githubHosts
+
+GITHUB ENTERPRISE:
+  Remotes on GitHub Enterprise Server hosts are supported once the host is
+  listed in githubHosts, mapped to its API URL ("" for https://<host>/api/v3):
+    { "githubHosts": { "git.corp.example": "" } }
+  Tokens come from \`gh auth token --hostname <host>\` or GH_ENTERPRISE_TOKEN.
+
 For more information, visit: https://github.com/keanemind/jj-stack
 `
 
@@ -55,15 +138,17 @@ For more information, visit: https://github.com/keanemind/jj-stack
 let resolveRemoteName = async (
   remotes: array<JJTypes.gitRemote>,
   userSpecified: option<string>,
+  ~enterpriseHosts: array<string>,
+  ~interactive: bool,
 ): string => {
   switch userSpecified {
   | Some(remoteName) => {
       let foundRemote = remotes->Array.find(r => r.name == remoteName)
       switch foundRemote {
       | Some(remote) => {
-          if !isGitHubRemote(remote.url) {
+          if !isGitHubRemote(remote.url, enterpriseHosts) {
             Console.error(
-              `❌ Remote '${remoteName}' is not a GitHub remote. Only GitHub remotes are supported.`,
+              `❌ Remote '${remoteName}' is not a GitHub remote. Only GitHub remotes are supported (add GitHub Enterprise hosts to the githubHosts setting).`,
             )
             exit(1)
             Js.Exn.raiseError("") // unreachable
@@ -78,7 +163,7 @@ let resolveRemoteName = async (
       }
     }
   | None => {
-      let githubRemotes = remotes->Array.filter(r => isGitHubRemote(r.url))
+      let githubRemotes = remotes->Array.filter(r => isGitHubRemote(r.url, enterpriseHosts))
       switch githubRemotes->Array.length {
       | 0 => {
           Console.error("❌ No GitHub remotes found. At least one GitHub remote is required.")
@@ -86,6 +171,14 @@ let resolveRemoteName = async (
           Js.Exn.raiseError("")
         }
       | 1 => Belt.Array.getExn(githubRemotes, 0).name
+      | _ if !interactive => {
+          let names = githubRemotes->Array.map(r => r.name)->Array.join(", ")
+          Console.error(
+            `❌ Multiple GitHub remotes found (${names}). Choose one with --remote or the remote setting.`,
+          )
+          exit(1)
+          Js.Exn.raiseError("")
+        }
       | _ => {
           // AIDEV-NOTE: Multiple GitHub remotes - use interactive selection
           Console.log(`🔀 Multiple GitHub remotes found, opening interactive selector...`)
@@ -124,28 +217,90 @@ let main = async () => {
     let jjConfig: JJTypes.jjConfig = {
       binaryPath: jjPathResult.filepath,
     }
-    let jjFunctions = createJjFunctions(jjConfig)
-
+    let baseJjFunctions = createJjFunctions(jjConfig)
     let parsed = parseArgs({
       "options": {
         "remote": {"type": "string"},
+        "push-remote": {"type": "string"},
+        "stack-info": {"type": "string"},
+        "update-body": {"type": "boolean", "default": false},
+        "split-changes": {"type": "boolean", "default": false},
+        "draft": {"type": "boolean", "default": false},
+        "ready": {"type": "boolean", "default": false},
+        "reviewer": {"type": "string", "multiple": true},
+        "assignee": {"type": "string", "multiple": true},
+        "label": {"type": "string", "multiple": true},
         "dry-run": {"type": "boolean", "default": false},
+        "resume": {"type": "boolean", "default": false},
+        "json": {"type": "boolean", "default": false},
+        "non-interactive": {"type": "boolean", "default": false},
+        "prefer-bookmark": {"type": "string", "multiple": true},
+        "explain": {"type": "string"},
+        "onto": {"type": "string"},
+        "include": {"type": "string"},
         "help": {"type": "boolean", "short": "h", "default": false},
       },
       "allowPositionals": true,
     })
-
     let positionals = parsed["positionals"]
     let command = Belt.Array.get(positionals, 0)
     let subArg = Belt.Array.get(positionals, 1)
 
+    // AIDEV-NOTE: Help and auth don't use the settings, so invalid settings (e.g. a broken
+    // .jj-stack.json) are only a warning there rather than making them unusable
+    let settingsOptional = switch command {
+    | Some("help" | "auth") => true
+    | _ => Js.Dict.get(parsed["values"], "help") == Some(Boolean(true))
+    }
+    let {config} = if settingsOptional {
+      try {
+        await loadConfig(baseJjFunctions)
+      } catch {
+      | Exn.Error(error) =>
+        Console.warn(
+          `⚠️  Ignoring settings: ${error->Exn.message->Option.getOr("Unknown error")}`,
+        )
+        {config: {}, sources: Js.Dict.empty()}
+      }
+    } else {
+      await loadConfig(baseJjFunctions)
+    }
+
+    // AIDEV-NOTE: trunk, defaultBranch and includeBookmarks are applied at the jj layer so every
+    // command sees them. --onto replaces the trunk setting, and the configured defaultBranch with
+    // it, so that the bottom PR of the stack targets the --onto bookmark (see getDefaultBranch)
+    let onto = switch Js.Dict.get(parsed["values"], "onto") {
+    | Some(String(revset)) => Some(revset)
+    | Some(_) => Exn.raiseError("--onto was used as a boolean")
+    | None => None
+    }
+    let (trunkRevset, defaultBranch) = switch onto {
+    | Some(_) => (onto, None)
+    | None => (config.trunk, config.defaultBranch)
+    }
+    let includeBookmarks = switch Js.Dict.get(parsed["values"], "include") {
+    | Some(String(revset)) => Some(revset)
+    | Some(_) => Exn.raiseError("--include was used as a boolean")
+    | None => config.includeBookmarks
+    }
+    let jjFunctions = switch (trunkRevset, defaultBranch, includeBookmarks) {
+    | (None, None, None) => baseJjFunctions
+    | (trunkRevset, defaultBranch, includeBookmarks) =>
+      createJjFunctions({...jjConfig, ?trunkRevset, ?defaultBranch, ?includeBookmarks})
+    }
+
     let remoteOpt = switch Js.Dict.get(parsed["values"], "remote") {
     | Some(remote) =>
       switch remote {
       | String(b) => Some(b)
       | _ => Exn.raiseError("--remote was used as a boolean")
       }
-    | None => None
+    | None => config.remote
+    }
+    let pushRemoteOpt = switch Js.Dict.get(parsed["values"], "push-remote") {
+    | Some(String(b)) => Some(b)
+    | Some(_) => Exn.raiseError("--push-remote was used as a boolean")
+    | None => config.pushRemote
     }
     let isDryRun = switch Js.Dict.get(parsed["values"], "dry-run") {
     | Some(dryRun) =>
@@ -155,6 +310,80 @@ let main = async () => {
       }
     | None => false
     }
+    let stackInfoMode: SubmitCommand.stackInfoMode = switch Js.Dict.get(
+      parsed["values"],
+      "stack-info",
+    ) {
+    | Some(String("comment")) => #comment
+    | None => config.stackInfo->Option.getOr(#comment)
+    | Some(String("body")) => #body
+    | Some(String("both")) => #both
+    | Some(String(other)) =>
+      Exn.raiseError(`--stack-info must be one of comment, body, or both (got '${other}')`)
+    | Some(_) => Exn.raiseError("--stack-info was used as a boolean")
+    }
+    let updatePRBodies = switch Js.Dict.get(parsed["values"], "update-body") {
+    | Some(Boolean(b)) => b || config.updateBody->Option.getOr(false)
+    | Some(_) => Exn.raiseError("--update-body was used as a string")
+    | None => config.updateBody->Option.getOr(false)
+    }
+    let splitting: SubmitCommand.changeSplitting = switch Js.Dict.get(
+      parsed["values"],
+      "split-changes",
+    ) {
+    | Some(Boolean(b)) if b || config.splitChanges->Option.getOr(false) =>
+      Split(config.splitBookmarkTemplate)
+    | Some(Boolean(_)) | None => NoSplit
+    | Some(_) => Exn.raiseError("--split-changes was used as a string")
+    }
+    let isDraft = switch Js.Dict.get(parsed["values"], "draft") {
+    | Some(Boolean(b)) => b
+    | Some(_) => Exn.raiseError("--draft was used as a string")
+    | None => false
+    }
+    let markReady = switch Js.Dict.get(parsed["values"], "ready") {
+    | Some(Boolean(b)) => b
+    | Some(_) => Exn.raiseError("--ready was used as a string")
+    | None => false
+    }
+    let {draft: isDraft, markReady} = resolveDraftOptions(
+      {draft: isDraft, ready: markReady},
+      config.draft,
+    )
+    let getStringsOption = (name: string): option<array<string>> =>
+      switch Js.Dict.get(parsed["values"], name) {
+      | Some(Strings(values)) => Some(values)
+      | Some(_) => Exn.raiseError(`--${name} was used as a boolean`)
+      | None => None
+      }
+    // AIDEV-NOTE: Flags replace (rather than add to) the configured defaults
+    let reviewers = getStringsOption("reviewer")->Option.getOr(config.reviewers->Option.getOr([]))
+    let assignees = getStringsOption("assignee")->Option.getOr(config.assignees->Option.getOr([]))
+    let labels = getStringsOption("label")->Option.getOr(config.labels->Option.getOr([]))
+    let loadPRTemplate = async () =>
+      switch config.prTemplate {
+      | Some(templatePath) => Some(await readPRTemplate(jjFunctions, templatePath))
+      | None => None
+      }
+    let isResume = switch Js.Dict.get(parsed["values"], "resume") {
+    | Some(Boolean(b)) => b
+    | Some(_) => Exn.raiseError("--resume was used as a string")
+    | None => false
+    }
+    let isJson = switch Js.Dict.get(parsed["values"], "json") {
+    | Some(Boolean(b)) => b
+    | Some(_) => Exn.raiseError("--json was used as a string")
+    | None => false
+    }
+
+    // AIDEV-NOTE: Without a terminal (CI, git hooks) there's no one to answer a prompt, so
+    // ambiguous remotes and bookmarks have to be resolved by flags and settings instead
+    let isInteractive = switch Js.Dict.get(parsed["values"], "non-interactive") {
+    | Some(Boolean(b)) => !b && !isJson && stdinIsTTY == Some(true)
+    | Some(_) => Exn.raiseError("--non-interactive was used as a string")
+    | None => !isJson && stdinIsTTY == Some(true)
+    }
+    let preferBookmarks = getStringsOption("prefer-bookmark")->Option.getOr([])
     let isHelp = switch Js.Dict.get(parsed["values"], "help") {
     | Some(help) =>
       switch help {
@@ -164,16 +393,69 @@ let main = async () => {
     | None => false
     }
 
-    // AIDEV-NOTE: Always resolve remote name before command dispatch
-    let remotes = await jjFunctions.getGitRemoteList()
-    let remoteName = await resolveRemoteName(remotes, remoteOpt)
+    // AIDEV-NOTE: Resolve remote names only for commands that talk to GitHub. PRs are opened
+    // against the remote, and bookmarks are pushed to the push remote (a fork) if there is one.
+    let enterpriseHosts = config.githubHosts->Option.mapOr([], hosts => Js.Dict.keys(hosts))
+    let getRemoteNames = async () => {
+      let remotes = await jjFunctions.getGitRemoteList()
+      let remoteName = await resolveRemoteName(
+        remotes,
+        remoteOpt,
+        ~enterpriseHosts,
+        ~interactive=isInteractive,
+      )
+      let pushRemoteName = switch pushRemoteOpt {
+      | Some(_) =>
+        await resolveRemoteName(
+          remotes,
+          pushRemoteOpt,
+          ~enterpriseHosts,
+          ~interactive=isInteractive,
+        )
+      | None => remoteName
+      }
+      (remoteName, pushRemoteName)
+    }
+
+    let explainBookmark = switch Js.Dict.get(parsed["values"], "explain") {
+    | Some(String(b)) => Some(b)
+    | Some(_) => Exn.raiseError("--explain was used as a boolean")
+    | None => None
+    }
 
     switch command {
-    | None =>
+    | None | Some("analyze") =>
       if isHelp {
         Console.log(help)
+      } else if explainBookmark->Option.isSome {
+        await AnalyzeCommand.explainCommand(jjFunctions, explainBookmark->Option.getExn)
+      } else if isJson {
+        await AnalyzeCommand.analyzeJsonCommand(jjFunctions)
+      } else if !isInteractive {
+        Console.error(
+          "❌ The change graph is interactive and needs a terminal. Use `jj-stack --json` to print it, or `jj-stack submit <bookmark>`.",
+        )
+        exit(1)
       } else {
-        await AnalyzeCommand.analyzeCommand(jjFunctions, ~remote=remoteName, ~dryRun=isDryRun)
+        let (remoteName, pushRemoteName) = await getRemoteNames()
+        let prTemplate = await loadPRTemplate()
+        await AnalyzeCommand.analyzeCommand(
+          jjFunctions,
+          ~remote=remoteName,
+          ~pushRemote=pushRemoteName,
+          ~dryRun=isDryRun,
+          ~splitting,
+          ~submissionOptions={
+            stackInfoMode,
+            updatePRBodies,
+            draft: isDraft,
+            markReady,
+            reviewers,
+            assignees,
+            labels,
+            ?prTemplate,
+          },
+        )
       }
     | Some(cmd) =>
       switch cmd {
@@ -182,20 +464,62 @@ let main = async () => {
           AuthCommand.authHelpCommand()
         } else {
           switch subArg {
-          | Some("test") => await AuthCommand.authTestCommand()
+          | Some("test") =>
+            // Test against the remote's GitHub instance, or github.com outside a GitHub repo
+            let host = try {
+              let (remoteName, _) = await getRemoteNames()
+              Some(await AuthCommand.getGitHubHost(jjFunctions, remoteName))
+            } catch {
+            | _ => None
+            }
+            await AuthCommand.authTestCommand(~host?)
           | _ => AuthCommand.authHelpCommand()
           }
         }
       | "submit" =>
         if isHelp {
-          Console.error("Usage: jj-stack submit <bookmark-name> [--dry-run] [--remote <name>]")
+          Console.error(
+            "Usage: jj-stack submit <bookmark-name> [--dry-run] [--remote <name>]\n       jj-stack submit --resume",
+          )
         } else {
-          switch subArg {
+          // AIDEV-NOTE: --resume continues the submission recorded in the journal, so the
+          // bookmark name is optional
+          let resume = isResume ? await SubmitCommand.readJournal(jjFunctions) : None
+          if isResume && resume->Option.isNone {
+            Console.error("❌ There is no interrupted submission to resume")
+            exit(1)
+          }
+          let bookmarkName = switch (subArg, resume) {
+          | (Some(_), _) => subArg
+          | (None, Some(journal)) => Some(journal.targetBookmark)
+          | (None, None) => None
+          }
+          switch bookmarkName {
           | Some(bookmarkName) =>
+            let (remoteName, pushRemoteName) = await getRemoteNames()
+            let prTemplate = await loadPRTemplate()
             await SubmitCommand.submitCommand(
               jjFunctions,
               bookmarkName,
-              ~options={dryRun: isDryRun, remote: remoteName},
+              ~options={
+                dryRun: isDryRun,
+                remote: remoteName,
+                pushRemote: pushRemoteName,
+                stackInfoMode,
+                updatePRBodies,
+                draft: isDraft,
+                markReady,
+                reviewers,
+                assignees,
+                labels,
+                ?prTemplate,
+                ?resume,
+                json: isJson,
+                nonInteractive: !isInteractive,
+                preferBookmarks,
+                splitChanges: splitting != NoSplit,
+                splitBookmarkTemplate: ?config.splitBookmarkTemplate,
+              },
             )
           | None => {
               Console.error("Usage: jj-stack submit <bookmark-name> [--dry-run] [--remote <name>]")
@@ -203,6 +527,31 @@ let main = async () => {
             }
           }
         }
+      | "sync" =>
+        if isHelp {
+          Console.log("Usage: jj-stack sync [--dry-run] [--remote <name>]")
+        } else {
+          let (remoteName, pushRemoteName) = await getRemoteNames()
+          await SyncCommand.syncCommand(
+            jjFunctions,
+            ~remote=remoteName,
+            ~pushRemote=pushRemoteName,
+            ~dryRun=isDryRun,
+          )
+        }
+      | "cleanup" =>
+        if isHelp {
+          Console.log("Usage: jj-stack cleanup [--dry-run] [--remote <name>]")
+        } else {
+          let (remoteName, pushRemoteName) = await getRemoteNames()
+          await CleanupCommand.cleanupCommand(
+            jjFunctions,
+            ~remote=remoteName,
+            ~pushRemote=pushRemoteName,
+            ~dryRun=isDryRun,
+          )
+        }
+      | "config" => await ConfigCommand.configCommand(jjFunctions)
       | "help" => Console.log(help)
       | _ => {
           Console.error(`Unrecognized command: ${cmd}\n`)
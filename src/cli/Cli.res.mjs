@@ -4,11 +4,18 @@ import * as $$Ink from "ink";
 import * as Utils from "./Utils.res.mjs";
 import * as Js_exn from "rescript/lib/es6/js_exn.js";
 import * as Js_dict from "rescript/lib/es6/js_dict.js";
+import * as Caml_obj from "rescript/lib/es6/caml_obj.js";
 import * as Nodeutil from "node:util";
 import * as Belt_Array from "rescript/lib/es6/belt_Array.js";
 import * as AuthCommand from "./AuthCommand.res.mjs";
+import * as SyncCommand from "./SyncCommand.res.mjs";
+import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
+import * as ConfigCommand from "./ConfigCommand.res.mjs";
 import * as SubmitCommand from "./SubmitCommand.res.mjs";
 import * as AnalyzeCommand from "./AnalyzeCommand.res.mjs";
+import * as CleanupCommand from "./CleanupCommand.res.mjs";
+import * as ConfigJs from "../lib/config.js";
+import * as SubmitJs from "../lib/submit.js";
 import * as JjUtilsJs from "../lib/jjUtils.js";
 import * as JsxRuntime from "react/jsx-runtime";
 import * as Caml_js_exceptions from "rescript/lib/es6/caml_js_exceptions.js";
@@ -18,20 +25,32 @@ function createJjFunctions(prim) {
   return JjUtilsJs.createJjFunctions(prim);
 }
 
-function isGitHubRemote(prim) {
-  return JjUtilsJs.isGitHubRemote(prim);
+function isGitHubRemote(prim0, prim1) {
+  return JjUtilsJs.isGitHubRemote(prim0, prim1);
 }
 
-var help = "🔧 jj-stack - Jujutsu Git workflow automation\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\nUSAGE:\n  jj-stack [COMMAND] [OPTIONS]\n\nCOMMANDS:\n  submit <bookmark>     Submit a bookmark and all downstack bookmarks as PRs\n    --dry-run           Show what would be done without making changes\n    --remote <name>     Use the specified Git remote (must be a GitHub remote)\n\n  auth test             Test GitHub authentication\n  auth help             Show authentication help\n\n  help, --help, -h      Show this help message\n\nDEFAULT BEHAVIOR:\n  Running jj-stack without arguments analyzes and displays the current\n  graph of stacked bookmarks.\n\nEXAMPLES:\n  jj-stack                        # Show change graph\n  jj-stack submit feature-branch  # Submit feature-branch and downstack as PRs\n  jj-stack submit feature-branch --dry-run  # Preview what would be done\n  jj-stack submit feature-branch --remote upstream  # Use a specific remote\n  jj-stack auth test              # Test GitHub authentication\n\nFor more information, visit: https://github.com/keanemind/jj-stack\n";
+function loadConfig(prim) {
+  return ConfigJs.loadConfig(prim);
+}
+
+function readPRTemplate(prim0, prim1) {
+  return ConfigJs.readPRTemplate(prim0, prim1);
+}
+
+function resolveDraftOptions(prim0, prim1) {
+  return SubmitJs.resolveDraftOptions(prim0, prim1);
+}
 
-async function resolveRemoteName(remotes, userSpecified) {
+var help = "🔧 jj-stack - Jujutsu Git workflow automation\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\nUSAGE:\n  jj-stack [COMMAND] [OPTIONS]\n\nCOMMANDS:\n  analyze               Show the change graph (the default command)\n    --json              Print the stacks as JSON\n    --explain <bookmark> Explain why a bookmark is or isn't in the change graph\n    --onto <revset>     Stack on this bookmark or revset instead of trunk()\n    --include <revset>  Also stack bookmarks on these changes, e.g. a teammate's\n\n  submit <bookmark>     Submit a bookmark and all downstack bookmarks as PRs\n    --dry-run           Show what would be done without making changes\n    --remote <name>     Use the specified Git remote (must be a GitHub remote)\n    --push-remote <name> Push bookmarks to this remote (e.g. your fork) and open\n                        PRs against --remote\n    --stack-info <mode> Where to show the stack list: comment (default), body, or both\n    --update-body       Regenerate PR descriptions that haven't been edited by hand\n    --draft             Create new PRs as drafts\n    --ready             Mark existing draft PRs in the stack as ready for review\n    --reviewer <name>   Request a review on new PRs (user or org/team, repeatable)\n    --assignee <name>   Assign new PRs to a user (repeatable)\n    --label <name>      Add a label to new PRs (repeatable)\n    --resume            Continue an interrupted submission from the step that failed\n    --json              Print the submission plan (and result) as JSON\n    --non-interactive   Never prompt (the default when stdin isn't a terminal)\n    --prefer-bookmark <glob>  When a change has several bookmarks, submit the one\n                        matching this glob (repeatable, first match wins)\n    --split-changes     Give each unbookmarked change in the stack a bookmark\n                        (named by the splitBookmarkTemplate setting) and its own PR\n    --onto <revset>     Stack on this bookmark or revset instead of trunk(). If it\n                        names a bookmark, the bottom PR targets that branch.\n    --include <revset>  Also stack on bookmarks on these changes, using their\n                        existing PRs as bases without pushing or editing them\n\n  sync                  Retarget open PRs after PRs below them were merged or closed\n    --dry-run           Show what would be done without making changes\n    --remote <name>     Use the specified Git remote (must be a GitHub remote)\n    --push-remote <name> The remote your bookmarks are pushed to, if it's a fork\n\n  cleanup               Delete the bookmarks of merged or closed PRs (locally and on\n                        the remote), and close PRs whose bookmarks were deleted locally\n    --dry-run           Show what would be done without making changes\n    --remote <name>     Use the specified Git remote (must be a GitHub remote)\n    --push-remote <name> The remote your bookmarks are pushed to, if it's a fork\n\n  config                Show the effective settings and where each one came from\n\n  auth test             Test GitHub authentication\n  auth help             Show authentication help\n\n  help, --help, -h      Show this help message\n\nDEFAULT BEHAVIOR:\n  Running jj-stack without arguments analyzes and displays the current\n  graph of stacked bookmarks. Pass --json to print the stacks as JSON instead.\n\nEXAMPLES:\n  jj-stack                        # Show change graph\n  jj-stack analyze --explain feature-branch  # Why isn't feature-branch in the graph?\n  jj-stack submit feature-branch  # Submit feature-branch and downstack as PRs\n  jj-stack submit feature-branch --dry-run  # Preview what would be done\n  jj-stack submit feature-branch --remote upstream  # Use a specific remote\n  jj-stack submit feature-branch --remote upstream --push-remote origin  # From a fork\n  jj-stack submit feature-branch --stack-info body  # Show the stack in PR descriptions\n  jj-stack submit feature-branch --split-changes  # One PR per change\n  jj-stack submit --resume        # Finish a submission that failed part way\n  jj-stack submit feature-branch --dry-run --json  # Print the plan for other tools\n  jj-stack submit feature-branch --non-interactive --prefer-bookmark 'pr/*'  # In CI\n  jj-stack submit hotfix --onto release-1.2  # Stack on a release branch\n  jj-stack submit my-feature --include 'author(alice)'  # Stack on alice's PRs\n  jj-stack sync                   # Retarget PRs after the bottom of a stack merged\n  jj-stack cleanup --dry-run      # List bookmarks and PRs left over from merged stacks\n  jj-stack config                 # Show the effective settings\n  jj-stack auth test              # Test GitHub authentication\n\nCONFIGURATION:\n  Defaults can be set in jj's config under jj-stack.*, or in a .jj-stack.json\n  file in the root of the repository. jj config wins over the file, and flags\n  win over both:\n    jj config set --repo jj-stack.remote upstream\n    { \"reviewers\": [\"alice\", \"my-org/my-team\"], \"labels\": [\"stacked\"] }\n  Settings: remote, pushRemote, defaultBranch, trunk, includeBookmarks, draft,\n  stackInfo, updateBody, splitChanges, splitBookmarkTemplate, reviewers, assignees,\n  labels, prTemplate, githubHosts\n\nGITHUB ENTERPRISE:\n  Remotes on GitHub Enterprise Server hosts are supported once the host is\n  listed in githubHosts, mapped to its API URL (\"\" for https://<host>/api/v3):\n    { \"githubHosts\": { \"git.corp.example\": \"\" } }\n  Tokens come from \`gh auth token --hostname <host>\` or GH_ENTERPRISE_TOKEN.\n\nFor more information, visit: https://github.com/keanemind/jj-stack\n";
+
+async function resolveRemoteName(remotes, userSpecified, enterpriseHosts, interactive) {
   if (userSpecified !== undefined) {
     var foundRemote = remotes.find(function (r) {
           return r.name === userSpecified;
         });
     if (foundRemote !== undefined) {
-      if (!JjUtilsJs.isGitHubRemote(foundRemote.url)) {
-        console.error("❌ Remote '" + userSpecified + "' is not a GitHub remote. Only GitHub remotes are supported.");
+      if (!JjUtilsJs.isGitHubRemote(foundRemote.url, enterpriseHosts)) {
+        console.error("❌ Remote '" + userSpecified + "' is not a GitHub remote. Only GitHub remotes are supported (add GitHub Enterprise hosts to the githubHosts setting).");
         process.exit(1);
         Js_exn.raiseError("");
       }
@@ -43,11 +62,14 @@ async function resolveRemoteName(remotes, userSpecified) {
     }
   }
   var githubRemotes = remotes.filter(function (r) {
-        return JjUtilsJs.isGitHubRemote(r.url);
+        return JjUtilsJs.isGitHubRemote(r.url, enterpriseHosts);
       });
   var match = githubRemotes.length;
   if (match !== 0) {
-    if (match !== 1) {
+    if (match === 1) {
+      return Belt_Array.getExn(githubRemotes, 0).name;
+    }
+    if (interactive) {
       console.log("🔀 Multiple GitHub remotes found, opening interactive selector...");
       console.log();
       return await new Promise((function (resolve, _reject) {
@@ -67,32 +89,95 @@ async function resolveRemoteName(remotes, userSpecified) {
                     var inkInstance = $$Ink.render(component);
                     inkInstanceRef.contents = inkInstance;
                   }));
-    } else {
-      return Belt_Array.getExn(githubRemotes, 0).name;
     }
-  } else {
-    console.error("❌ No GitHub remotes found. At least one GitHub remote is required.");
+    var names = githubRemotes.map(function (r) {
+            return r.name;
+          }).join(", ");
+    console.error("❌ Multiple GitHub remotes found (" + names + "). Choose one with --remote or the remote setting.");
     process.exit(1);
     return Js_exn.raiseError("");
   }
+  console.error("❌ No GitHub remotes found. At least one GitHub remote is required.");
+  process.exit(1);
+  return Js_exn.raiseError("");
 }
 
 async function main() {
   try {
     var jjPathResult = await Utils.getJJPath();
+    var jjConfig_binaryPath = jjPathResult.filepath;
     var jjConfig = {
-      binaryPath: jjPathResult.filepath
+      binaryPath: jjConfig_binaryPath
     };
-    var jjFunctions = JjUtilsJs.createJjFunctions(jjConfig);
+    var baseJjFunctions = JjUtilsJs.createJjFunctions(jjConfig);
     var parsed = Nodeutil.parseArgs({
           options: {
             remote: {
               type: "string"
             },
+            "push-remote": {
+              type: "string"
+            },
+            "stack-info": {
+              type: "string"
+            },
+            "update-body": {
+              type: "boolean",
+              default: false
+            },
+            "split-changes": {
+              type: "boolean",
+              default: false
+            },
+            draft: {
+              type: "boolean",
+              default: false
+            },
+            ready: {
+              type: "boolean",
+              default: false
+            },
+            reviewer: {
+              type: "string",
+              multiple: true
+            },
+            assignee: {
+              type: "string",
+              multiple: true
+            },
+            label: {
+              type: "string",
+              multiple: true
+            },
             "dry-run": {
               type: "boolean",
               default: false
             },
+            resume: {
+              type: "boolean",
+              default: false
+            },
+            json: {
+              type: "boolean",
+              default: false
+            },
+            "non-interactive": {
+              type: "boolean",
+              default: false
+            },
+            "prefer-bookmark": {
+              type: "string",
+              multiple: true
+            },
+            explain: {
+              type: "string"
+            },
+            onto: {
+              type: "string"
+            },
+            include: {
+              type: "string"
+            },
             help: {
               type: "boolean",
               short: "h",
@@ -104,62 +189,527 @@ async function main() {
     var positionals = parsed.positionals;
     var command = Belt_Array.get(positionals, 0);
     var subArg = Belt_Array.get(positionals, 1);
+    var settingsOptional;
+    if (command !== undefined) {
+      switch (command) {
+        case "auth" :
+        case "help" :
+            settingsOptional = true;
+            break;
+        default:
+          settingsOptional = Caml_obj.equal(Js_dict.get(parsed.values, "help"), true);
+      }
+    } else {
+      settingsOptional = Caml_obj.equal(Js_dict.get(parsed.values, "help"), true);
+    }
+    var match;
+    if (settingsOptional) {
+      try {
+        match = await ConfigJs.loadConfig(baseJjFunctions);
+      }
+      catch (raw_error){
+        var error = Caml_js_exceptions.internalToOCamlException(raw_error);
+        if (error.RE_EXN_ID === Js_exn.$$Error) {
+          console.warn("⚠️  Ignoring settings: " + Core__Option.getOr(error._1.message, "Unknown error"));
+          match = {
+            config: {},
+            sources: {}
+          };
+        } else {
+          throw error;
+        }
+      }
+    } else {
+      match = await ConfigJs.loadConfig(baseJjFunctions);
+    }
+    var config = match.config;
+    var match$1 = Js_dict.get(parsed.values, "onto");
+    var onto;
+    if (match$1 !== undefined) {
+      if (Array.isArray(match$1)) {
+        onto = Js_exn.raiseError("--onto was used as a boolean");
+      } else {
+        switch (typeof match$1) {
+          case "string" :
+              onto = match$1;
+              break;
+          case "boolean" :
+              onto = Js_exn.raiseError("--onto was used as a boolean");
+              break;
+          
+        }
+      }
+    } else {
+      onto = undefined;
+    }
+    var match$2 = onto !== undefined ? [
+        onto,
+        undefined
+      ] : [
+        config.trunk,
+        config.defaultBranch
+      ];
+    var defaultBranch = match$2[1];
+    var trunkRevset = match$2[0];
+    var match$3 = Js_dict.get(parsed.values, "include");
+    var includeBookmarks;
+    if (match$3 !== undefined) {
+      if (Array.isArray(match$3)) {
+        includeBookmarks = Js_exn.raiseError("--include was used as a boolean");
+      } else {
+        switch (typeof match$3) {
+          case "string" :
+              includeBookmarks = match$3;
+              break;
+          case "boolean" :
+              includeBookmarks = Js_exn.raiseError("--include was used as a boolean");
+              break;
+          
+        }
+      }
+    } else {
+      includeBookmarks = config.includeBookmarks;
+    }
+    var jjFunctions;
+    var exit = 0;
+    if (trunkRevset !== undefined || defaultBranch !== undefined || includeBookmarks !== undefined) {
+      exit = 1;
+    } else {
+      jjFunctions = baseJjFunctions;
+    }
+    if (exit === 1) {
+      var newrecord = Caml_obj.obj_dup(jjConfig);
+      jjFunctions = JjUtilsJs.createJjFunctions((newrecord.includeBookmarks = includeBookmarks, newrecord.defaultBranch = defaultBranch, newrecord.trunkRevset = trunkRevset, newrecord));
+    }
     var remote = Js_dict.get(parsed.values, "remote");
-    var remoteOpt = remote !== undefined ? (
-        typeof remote === "string" ? remote : Js_exn.raiseError("--remote was used as a boolean")
-      ) : undefined;
+    var remoteOpt;
+    if (remote !== undefined) {
+      if (Array.isArray(remote)) {
+        remoteOpt = Js_exn.raiseError("--remote was used as a boolean");
+      } else {
+        switch (typeof remote) {
+          case "string" :
+              remoteOpt = remote;
+              break;
+          case "boolean" :
+              remoteOpt = Js_exn.raiseError("--remote was used as a boolean");
+              break;
+          
+        }
+      }
+    } else {
+      remoteOpt = config.remote;
+    }
+    var match$4 = Js_dict.get(parsed.values, "push-remote");
+    var pushRemoteOpt;
+    if (match$4 !== undefined) {
+      if (Array.isArray(match$4)) {
+        pushRemoteOpt = Js_exn.raiseError("--push-remote was used as a boolean");
+      } else {
+        switch (typeof match$4) {
+          case "string" :
+              pushRemoteOpt = match$4;
+              break;
+          case "boolean" :
+              pushRemoteOpt = Js_exn.raiseError("--push-remote was used as a boolean");
+              break;
+          
+        }
+      }
+    } else {
+      pushRemoteOpt = config.pushRemote;
+    }
     var dryRun = Js_dict.get(parsed.values, "dry-run");
-    var isDryRun = dryRun !== undefined ? (
-        typeof dryRun === "string" ? Js_exn.raiseError("--dry-run was used as a string") : dryRun
-      ) : false;
-    var help$1 = Js_dict.get(parsed.values, "help");
-    var isHelp = help$1 !== undefined ? (
-        typeof help$1 === "string" ? Js_exn.raiseError("--help was used as a string") : help$1
-      ) : false;
-    var remotes = await jjFunctions.getGitRemoteList();
-    var remoteName = await resolveRemoteName(remotes, remoteOpt);
-    if (command === undefined) {
-      if (isHelp) {
-        console.log(help);
+    var isDryRun;
+    if (dryRun !== undefined) {
+      if (Array.isArray(dryRun)) {
+        isDryRun = Js_exn.raiseError("--dry-run was used as a string");
+      } else {
+        switch (typeof dryRun) {
+          case "string" :
+              isDryRun = Js_exn.raiseError("--dry-run was used as a string");
+              break;
+          case "boolean" :
+              isDryRun = dryRun;
+              break;
+          
+        }
+      }
+    } else {
+      isDryRun = false;
+    }
+    var match$5 = Js_dict.get(parsed.values, "stack-info");
+    var stackInfoMode;
+    if (match$5 !== undefined) {
+      if (Array.isArray(match$5)) {
+        stackInfoMode = Js_exn.raiseError("--stack-info was used as a boolean");
+      } else {
+        switch (typeof match$5) {
+          case "string" :
+              switch (match$5) {
+                case "body" :
+                    stackInfoMode = "body";
+                    break;
+                case "both" :
+                    stackInfoMode = "both";
+                    break;
+                case "comment" :
+                    stackInfoMode = "comment";
+                    break;
+                default:
+                  stackInfoMode = Js_exn.raiseError("--stack-info must be one of comment, body, or both (got '" + match$5 + "')");
+              }
+              break;
+          case "boolean" :
+              stackInfoMode = Js_exn.raiseError("--stack-info was used as a boolean");
+              break;
+          
+        }
+      }
+    } else {
+      stackInfoMode = Core__Option.getOr(config.stackInfo, "comment");
+    }
+    var match$6 = Js_dict.get(parsed.values, "update-body");
+    var updatePRBodies;
+    if (match$6 !== undefined) {
+      if (Array.isArray(match$6)) {
+        updatePRBodies = Js_exn.raiseError("--update-body was used as a string");
+      } else {
+        switch (typeof match$6) {
+          case "string" :
+              updatePRBodies = Js_exn.raiseError("--update-body was used as a string");
+              break;
+          case "boolean" :
+              updatePRBodies = match$6 || Core__Option.getOr(config.updateBody, false);
+              break;
+          
+        }
+      }
+    } else {
+      updatePRBodies = Core__Option.getOr(config.updateBody, false);
+    }
+    var match$7 = Js_dict.get(parsed.values, "split-changes");
+    var splitting;
+    if (match$7 !== undefined) {
+      if (Array.isArray(match$7)) {
+        splitting = Js_exn.raiseError("--split-changes was used as a string");
+      } else {
+        switch (typeof match$7) {
+          case "string" :
+              splitting = Js_exn.raiseError("--split-changes was used as a string");
+              break;
+          case "boolean" :
+              splitting = match$7 || Core__Option.getOr(config.splitChanges, false) ? ({
+                    TAG: "Split",
+                    _0: config.splitBookmarkTemplate
+                  }) : "NoSplit";
+              break;
+          
+        }
+      }
+    } else {
+      splitting = "NoSplit";
+    }
+    var match$8 = Js_dict.get(parsed.values, "draft");
+    var isDraft;
+    if (match$8 !== undefined) {
+      if (Array.isArray(match$8)) {
+        isDraft = Js_exn.raiseError("--draft was used as a string");
+      } else {
+        switch (typeof match$8) {
+          case "string" :
+              isDraft = Js_exn.raiseError("--draft was used as a string");
+              break;
+          case "boolean" :
+              isDraft = match$8;
+              break;
+          
+        }
+      }
+    } else {
+      isDraft = false;
+    }
+    var match$9 = Js_dict.get(parsed.values, "ready");
+    var markReady;
+    if (match$9 !== undefined) {
+      if (Array.isArray(match$9)) {
+        markReady = Js_exn.raiseError("--ready was used as a string");
+      } else {
+        switch (typeof match$9) {
+          case "string" :
+              markReady = Js_exn.raiseError("--ready was used as a string");
+              break;
+          case "boolean" :
+              markReady = match$9;
+              break;
+          
+        }
+      }
+    } else {
+      markReady = false;
+    }
+    var match$10 = SubmitJs.resolveDraftOptions({
+          draft: isDraft,
+          ready: markReady
+        }, config.draft);
+    var markReady$1 = match$10.markReady;
+    var isDraft$1 = match$10.draft;
+    var getStringsOption = function (name) {
+      var match = Js_dict.get(parsed.values, name);
+      if (match === undefined) {
         return ;
+      }
+      if (Array.isArray(match)) {
+        return match;
+      }
+      switch (typeof match) {
+        case "string" :
+        case "boolean" :
+            return Js_exn.raiseError("--" + name + " was used as a boolean");
+        
+      }
+    };
+    var reviewers = Core__Option.getOr(getStringsOption("reviewer"), Core__Option.getOr(config.reviewers, []));
+    var assignees = Core__Option.getOr(getStringsOption("assignee"), Core__Option.getOr(config.assignees, []));
+    var labels = Core__Option.getOr(getStringsOption("label"), Core__Option.getOr(config.labels, []));
+    var loadPRTemplate = async function () {
+      var templatePath = config.prTemplate;
+      if (templatePath !== undefined) {
+        return await ConfigJs.readPRTemplate(jjFunctions, templatePath);
+      }
+      
+    };
+    var match$11 = Js_dict.get(parsed.values, "resume");
+    var isResume;
+    if (match$11 !== undefined) {
+      if (Array.isArray(match$11)) {
+        isResume = Js_exn.raiseError("--resume was used as a string");
       } else {
-        return await AnalyzeCommand.analyzeCommand(jjFunctions, remoteName, isDryRun);
+        switch (typeof match$11) {
+          case "string" :
+              isResume = Js_exn.raiseError("--resume was used as a string");
+              break;
+          case "boolean" :
+              isResume = match$11;
+              break;
+          
+        }
       }
+    } else {
+      isResume = false;
     }
-    switch (command) {
-      case "auth" :
-          if (isHelp || subArg !== "test") {
-            return AuthCommand.authHelpCommand();
-          } else {
-            return await AuthCommand.authTestCommand();
-          }
-      case "help" :
-          console.log(help);
-          return ;
-      case "submit" :
-          if (isHelp) {
-            console.error("Usage: jj-stack submit <bookmark-name> [--dry-run] [--remote <name>]");
+    var match$12 = Js_dict.get(parsed.values, "json");
+    var isJson;
+    if (match$12 !== undefined) {
+      if (Array.isArray(match$12)) {
+        isJson = Js_exn.raiseError("--json was used as a string");
+      } else {
+        switch (typeof match$12) {
+          case "string" :
+              isJson = Js_exn.raiseError("--json was used as a string");
+              break;
+          case "boolean" :
+              isJson = match$12;
+              break;
+          
+        }
+      }
+    } else {
+      isJson = false;
+    }
+    var match$13 = Js_dict.get(parsed.values, "non-interactive");
+    var isInteractive;
+    if (match$13 !== undefined) {
+      if (Array.isArray(match$13)) {
+        isInteractive = Js_exn.raiseError("--non-interactive was used as a string");
+      } else {
+        switch (typeof match$13) {
+          case "string" :
+              isInteractive = Js_exn.raiseError("--non-interactive was used as a string");
+              break;
+          case "boolean" :
+              isInteractive = !match$13 && !isJson && Caml_obj.equal(process.stdin.isTTY, true);
+              break;
+          
+        }
+      }
+    } else {
+      isInteractive = !isJson && Caml_obj.equal(process.stdin.isTTY, true);
+    }
+    var preferBookmarks = Core__Option.getOr(getStringsOption("prefer-bookmark"), []);
+    var help$1 = Js_dict.get(parsed.values, "help");
+    var isHelp;
+    if (help$1 !== undefined) {
+      if (Array.isArray(help$1)) {
+        isHelp = Js_exn.raiseError("--help was used as a string");
+      } else {
+        switch (typeof help$1) {
+          case "string" :
+              isHelp = Js_exn.raiseError("--help was used as a string");
+              break;
+          case "boolean" :
+              isHelp = help$1;
+              break;
+          
+        }
+      }
+    } else {
+      isHelp = false;
+    }
+    var enterpriseHosts = Core__Option.mapOr(config.githubHosts, [], (function (hosts) {
+            return Object.keys(hosts);
+          }));
+    var getRemoteNames = async function () {
+      var remotes = await jjFunctions.getGitRemoteList();
+      var remoteName = await resolveRemoteName(remotes, remoteOpt, enterpriseHosts, isInteractive);
+      var pushRemoteName = pushRemoteOpt !== undefined ? await resolveRemoteName(remotes, pushRemoteOpt, enterpriseHosts, isInteractive) : remoteName;
+      return [
+              remoteName,
+              pushRemoteName
+            ];
+    };
+    var match$14 = Js_dict.get(parsed.values, "explain");
+    var explainBookmark;
+    if (match$14 !== undefined) {
+      if (Array.isArray(match$14)) {
+        explainBookmark = Js_exn.raiseError("--explain was used as a boolean");
+      } else {
+        switch (typeof match$14) {
+          case "string" :
+              explainBookmark = match$14;
+              break;
+          case "boolean" :
+              explainBookmark = Js_exn.raiseError("--explain was used as a boolean");
+              break;
+          
+        }
+      }
+    } else {
+      explainBookmark = undefined;
+    }
+    var exit$1 = 0;
+    if (command !== undefined && command !== "analyze") {
+      switch (command) {
+        case "auth" :
+            if (isHelp) {
+              return AuthCommand.authHelpCommand();
+            }
+            if (subArg === undefined) {
+              return AuthCommand.authHelpCommand();
+            }
+            if (subArg !== "test") {
+              return AuthCommand.authHelpCommand();
+            }
+            var host;
+            try {
+              var match$15 = await getRemoteNames();
+              host = await AuthCommand.getGitHubHost(jjFunctions, match$15[0]);
+            }
+            catch (exn){
+              host = undefined;
+            }
+            return await AuthCommand.authTestCommand(host);
+        case "cleanup" :
+            if (isHelp) {
+              console.log("Usage: jj-stack cleanup [--dry-run] [--remote <name>]");
+              return ;
+            }
+            var match$16 = await getRemoteNames();
+            return await CleanupCommand.cleanupCommand(jjFunctions, match$16[0], match$16[1], isDryRun);
+        case "config" :
+            return await ConfigCommand.configCommand(jjFunctions);
+        case "help" :
+            console.log(help);
             return ;
-          } else if (subArg !== undefined) {
-            return await SubmitCommand.submitCommand(jjFunctions, subArg, {
-                        dryRun: isDryRun,
-                        remote: remoteName
-                      });
-          } else {
+        case "submit" :
+            if (isHelp) {
+              console.error("Usage: jj-stack submit <bookmark-name> [--dry-run] [--remote <name>]\n       jj-stack submit --resume");
+              return ;
+            }
+            var resume = isResume ? await SubmitCommand.readJournal(jjFunctions) : undefined;
+            if (isResume && Core__Option.isNone(resume)) {
+              console.error("❌ There is no interrupted submission to resume");
+              process.exit(1);
+            }
+            var bookmarkName = subArg !== undefined ? subArg : (
+                resume !== undefined ? resume.targetBookmark : undefined
+              );
+            if (bookmarkName !== undefined) {
+              var match$17 = await getRemoteNames();
+              var prTemplate = await loadPRTemplate();
+              return await SubmitCommand.submitCommand(jjFunctions, bookmarkName, {
+                          dryRun: isDryRun,
+                          remote: match$17[0],
+                          pushRemote: match$17[1],
+                          stackInfoMode: stackInfoMode,
+                          updatePRBodies: updatePRBodies,
+                          draft: isDraft$1,
+                          markReady: markReady$1,
+                          reviewers: reviewers,
+                          assignees: assignees,
+                          labels: labels,
+                          prTemplate: prTemplate,
+                          resume: resume,
+                          json: isJson,
+                          nonInteractive: !isInteractive,
+                          preferBookmarks: preferBookmarks,
+                          splitChanges: splitting !== "NoSplit",
+                          splitBookmarkTemplate: config.splitBookmarkTemplate
+                        });
+            }
             console.error("Usage: jj-stack submit <bookmark-name> [--dry-run] [--remote <name>]");
             process.exit(1);
             return ;
-          }
-      default:
-        console.error("Unrecognized command: " + command + "\n");
+        case "sync" :
+            if (isHelp) {
+              console.log("Usage: jj-stack sync [--dry-run] [--remote <name>]");
+              return ;
+            }
+            var match$18 = await getRemoteNames();
+            return await SyncCommand.syncCommand(jjFunctions, match$18[0], match$18[1], isDryRun);
+        default:
+          console.error("Unrecognized command: " + command + "\n");
+          console.log(help);
+          return ;
+      }
+    } else {
+      exit$1 = 1;
+    }
+    if (exit$1 === 1) {
+      if (isHelp) {
         console.log(help);
         return ;
+      }
+      if (Core__Option.isSome(explainBookmark)) {
+        return await AnalyzeCommand.explainCommand(jjFunctions, Core__Option.getExn(explainBookmark, undefined));
+      }
+      if (isJson) {
+        return await AnalyzeCommand.analyzeJsonCommand(jjFunctions);
+      }
+      if (isInteractive) {
+        var match$19 = await getRemoteNames();
+        var prTemplate$1 = await loadPRTemplate();
+        return await AnalyzeCommand.analyzeCommand(jjFunctions, match$19[0], match$19[1], isDryRun, {
+                    stackInfoMode: stackInfoMode,
+                    updatePRBodies: updatePRBodies,
+                    draft: isDraft$1,
+                    markReady: markReady$1,
+                    reviewers: reviewers,
+                    assignees: assignees,
+                    labels: labels,
+                    prTemplate: prTemplate$1
+                  }, splitting);
+      }
+      console.error("❌ The change graph is interactive and needs a terminal. Use `jj-stack --json` to print it, or `jj-stack submit <bookmark>`.");
+      process.exit(1);
+      return ;
     }
+    
   }
-  catch (raw_error){
-    var error = Caml_js_exceptions.internalToOCamlException(raw_error);
-    if (error.RE_EXN_ID === Js_exn.$$Error) {
-      var message = error._1.message;
+  catch (raw_error$1){
+    var error$1 = Caml_js_exceptions.internalToOCamlException(raw_error$1);
+    if (error$1.RE_EXN_ID === Js_exn.$$Error) {
+      var message = error$1._1.message;
       if (message !== undefined) {
         console.error("An error occurred: " + message);
         process.exit(1);
@@ -178,6 +728,9 @@ async function main() {
 export {
   createJjFunctions ,
   isGitHubRemote ,
+  loadConfig ,
+  readPRTemplate ,
+  resolveDraftOptions ,
   help ,
   resolveRemoteName ,
   main ,
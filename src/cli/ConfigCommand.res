@@ -0,0 +1,26 @@
+// AIDEV-NOTE: Config command - prints the effective jj-stack settings and where each came from
+// (jj config, .jj-stack.json, or the built-in default). CLI flags aren't reflected here.
+@module("../lib/config.js")
+external loadConfig: JJTypes.jjFunctions => promise<JJTypes.loadedConfig> = "loadConfig"
+@module("../lib/config.js")
+external describeConfig: JJTypes.loadedConfig => array<JJTypes.configEntry> = "describeConfig"
+
+let configCommand = async (jjFunctions: JJTypes.jjFunctions): unit => {
+  let entries = describeConfig(await loadConfig(jjFunctions))
+  let keyWidth =
+    entries->Array.reduce(0, (width, entry) => Math.Int.max(width, entry.key->String.length))
+
+  Console.log("⚙️  Effective jj-stack configuration:")
+  entries->Array.forEach(entry => {
+    let key = entry.key->String.padEnd(keyWidth, " ")
+    if entry.source == "default" {
+      Console.log(`   ${key}  (default: ${entry.value})`)
+    } else {
+      Console.log(`   ${key}  ${entry.value}  [${entry.source}]`)
+    }
+  })
+  Console.log()
+  Console.log(
+    "Set values with `jj config set --repo jj-stack.<setting> <value>` or in .jj-stack.json.",
+  )
+}
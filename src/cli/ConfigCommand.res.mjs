@@ -0,0 +1,37 @@
+// Generated by ReScript, PLEASE EDIT WITH CARE
+
+import * as Core__Array from "@rescript/core/src/Core__Array.res.mjs";
+import * as ConfigJs from "../lib/config.js";
+
+function loadConfig(prim) {
+  return ConfigJs.loadConfig(prim);
+}
+
+function describeConfig(prim) {
+  return ConfigJs.describeConfig(prim);
+}
+
+async function configCommand(jjFunctions) {
+  var entries = ConfigJs.describeConfig(await ConfigJs.loadConfig(jjFunctions));
+  var keyWidth = Core__Array.reduce(entries, 0, (function (width, entry) {
+          return Math.max(width, entry.key.length);
+        }));
+  console.log("⚙️  Effective jj-stack configuration:");
+  entries.forEach(function (entry) {
+        var key = entry.key.padEnd(keyWidth, " ");
+        if (entry.source === "default") {
+          console.log("   " + key + "  (default: " + entry.value + ")");
+        } else {
+          console.log("   " + key + "  " + entry.value + "  [" + entry.source + "]");
+        }
+      });
+  console.log();
+  console.log("Set values with `jj config set --repo jj-stack.<setting> <value>` or in .jj-stack.json.");
+}
+
+export {
+  loadConfig ,
+  describeConfig ,
+  configCommand ,
+}
+/* ../lib/config.js Not a pure module */
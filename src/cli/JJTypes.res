@@ -4,7 +4,11 @@ type logEntry = {
   authorName: string,
   authorEmail: string,
   descriptionFirstLine: string,
+  description: string,
   parents: array<string>,
+  trunkParents: array<string>,
+  hasConflict: bool,
+  isDivergent: bool,
   localBookmarks: array<string>,
   remoteBookmarks: array<string>,
   isCurrentWorkingCopy: bool,
@@ -18,6 +22,8 @@ type bookmark = {
   changeId: string,
   hasRemote: bool,
   isSynced: bool,
+  conflictedTargets?: array<string>,
+  isForeign?: bool,
 }
 
 type bookmarkSegment = {
@@ -33,6 +39,22 @@ type narrowedBookmarkSegment = {
 
 type branchStack = {segments: array<bookmarkSegment>}
 
+// AIDEV-NOTE: Why a bookmark was left out of the change graph (mirrors ExclusionReason in jjTypes.ts)
+type exclusionReason = {
+  kind: [#"merge-commit" | #"tainted-by-ancestor" | #"on-trunk" | #conflicted | #divergent],
+  commitId?: string,
+  ancestorBookmark?: string,
+  changeId?: string,
+  commitIds?: array<string>,
+}
+
+// AIDEV-NOTE: A bookmark left out of the change graph because its stack can't be submitted
+type excludedBookmark = {
+  name: string,
+  reason: exclusionReason,
+  path: array<logEntry>, // From the bookmark's change down to the offending change
+}
+
 type changeGraph = {
   bookmarks: Map.t<string, bookmark>,
   bookmarkToChangeId: Map.t<string, string>,
@@ -41,7 +63,8 @@ type changeGraph = {
   stackLeafs: Set.t<string>,
   stackRoots: Set.t<string>,
   stacks: array<branchStack>,
-  excludedBookmarkCount: int, // AIDEV-NOTE: Count of bookmarks excluded due to merge commits
+  excludedBookmarkCount: int, // AIDEV-NOTE: Count of excluded bookmarks, not counting those on trunk
+  excludedBookmarks: array<excludedBookmark>,
 }
 
 // AIDEV-NOTE: Types for three-phase submission approach (mirrors TypeScript types)
@@ -53,7 +76,48 @@ type submissionAnalysis = {
 }
 
 // AIDEV-NOTE: Configuration for JJ binary and other settings
-type jjConfig = {binaryPath: string}
+type jjConfig = {
+  binaryPath: string,
+  trunkRevset?: string,
+  defaultBranch?: string,
+  includeBookmarks?: string,
+}
+
+type jjConfigEntry = {
+  name: string,
+  value: string,
+  source: string,
+}
+
+// AIDEV-NOTE: jj-stack settings from jj config and .jj-stack.json (mirrors RepoConfig in config.ts)
+type repoConfig = {
+  remote?: string,
+  pushRemote?: string,
+  defaultBranch?: string,
+  trunk?: string,
+  includeBookmarks?: string,
+  draft?: bool,
+  stackInfo?: [#comment | #body | #both],
+  updateBody?: bool,
+  splitChanges?: bool,
+  splitBookmarkTemplate?: string,
+  reviewers?: array<string>,
+  assignees?: array<string>,
+  labels?: array<string>,
+  prTemplate?: string,
+  githubHosts?: Js.Dict.t<string>,
+}
+
+type loadedConfig = {
+  config: repoConfig,
+  sources: Js.Dict.t<string>,
+}
+
+type configEntry = {
+  key: string,
+  value: string,
+  source: string,
+}
 
 type gitRemote = {
   name: string,
@@ -64,8 +128,20 @@ type gitRemote = {
 type jjFunctions = {
   gitFetch: unit => promise<unit>,
   getMyBookmarks: unit => promise<array<bookmark>>,
+  getTrunkBookmarks: unit => promise<array<bookmark>>,
   getBranchChangesPaginated: (string, string, option<string>) => promise<array<logEntry>>,
   getGitRemoteList: unit => promise<array<gitRemote>>,
   getDefaultBranch: unit => promise<string>,
   pushBookmark: (string, string) => promise<unit>,
+  createBookmark: (string, string) => promise<unit>,
+  deleteBookmark: string => promise<unit>,
+  deleteRemoteBookmark: (string, string) => promise<unit>,
+  getDeletedBookmarks: unit => promise<array<string>>,
+  getBookmarkNames: unit => promise<array<string>>,
+  getRepoRoot: unit => promise<string>,
+  getConfigList: string => promise<array<jjConfigEntry>>,
+  getChanges: string => promise<array<logEntry>>,
+  getOperationId: unit => promise<string>,
+  getStackAncestry?: unit => promise<array<logEntry>>,
+  getStackedRevset?: unit => string,
 }
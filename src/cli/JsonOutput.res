@@ -0,0 +1,7 @@
+// AIDEV-NOTE: Bindings for --json output (see jsonOutput.ts for the format)
+type t
+
+@module("../lib/jsonOutput.js")
+external printJson: t => unit = "printJson"
+@module("../lib/jsonOutput.js")
+external changeGraphToJson: JJTypes.changeGraph => t = "changeGraphToJson"
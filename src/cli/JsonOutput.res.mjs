@@ -0,0 +1,17 @@
+// Generated by ReScript, PLEASE EDIT WITH CARE
+
+import * as JsonOutputJs from "../lib/jsonOutput.js";
+
+function printJson(prim) {
+  JsonOutputJs.printJson(prim);
+}
+
+function changeGraphToJson(prim) {
+  return JsonOutputJs.changeGraphToJson(prim);
+}
+
+export {
+  printJson ,
+  changeGraphToJson ,
+}
+/* ../lib/jsonOutput.js Not a pure module */
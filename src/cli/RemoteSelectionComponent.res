@@ -17,12 +17,12 @@ type selectionState = {
  * Uses a simple regex approach since we already validated it's a GitHub remote
  */
 let extractRepoInfo = (url: string): option<(string, string)> => {
-  // Simple regex for GitHub URLs (both HTTPS and SSH)
+  // Simple regex for GitHub URLs (both HTTPS and SSH), on github.com or a GitHub Enterprise host
   // HTTPS: https://github.com/owner/repo.git
   // SSH: git@github.com:owner/repo.git
 
-  let httpsPattern = %re("/https:\/\/(?:[^\/]+\.)?github\.com\/([^\/]+)\/([^\/]+?)(?:\.git)?$/")
-  let sshPattern = %re("/git@(?:[^:]+\.)?github\.com:([^\/]+)\/([^\/]+?)(?:\.git)?$/")
+  let httpsPattern = %re("/https:\/\/[^\/]+\/([^\/]+)\/([^\/]+?)(?:\.git)?$/")
+  let sshPattern = %re("/git@[^:]+:([^\/]+)\/([^\/]+?)(?:\.git)?$/")
 
   let tryMatch = (pattern, url) => {
     switch Js.String.match_(pattern, url) {
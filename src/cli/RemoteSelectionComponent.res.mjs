@@ -8,8 +8,8 @@ import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
 import * as JsxRuntime from "react/jsx-runtime";
 
 function extractRepoInfo(url) {
-  var httpsPattern = /https:\/\/(?:[^\/]+\.)?github\.com\/([^\/]+)\/([^\/]+?)(?:\.git)?$/;
-  var sshPattern = /git@(?:[^:]+\.)?github\.com:([^\/]+)\/([^\/]+?)(?:\.git)?$/;
+  var httpsPattern = /https:\/\/[^\/]+\/([^\/]+)\/([^\/]+?)(?:\.git)?$/;
+  var sshPattern = /git@[^:]+:([^\/]+)\/([^\/]+?)(?:\.git)?$/;
   var tryMatch = function (pattern, url) {
     var matches = Js_string.match_(pattern, url);
     if (matches === undefined) {
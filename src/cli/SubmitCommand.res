@@ -3,15 +3,17 @@
 // Phase 2: Resolve bookmark selections (user chooses from multi-bookmark segments)
 // Phase 3: Execute the submission plan (push bookmarks, create/update PRs)
 @module("process") external exit: int => unit = "exit"
-@module("../lib/jjUtils.js")
-external buildChangeGraph: JJTypes.jjFunctions => promise<JJTypes.changeGraph> = "buildChangeGraph"
+@module("../lib/graphCache.js")
+external buildChangeGraph: JJTypes.jjFunctions => promise<JJTypes.changeGraph> =
+  "buildCachedChangeGraph"
 
-type prContent = {title: string}
+type prContent = {title: string, body: string}
 
 type bookmarkNeedingPR = {
   bookmark: JJTypes.bookmark,
   baseBranchOptions: array<string>,
   prContent: prContent,
+  draft: bool,
 }
 
 type repoInfo = {
@@ -27,8 +29,10 @@ type pullRequestBaseOrHead = {
 
 type pullRequest = {
   id: string,
+  number: int,
   html_url: string,
   title: string,
+  draft?: bool,
   base: pullRequestBaseOrHead,
   head: pullRequestBaseOrHead,
 }
@@ -40,15 +44,60 @@ type bookmarkNeedingPRBaseUpdate = {
   pr: pullRequest,
 }
 
+type bookmarkNeedingPRTitleUpdate = {
+  bookmark: JJTypes.bookmark,
+  currentTitle: string,
+  newTitle: string,
+  pr: pullRequest,
+}
+
+type bookmarkNeedingPRBodyUpdate = {
+  bookmark: JJTypes.bookmark,
+  pr: pullRequest,
+  newBody: string,
+}
+
+type bookmarkNeedingReadyForReview = {
+  bookmark: JJTypes.bookmark,
+  pr: pullRequest,
+}
+
+// AIDEV-NOTE: Mirrors StackInfoMode in submit.ts - where the stack list is rendered on each PR
+type stackInfoMode = [#comment | #body | #both]
+
+// AIDEV-NOTE: Mirrors SubmissionOptions in submit.ts
+type submissionOptions = {
+  stackInfoMode: stackInfoMode,
+  updatePRBodies: bool,
+  draft: bool,
+  markReady: bool,
+  reviewers: array<string>,
+  assignees: array<string>,
+  labels: array<string>,
+  prTemplate?: string,
+}
+
+type prMetadata = {
+  reviewers: array<string>,
+  assignees: array<string>,
+  labels: array<string>,
+}
+
 type submissionPlan = {
   targetBookmark: string,
   bookmarksToSubmit: array<JJTypes.bookmark>,
   bookmarksNeedingPush: array<JJTypes.bookmark>,
   bookmarksNeedingPR: array<bookmarkNeedingPR>,
   bookmarksNeedingPRBaseUpdate: array<bookmarkNeedingPRBaseUpdate>,
+  bookmarksNeedingPRTitleUpdate: array<bookmarkNeedingPRTitleUpdate>,
+  bookmarksNeedingPRBodyUpdate: array<bookmarkNeedingPRBodyUpdate>,
+  bookmarksNeedingReadyForReview: array<bookmarkNeedingReadyForReview>,
+  newPRMetadata: prMetadata,
   repoInfo: repoInfo,
   existingPRs: Map.t<string, option<pullRequest>>,
   remoteName: string,
+  defaultBranch: string,
+  stackInfoMode: stackInfoMode,
 }
 
 type submissionCallbacks = {
@@ -59,10 +108,19 @@ type submissionCallbacks = {
   onPlanReady: option<submissionPlan => unit>,
   onPushStarted: option<(JJTypes.bookmark, string) => unit>,
   onPushCompleted: option<(JJTypes.bookmark, string) => unit>,
-  onPRStarted: option<(JJTypes.bookmark, string, string) => unit>,
+  onPRStarted: option<(JJTypes.bookmark, string, string, bool) => unit>,
   onPRCompleted: option<(JJTypes.bookmark, pullRequest) => unit>,
   onPRBaseUpdateStarted: option<(JJTypes.bookmark, string, string) => unit>,
   onPRBaseUpdateCompleted: option<(JJTypes.bookmark, pullRequest) => unit>,
+  onPRTitleUpdateStarted: option<(JJTypes.bookmark, string, string) => unit>,
+  onPRTitleUpdateCompleted: option<(JJTypes.bookmark, pullRequest) => unit>,
+  onPRBodyUpdateStarted: option<JJTypes.bookmark => unit>,
+  onPRBodyUpdateCompleted: option<(JJTypes.bookmark, pullRequest) => unit>,
+  onPRReadyForReviewStarted: option<JJTypes.bookmark => unit>,
+  onPRReadyForReviewCompleted: option<(JJTypes.bookmark, pullRequest) => unit>,
+  onReviewersRequested: option<(JJTypes.bookmark, array<string>) => unit>,
+  onAssigneesAdded: option<(JJTypes.bookmark, array<string>) => unit>,
+  onLabelsAdded: option<(JJTypes.bookmark, array<string>) => unit>,
   onError: option<(Exn.t, string) => unit>,
 }
 
@@ -96,6 +154,7 @@ external createSubmissionPlan: (
   'githubConfig,
   array<JJTypes.narrowedBookmarkSegment>,
   string,
+  submissionOptions,
   option<'planCallbacks>,
 ) => promise<submissionPlan> = "createSubmissionPlan"
 
@@ -105,19 +164,93 @@ external createNarrowedSegments: (
   JJTypes.submissionAnalysis,
 ) => array<JJTypes.narrowedBookmarkSegment> = "createNarrowedSegments"
 
-@module("../lib/submit.js")
-external executeSubmissionPlan: (
+// AIDEV-NOTE: Mirrors SubmissionJournal in journal.ts - only the fields the CLI reads
+type journalStep = {kind: string, bookmark: string}
+
+type submitJournal = {
+  targetBookmark: string,
+  steps: array<journalStep>,
+}
+
+@module("../lib/journal.js")
+external readJournal: JJTypes.jjFunctions => promise<option<submitJournal>> = "readJournal"
+
+@module("../lib/journal.js")
+external verifyJournal: (submitJournal, submissionPlan) => array<string> = "verifyJournal"
+
+@module("../lib/journal.js")
+external describeJournalStep: journalStep => string = "describeJournalStep"
+
+@module("../lib/journal.js")
+external executeSubmissionPlanWithJournal: (
   JJTypes.jjFunctions,
   submissionPlan,
   'githubConfig,
   option<'executionCallbacks>,
-) => promise<submissionResult> = "executeSubmissionPlan"
+  option<submitJournal>,
+) => promise<submissionResult> = "executeSubmissionPlanWithJournal"
+
+@module("../lib/jsonOutput.js")
+external submissionToJson: (submissionPlan, option<submissionResult>) => JsonOutput.t =
+  "submissionToJson"
 
 @module("../lib/submit.js")
-external getGitHubConfig: (JJTypes.jjFunctions, string) => promise<'githubConfig> =
+external getGitHubConfig: (JJTypes.jjFunctions, string, string) => promise<'githubConfig> =
   "getGitHubConfig"
 
-type submitOptions = {dryRun?: bool, remote?: string}
+type submitOptions = {
+  dryRun?: bool,
+  remote?: string,
+  pushRemote?: string,
+  stackInfoMode?: stackInfoMode,
+  updatePRBodies?: bool,
+  draft?: bool,
+  markReady?: bool,
+  reviewers?: array<string>,
+  assignees?: array<string>,
+  labels?: array<string>,
+  prTemplate?: string,
+  resume?: submitJournal, // Journal of the interrupted submission to continue
+  json?: bool,
+  nonInteractive?: bool,
+  preferBookmarks?: array<string>, // Globs for choosing between bookmarks without asking
+  splitChanges?: bool,
+  splitBookmarkTemplate?: string,
+}
+
+// AIDEV-NOTE: How to choose between several bookmarks on the same change
+type bookmarkSelection =
+  | Interactive
+  | NonInteractive(array<string>) // --prefer-bookmark globs
+
+// AIDEV-NOTE: Whether unbookmarked changes get their own bookmarks, and so their own PRs
+type changeSplitting =
+  | NoSplit
+  | Split(option<string>) // Bookmark name template, or the default
+
+type splitResult = {
+  analysis: JJTypes.submissionAnalysis,
+  newBookmarks: array<JJTypes.bookmark>,
+}
+
+@module("../lib/splitChanges.js")
+external splitChanges: (JJTypes.submissionAnalysis, option<string>, array<string>) => splitResult =
+  "splitChanges"
+
+@module("../lib/bookmarkSelection.js")
+external selectBookmarksNonInteractively: (
+  array<JJTypes.bookmarkSegment>,
+  string,
+  array<string>,
+) => array<JJTypes.bookmark> = "selectBookmarksNonInteractively"
+
+let stackInfoModeToString = (mode: stackInfoMode): string => {
+  switch mode {
+  | #comment => "PR comment"
+  | #body => "PR description"
+  | #both => "PR comment and PR description"
+  }
+}
 
 /**
  * Format bookmark status for display
@@ -128,50 +261,98 @@ let formatBookmarkStatus = (
 ): string => {
   let hasExistingPR = Map.get(existingPRs, bookmark.name)
 
-  `📋 ${bookmark.name}: ${bookmark.hasRemote
-      ? "has remote"
-      : "needs push"}, ${hasExistingPR->Option.isSome ? "has PR" : "needs PR"}`
+  switch bookmark.isForeign {
+  | Some(true) => `📋 ${bookmark.name}: someone else's, stacking on their PR`
+  | _ =>
+    `📋 ${bookmark.name}: ${bookmark.hasRemote
+        ? "has remote"
+        : "needs push"}, ${hasExistingPR->Option.isSome ? "has PR" : "needs PR"}`
+  }
 }
 
 /**
  * Create execution callbacks for console output during plan execution
  */
-let createExecutionCallbacks = (): 'executionCallbacks => {
+let createExecutionCallbacks = (~log: string => unit): 'executionCallbacks => {
   {
     "onPushStarted": Some(
       (bookmark: JJTypes.bookmark, remote: string) => {
-        Console.log(`Pushing ${bookmark.name} to ${remote}...`)
+        log(`Pushing ${bookmark.name} to ${remote}...`)
       },
     ),
     "onPushCompleted": Some(
       (bookmark: JJTypes.bookmark, remote: string) => {
-        Console.log(`✅ Successfully pushed ${bookmark.name} to ${remote}`)
+        log(`✅ Successfully pushed ${bookmark.name} to ${remote}`)
       },
     ),
     "onPRStarted": Some(
-      (bookmark: JJTypes.bookmark, title: string, base: string) => {
-        Console.log(`Creating PR: ${bookmark.name} -> ${base}`)
-        Console.log(`   Title: "${title}"`)
+      (bookmark: JJTypes.bookmark, title: string, base: string, draft: bool) => {
+        log(`Creating ${draft ? "draft " : ""}PR: ${bookmark.name} -> ${base}`)
+        log(`   Title: "${title}"`)
       },
     ),
     "onPRCompleted": Some(
       (bookmark: JJTypes.bookmark, pr: pullRequest) => {
-        Console.log(`✅ Created PR for ${bookmark.name}: ${pr.html_url}`)
-        Console.log(`   Title: ${pr.title}`)
-        Console.log(`   Base: ${pr.base.ref} <- Head: ${pr.head.ref}`)
+        log(`✅ Created PR for ${bookmark.name}: ${pr.html_url}`)
+        log(`   Title: ${pr.title}`)
+        log(`   Base: ${pr.base.ref} <- Head: ${pr.head.ref}`)
       },
     ),
     "onPRBaseUpdateStarted": Some(
       (bookmark: JJTypes.bookmark, currentBase: string, expectedBase: string) => {
-        Console.log(
-          `Updating PR base for ${bookmark.name} from ${currentBase} to ${expectedBase}...`,
-        )
+        log(`Updating PR base for ${bookmark.name} from ${currentBase} to ${expectedBase}...`)
       },
     ),
     "onPRBaseUpdateCompleted": Some(
       (bookmark: JJTypes.bookmark, pr: pullRequest) => {
-        Console.log(`✅ Updated PR base for ${bookmark.name}: ${pr.html_url}`)
-        Console.log(`   New Base: ${pr.base.ref} <- Head: ${pr.head.ref}`)
+        log(`✅ Updated PR base for ${bookmark.name}: ${pr.html_url}`)
+        log(`   New Base: ${pr.base.ref} <- Head: ${pr.head.ref}`)
+      },
+    ),
+    "onPRTitleUpdateStarted": Some(
+      (bookmark: JJTypes.bookmark, currentTitle: string, newTitle: string) => {
+        log(`Updating PR title for ${bookmark.name}...`)
+        log(`   "${currentTitle}" → "${newTitle}"`)
+      },
+    ),
+    "onPRTitleUpdateCompleted": Some(
+      (bookmark: JJTypes.bookmark, pr: pullRequest) => {
+        log(`✅ Updated PR title for ${bookmark.name}: ${pr.html_url}`)
+      },
+    ),
+    "onPRBodyUpdateStarted": Some(
+      (bookmark: JJTypes.bookmark) => {
+        log(`Updating PR description for ${bookmark.name}...`)
+      },
+    ),
+    "onPRBodyUpdateCompleted": Some(
+      (bookmark: JJTypes.bookmark, pr: pullRequest) => {
+        log(`✅ Updated PR description for ${bookmark.name}: ${pr.html_url}`)
+      },
+    ),
+    "onPRReadyForReviewStarted": Some(
+      (bookmark: JJTypes.bookmark) => {
+        log(`Marking PR for ${bookmark.name} ready for review...`)
+      },
+    ),
+    "onPRReadyForReviewCompleted": Some(
+      (bookmark: JJTypes.bookmark, pr: pullRequest) => {
+        log(`✅ PR for ${bookmark.name} is ready for review: ${pr.html_url}`)
+      },
+    ),
+    "onReviewersRequested": Some(
+      (bookmark: JJTypes.bookmark, reviewers: array<string>) => {
+        log(`   Requested review on ${bookmark.name} from: ${reviewers->Array.join(", ")}`)
+      },
+    ),
+    "onAssigneesAdded": Some(
+      (bookmark: JJTypes.bookmark, assignees: array<string>) => {
+        log(`   Assigned ${bookmark.name} to: ${assignees->Array.join(", ")}`)
+      },
+    ),
+    "onLabelsAdded": Some(
+      (bookmark: JJTypes.bookmark, labels: array<string>) => {
+        log(`   Labeled ${bookmark.name} with: ${labels->Array.join(", ")}`)
       },
     ),
     "onError": Some(
@@ -189,62 +370,125 @@ let runSubmit = async (
   changeGraph: JJTypes.changeGraph,
   dryRun: bool,
   remote: string,
+  pushRemote: string,
+  submissionOptions: submissionOptions,
+  resumeJournal: option<submitJournal>,
+  selection: bookmarkSelection,
+  json: bool,
+  splitting: changeSplitting,
 ) => {
+  let log = Utils.progressLog(~json)
   // PHASE 1: Analyze the submission graph
-  Console.log(`🔍 Analyzing submission requirements for: ${bookmarkName}`)
+  log(`🔍 Analyzing submission requirements for: ${bookmarkName}`)
   let analysis = analyzeSubmissionGraph(changeGraph, bookmarkName)
 
-  Console.log(
-    `✅ Found stack with ${analysis.relevantSegments->Array.length->Int.toString} segment(s)`,
-  )
+  log(`✅ Found stack with ${analysis.relevantSegments->Array.length->Int.toString} segment(s)`)
+
+  // The new bookmarks are only created right before the plan is executed
+  let {analysis, newBookmarks} = switch splitting {
+  | NoSplit => {analysis, newBookmarks: []}
+  | Split(template) => splitChanges(analysis, template, await jjFunctions.getBookmarkNames())
+  }
+  if newBookmarks->Array.length > 0 {
+    log(
+      `✂️  Splitting the stack into ${analysis.relevantSegments
+        ->Array.length
+        ->Int.toString} segment(s), one per change`,
+    )
+  }
 
   // PHASE 2: Resolve bookmark selections (CLI handles user interaction)
-  let resolvedBookmarks = await Utils.resolveBookmarkSelections(analysis)
+  let resolvedBookmarks = switch selection {
+  | Interactive => await Utils.resolveBookmarkSelections(analysis)
+  | NonInteractive(preferBookmarks) =>
+    selectBookmarksNonInteractively(analysis.relevantSegments, bookmarkName, preferBookmarks)
+  }
 
-  Console.log(`🔑 Getting GitHub authentication...`)
-  let githubConfig = await getGitHubConfig(jjFunctions, remote)
+  log(`🔑 Getting GitHub authentication...`)
+  let githubConfig = await getGitHubConfig(jjFunctions, remote, pushRemote)
 
-  Console.log(`📋 Creating submission plan...`)
+  log(`📋 Creating submission plan...`)
   let narrowedSegments = createNarrowedSegments(resolvedBookmarks, analysis)
-  let plan = await createSubmissionPlan(jjFunctions, githubConfig, narrowedSegments, remote, None)
+  let plan = await createSubmissionPlan(
+    jjFunctions,
+    githubConfig,
+    narrowedSegments,
+    pushRemote,
+    submissionOptions,
+    None,
+  )
 
   // Display plan summary
-  Console.log(`📍 GitHub repository: ${plan.repoInfo.owner}/${plan.repoInfo.repo}`)
+  log(`📍 GitHub repository: ${plan.repoInfo.owner}/${plan.repoInfo.repo}`)
   resolvedBookmarks->Array.forEach(bookmark => {
-    Console.log(formatBookmarkStatus(bookmark, plan.existingPRs))
+    log(formatBookmarkStatus(bookmark, plan.existingPRs))
   })
 
+  switch resumeJournal {
+  | Some(journal) =>
+    let problems = verifyJournal(journal, plan)
+    if problems->Array.length > 0 {
+      Console.error(
+        "\n❌ Can't resume, the stack has changed since the submission was interrupted:",
+      )
+      problems->Array.forEach(problem => Console.error(`   • ${problem}`))
+      Console.error(`Run \`jj-stack submit ${bookmarkName}\` to submit it from scratch.`)
+      exit(1)
+    } else {
+      log("\n⏯️  Resuming interrupted submission. Already done:")
+      journal.steps->Array.forEach(step => log(`   ✓ ${describeJournalStep(step)}`))
+    }
+  | None => ()
+  }
+
   // If this is a dry run, we're done after showing the plan
   if dryRun {
-    Console.log("\n🧪 DRY RUN - Simulating all operations:")
-    Console.log("="->String.repeat(50))
+    log("\n🧪 DRY RUN - Simulating all operations:")
+    log("="->String.repeat(50))
+
+    if newBookmarks->Array.length > 0 {
+      log(`🔖 Would create: ${newBookmarks->Array.length->Int.toString} bookmark(s)`)
+      newBookmarks->Array.forEach(bookmark => {
+        log(`   • ${bookmark.name} at ${bookmark.changeId}`)
+      })
+    }
 
     if plan.bookmarksNeedingPush->Array.length > 0 {
-      Console.log(
-        `📤 Would push: ${plan.bookmarksNeedingPush->Array.length->Int.toString} bookmark(s)`,
-      )
+      log(`📤 Would push: ${plan.bookmarksNeedingPush->Array.length->Int.toString} bookmark(s)`)
       plan.bookmarksNeedingPush->Array.forEach(bookmark => {
-        Console.log(`   • ${bookmark.name}`)
+        log(`   • ${bookmark.name}`)
       })
     }
 
     if plan.bookmarksNeedingPR->Array.length > 0 {
-      Console.log(`📝 Would create: ${plan.bookmarksNeedingPR->Array.length->Int.toString} PR(s)`)
+      log(`📝 Would create: ${plan.bookmarksNeedingPR->Array.length->Int.toString} PR(s)`)
+      let {reviewers, assignees, labels} = plan.newPRMetadata
+      if reviewers->Array.length > 0 {
+        log(`   Reviewers: ${reviewers->Array.join(", ")}`)
+      }
+      if assignees->Array.length > 0 {
+        log(`   Assignees: ${assignees->Array.join(", ")}`)
+      }
+      if labels->Array.length > 0 {
+        log(`   Labels: ${labels->Array.join(", ")}`)
+      }
       plan.bookmarksNeedingPR->Array.forEach(item => {
-        Console.log(
-          `   • ${item.bookmark.name} (base: ${item.baseBranchOptions->Array.join(" or ")})`,
+        log(
+          `   • ${item.bookmark.name} (base: ${item.baseBranchOptions->Array.join(
+              " or ",
+            )})${item.draft ? " [draft]" : ""}`,
         )
       })
     }
 
     if plan.bookmarksNeedingPRBaseUpdate->Array.length > 0 {
-      Console.log(
+      log(
         `🔄 Would update: ${plan.bookmarksNeedingPRBaseUpdate
           ->Array.length
           ->Int.toString} PR base(s)`,
       )
       plan.bookmarksNeedingPRBaseUpdate->Array.forEach(item => {
-        Console.log(
+        log(
           `   • ${item.bookmark.name}: ${item.currentBaseBranch} → ${item.expectedBaseBranchOptions->Array.join(
               " or ",
             )}`,
@@ -252,35 +496,83 @@ let runSubmit = async (
       })
     }
 
-    Console.log("="->String.repeat(50))
-    Console.log(`✅ Dry run completed successfully!`)
+    if plan.bookmarksNeedingPRTitleUpdate->Array.length > 0 {
+      log(
+        `✏️  Would update: ${plan.bookmarksNeedingPRTitleUpdate
+          ->Array.length
+          ->Int.toString} PR title(s)`,
+      )
+      plan.bookmarksNeedingPRTitleUpdate->Array.forEach(item => {
+        log(`   • ${item.bookmark.name}: "${item.currentTitle}" → "${item.newTitle}"`)
+      })
+    }
+
+    if plan.bookmarksNeedingPRBodyUpdate->Array.length > 0 {
+      log(
+        `📄 Would update: ${plan.bookmarksNeedingPRBodyUpdate
+          ->Array.length
+          ->Int.toString} PR description(s)`,
+      )
+      plan.bookmarksNeedingPRBodyUpdate->Array.forEach(item => {
+        log(`   • ${item.bookmark.name}`)
+      })
+    }
+
+    if plan.bookmarksNeedingReadyForReview->Array.length > 0 {
+      log(
+        `👀 Would mark ready for review: ${plan.bookmarksNeedingReadyForReview
+          ->Array.length
+          ->Int.toString} draft PR(s)`,
+      )
+      plan.bookmarksNeedingReadyForReview->Array.forEach(item => {
+        log(`   • ${item.bookmark.name}`)
+      })
+    }
+
+    log(`💬 Would update stack info in: ${stackInfoModeToString(plan.stackInfoMode)}`)
+
+    log("="->String.repeat(50))
+    log(`✅ Dry run completed successfully!`)
+
+    if json {
+      JsonOutput.printJson(submissionToJson(plan, None))
+    }
   } else {
     // PHASE 3: Execute the plan
-    let executionCallbacks = createExecutionCallbacks()
-    let result = await executeSubmissionPlan(
+    for i in 0 to newBookmarks->Array.length - 1 {
+      let bookmark = newBookmarks->Array.getUnsafe(i)
+      await jjFunctions.createBookmark(bookmark.name, bookmark.commitId)
+      log(`🔖 Created bookmark ${bookmark.name} at ${bookmark.changeId}`)
+    }
+
+    let executionCallbacks = createExecutionCallbacks(~log)
+    let result = await executeSubmissionPlanWithJournal(
       jjFunctions,
       plan,
       githubConfig,
       Some(executionCallbacks),
+      resumeJournal,
     )
 
+    if json {
+      JsonOutput.printJson(submissionToJson(plan, Some(result)))
+    }
+
     if result.success {
-      Console.log(`\n🎉 Successfully submitted stack up to ${bookmarkName}!`)
+      log(`\n🎉 Successfully submitted stack up to ${bookmarkName}!`)
 
       if result.pushedBookmarks->Array.length > 0 {
-        Console.log(
-          `   📤 Pushed: ${result.pushedBookmarks->Array.map(b => b.name)->Array.join(", ")}`,
-        )
+        log(`   📤 Pushed: ${result.pushedBookmarks->Array.map(b => b.name)->Array.join(", ")}`)
       }
 
       if result.createdPRs->Array.length > 0 {
         let createdPrBookmarks = result.createdPRs->Array.map(pr => pr.bookmark.name)
-        Console.log(`   📝 Created PRs: ${createdPrBookmarks->Array.join(", ")}`)
+        log(`   📝 Created PRs: ${createdPrBookmarks->Array.join(", ")}`)
       }
 
       if result.updatedPRs->Array.length > 0 {
         let updatedPrBookmarks = result.updatedPRs->Array.map(pr => pr.bookmark.name)
-        Console.log(`   🔄 Updated PRs: ${updatedPrBookmarks->Array.join(", ")}`)
+        log(`   🔄 Updated PRs: ${updatedPrBookmarks->Array.join(", ")}`)
       }
 
       if result.errors->Array.length > 0 {
@@ -292,6 +584,9 @@ let runSubmit = async (
       }
     } else {
       // Error should have been printed already by onError callback
+      Console.error(
+        "💾 Progress was saved. Run `jj-stack submit --resume` to continue from here.",
+      )
       exit(1)
     }
   }
@@ -317,13 +612,69 @@ let submitCommand = async (
     }
   | None => Js.Exn.raiseError("Options with remote are required")
   }
+  let pushRemote = switch options {
+  | Some({?pushRemote}) => pushRemote->Option.getOr(remote)
+  | None => remote
+  }
+  let submissionOptions: submissionOptions = {
+    stackInfoMode: switch options {
+    | Some({?stackInfoMode}) => stackInfoMode->Option.getOr(#comment)
+    | None => #comment
+    },
+    updatePRBodies: switch options {
+    | Some({?updatePRBodies}) => updatePRBodies->Option.getOr(false)
+    | None => false
+    },
+    draft: switch options {
+    | Some({?draft}) => draft->Option.getOr(false)
+    | None => false
+    },
+    markReady: switch options {
+    | Some({?markReady}) => markReady->Option.getOr(false)
+    | None => false
+    },
+    reviewers: switch options {
+    | Some({?reviewers}) => reviewers->Option.getOr([])
+    | None => []
+    },
+    assignees: switch options {
+    | Some({?assignees}) => assignees->Option.getOr([])
+    | None => []
+    },
+    labels: switch options {
+    | Some({?labels}) => labels->Option.getOr([])
+    | None => []
+    },
+    prTemplate: ?switch options {
+    | Some({?prTemplate}) => prTemplate
+    | None => None
+    },
+  }
+  let resumeJournal = switch options {
+  | Some({?resume}) => resume
+  | None => None
+  }
+  let json = switch options {
+  | Some({?json}) => json->Option.getOr(false)
+  | None => false
+  }
+  let selection = switch options {
+  | Some({nonInteractive: true, ?preferBookmarks}) =>
+    NonInteractive(preferBookmarks->Option.getOr([]))
+  | _ => Interactive
+  }
+  let splitting = switch options {
+  | Some({splitChanges: true, ?splitBookmarkTemplate}) => Split(splitBookmarkTemplate)
+  | _ => NoSplit
+  }
+  let log = Utils.progressLog(~json)
 
   if dryRun {
-    Console.log(`🧪 DRY RUN: Simulating submission of bookmark: ${bookmarkName}`)
+    log(`🧪 DRY RUN: Simulating submission of bookmark: ${bookmarkName}`)
   } else {
-    Console.log(`🚀 Submitting bookmark: ${bookmarkName}`)
+    log(`🚀 Submitting bookmark: ${bookmarkName}`)
 
-    Console.log("Fetching from remote...")
+    log("Fetching from remote...")
     try {
       await jjFunctions.gitFetch()
     } catch {
@@ -334,17 +685,22 @@ let submitCommand = async (
     }
   }
 
-  Console.log("Building change graph from user bookmarks...")
+  log("Building change graph from user bookmarks...")
   let changeGraph = await buildChangeGraph(jjFunctions)
 
-  // AIDEV-NOTE: Show user message if any bookmarks were excluded due to merge commits
-  if changeGraph.excludedBookmarkCount > 0 {
-    Console.log(
-      `ℹ️  Found ${changeGraph.excludedBookmarkCount->Int.toString} bookmarks on merge commits or their descendants, ignoring.
-   jj-stack works with linear stacking workflows. Consider using 'jj rebase' to linearize your history before creating stacked pull requests.`,
-    )
-    Console.log() // add space after the message
-  }
-
-  await runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote)
+  Utils.printExcludedBookmarks(changeGraph, ~log)
+
+  await runSubmit(
+    jjFunctions,
+    bookmarkName,
+    changeGraph,
+    dryRun,
+    remote,
+    pushRemote,
+    submissionOptions,
+    resumeJournal,
+    selection,
+    json,
+    splitting,
+  )
 }
@@ -3,38 +3,81 @@
 import * as Utils from "./Utils.res.mjs";
 import * as Js_exn from "rescript/lib/es6/js_exn.js";
 import * as Process from "process";
+import * as JsonOutput from "./JsonOutput.res.mjs";
 import * as Caml_option from "rescript/lib/es6/caml_option.js";
 import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
 import * as SubmitJs from "../lib/submit.js";
-import * as JjUtilsJs from "../lib/jjUtils.js";
+import * as JournalJs from "../lib/journal.js";
 import * as Caml_js_exceptions from "rescript/lib/es6/caml_js_exceptions.js";
+import * as GraphCacheJs from "../lib/graphCache.js";
+import * as JsonOutputJs from "../lib/jsonOutput.js";
+import * as SplitChangesJs from "../lib/splitChanges.js";
+import * as BookmarkSelectionJs from "../lib/bookmarkSelection.js";
 
 function buildChangeGraph(prim) {
-  return JjUtilsJs.buildChangeGraph(prim);
+  return GraphCacheJs.buildCachedChangeGraph(prim);
 }
 
 function analyzeSubmissionGraph(prim0, prim1) {
   return SubmitJs.analyzeSubmissionGraph(prim0, prim1);
 }
 
-function createSubmissionPlan(prim0, prim1, prim2, prim3, prim4) {
-  return SubmitJs.createSubmissionPlan(prim0, prim1, prim2, prim3, prim4);
+function createSubmissionPlan(prim0, prim1, prim2, prim3, prim4, prim5) {
+  return SubmitJs.createSubmissionPlan(prim0, prim1, prim2, prim3, prim4, prim5);
 }
 
 function createNarrowedSegments(prim0, prim1) {
   return SubmitJs.createNarrowedSegments(prim0, prim1);
 }
 
-function executeSubmissionPlan(prim0, prim1, prim2, prim3) {
-  return SubmitJs.executeSubmissionPlan(prim0, prim1, prim2, prim3);
+function readJournal(prim) {
+  return JournalJs.readJournal(prim);
 }
 
-function getGitHubConfig(prim0, prim1) {
-  return SubmitJs.getGitHubConfig(prim0, prim1);
+function verifyJournal(prim0, prim1) {
+  return JournalJs.verifyJournal(prim0, prim1);
+}
+
+function describeJournalStep(prim) {
+  return JournalJs.describeJournalStep(prim);
+}
+
+function executeSubmissionPlanWithJournal(prim0, prim1, prim2, prim3, prim4) {
+  return JournalJs.executeSubmissionPlanWithJournal(prim0, prim1, prim2, prim3, prim4);
+}
+
+function submissionToJson(prim0, prim1) {
+  return JsonOutputJs.submissionToJson(prim0, prim1);
+}
+
+function getGitHubConfig(prim0, prim1, prim2) {
+  return SubmitJs.getGitHubConfig(prim0, prim1, prim2);
+}
+
+function splitChanges(prim0, prim1, prim2) {
+  return SplitChangesJs.splitChanges(prim0, prim1, prim2);
+}
+
+function selectBookmarksNonInteractively(prim0, prim1, prim2) {
+  return BookmarkSelectionJs.selectBookmarksNonInteractively(prim0, prim1, prim2);
+}
+
+function stackInfoModeToString(mode) {
+  if (mode === "both") {
+    return "PR comment and PR description";
+  } else if (mode === "comment") {
+    return "PR comment";
+  } else {
+    return "PR description";
+  }
 }
 
 function formatBookmarkStatus(bookmark, existingPRs) {
   var hasExistingPR = existingPRs.get(bookmark.name);
+  var match = bookmark.isForeign;
+  if (match !== undefined && match) {
+    return "📋 " + bookmark.name + ": someone else's, stacking on their PR";
+  }
   return "📋 " + bookmark.name + ": " + (
           bookmark.hasRemote ? "has remote" : "needs push"
         ) + ", " + (
@@ -42,29 +85,59 @@ function formatBookmarkStatus(bookmark, existingPRs) {
         );
 }
 
-function createExecutionCallbacks() {
+function createExecutionCallbacks(log) {
   return {
           onPushStarted: (function (bookmark, remote) {
-              console.log("Pushing " + bookmark.name + " to " + remote + "...");
+              log("Pushing " + bookmark.name + " to " + remote + "...");
             }),
           onPushCompleted: (function (bookmark, remote) {
-              console.log("✅ Successfully pushed " + bookmark.name + " to " + remote);
+              log("✅ Successfully pushed " + bookmark.name + " to " + remote);
             }),
-          onPRStarted: (function (bookmark, title, base) {
-              console.log("Creating PR: " + bookmark.name + " -> " + base);
-              console.log("   Title: \"" + title + "\"");
+          onPRStarted: (function (bookmark, title, base, draft) {
+              log("Creating " + (
+                    draft ? "draft " : ""
+                  ) + "PR: " + bookmark.name + " -> " + base);
+              log("   Title: \"" + title + "\"");
             }),
           onPRCompleted: (function (bookmark, pr) {
-              console.log("✅ Created PR for " + bookmark.name + ": " + pr.html_url);
-              console.log("   Title: " + pr.title);
-              console.log("   Base: " + pr.base.ref + " <- Head: " + pr.head.ref);
+              log("✅ Created PR for " + bookmark.name + ": " + pr.html_url);
+              log("   Title: " + pr.title);
+              log("   Base: " + pr.base.ref + " <- Head: " + pr.head.ref);
             }),
           onPRBaseUpdateStarted: (function (bookmark, currentBase, expectedBase) {
-              console.log("Updating PR base for " + bookmark.name + " from " + currentBase + " to " + expectedBase + "...");
+              log("Updating PR base for " + bookmark.name + " from " + currentBase + " to " + expectedBase + "...");
             }),
           onPRBaseUpdateCompleted: (function (bookmark, pr) {
-              console.log("✅ Updated PR base for " + bookmark.name + ": " + pr.html_url);
-              console.log("   New Base: " + pr.base.ref + " <- Head: " + pr.head.ref);
+              log("✅ Updated PR base for " + bookmark.name + ": " + pr.html_url);
+              log("   New Base: " + pr.base.ref + " <- Head: " + pr.head.ref);
+            }),
+          onPRTitleUpdateStarted: (function (bookmark, currentTitle, newTitle) {
+              log("Updating PR title for " + bookmark.name + "...");
+              log("   \"" + currentTitle + "\" → \"" + newTitle + "\"");
+            }),
+          onPRTitleUpdateCompleted: (function (bookmark, pr) {
+              log("✅ Updated PR title for " + bookmark.name + ": " + pr.html_url);
+            }),
+          onPRBodyUpdateStarted: (function (bookmark) {
+              log("Updating PR description for " + bookmark.name + "...");
+            }),
+          onPRBodyUpdateCompleted: (function (bookmark, pr) {
+              log("✅ Updated PR description for " + bookmark.name + ": " + pr.html_url);
+            }),
+          onPRReadyForReviewStarted: (function (bookmark) {
+              log("Marking PR for " + bookmark.name + " ready for review...");
+            }),
+          onPRReadyForReviewCompleted: (function (bookmark, pr) {
+              log("✅ PR for " + bookmark.name + " is ready for review: " + pr.html_url);
+            }),
+          onReviewersRequested: (function (bookmark, reviewers) {
+              log("   Requested review on " + bookmark.name + " from: " + reviewers.join(", "));
+            }),
+          onAssigneesAdded: (function (bookmark, assignees) {
+              log("   Assigned " + bookmark.name + " to: " + assignees.join(", "));
+            }),
+          onLabelsAdded: (function (bookmark, labels) {
+              log("   Labeled " + bookmark.name + " with: " + labels.join(", "));
             }),
           onError: (function (error, context) {
               var errorMessage = Core__Option.getOr(error.message, "Unknown error");
@@ -73,51 +146,131 @@ function createExecutionCallbacks() {
         };
 }
 
-async function runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote) {
-  console.log("🔍 Analyzing submission requirements for: " + bookmarkName);
+async function runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote, pushRemote, submissionOptions, resumeJournal, selection, json, splitting) {
+  var log = Utils.progressLog(json);
+  log("🔍 Analyzing submission requirements for: " + bookmarkName);
   var analysis = SubmitJs.analyzeSubmissionGraph(changeGraph, bookmarkName);
-  console.log("✅ Found stack with " + analysis.relevantSegments.length.toString() + " segment(s)");
-  var resolvedBookmarks = await Utils.resolveBookmarkSelections(analysis);
-  console.log("🔑 Getting GitHub authentication...");
-  var githubConfig = await SubmitJs.getGitHubConfig(jjFunctions, remote);
-  console.log("📋 Creating submission plan...");
-  var narrowedSegments = SubmitJs.createNarrowedSegments(resolvedBookmarks, analysis);
-  var plan = await createSubmissionPlan(jjFunctions, githubConfig, narrowedSegments, remote, undefined);
-  console.log("📍 GitHub repository: " + plan.repoInfo.owner + "/" + plan.repoInfo.repo);
+  log("✅ Found stack with " + analysis.relevantSegments.length.toString() + " segment(s)");
+  var match;
+  match = typeof splitting !== "object" ? ({
+        analysis: analysis,
+        newBookmarks: []
+      }) : SplitChangesJs.splitChanges(analysis, splitting._0, await jjFunctions.getBookmarkNames());
+  var newBookmarks = match.newBookmarks;
+  var analysis$1 = match.analysis;
+  if (newBookmarks.length > 0) {
+    log("✂️  Splitting the stack into " + analysis$1.relevantSegments.length.toString() + " segment(s), one per change");
+  }
+  var resolvedBookmarks;
+  resolvedBookmarks = typeof selection !== "object" ? await Utils.resolveBookmarkSelections(analysis$1) : BookmarkSelectionJs.selectBookmarksNonInteractively(analysis$1.relevantSegments, bookmarkName, selection._0);
+  log("🔑 Getting GitHub authentication...");
+  var githubConfig = await SubmitJs.getGitHubConfig(jjFunctions, remote, pushRemote);
+  log("📋 Creating submission plan...");
+  var narrowedSegments = SubmitJs.createNarrowedSegments(resolvedBookmarks, analysis$1);
+  var plan = await createSubmissionPlan(jjFunctions, githubConfig, narrowedSegments, pushRemote, submissionOptions, undefined);
+  log("📍 GitHub repository: " + plan.repoInfo.owner + "/" + plan.repoInfo.repo);
   resolvedBookmarks.forEach(function (bookmark) {
-        console.log(formatBookmarkStatus(bookmark, plan.existingPRs));
+        log(formatBookmarkStatus(bookmark, plan.existingPRs));
       });
+  if (resumeJournal !== undefined) {
+    var problems = JournalJs.verifyJournal(resumeJournal, plan);
+    if (problems.length > 0) {
+      console.error("\n❌ Can't resume, the stack has changed since the submission was interrupted:");
+      problems.forEach(function (problem) {
+            console.error("   • " + problem);
+          });
+      console.error("Run \`jj-stack submit " + bookmarkName + "\` to submit it from scratch.");
+      Process.exit(1);
+    } else {
+      log("\n⏯️  Resuming interrupted submission. Already done:");
+      resumeJournal.steps.forEach(function (step) {
+            log("   ✓ " + JournalJs.describeJournalStep(step));
+          });
+    }
+  }
   if (dryRun) {
-    console.log("\n🧪 DRY RUN - Simulating all operations:");
-    console.log("=".repeat(50));
+    log("\n🧪 DRY RUN - Simulating all operations:");
+    log("=".repeat(50));
+    if (newBookmarks.length > 0) {
+      log("🔖 Would create: " + newBookmarks.length.toString() + " bookmark(s)");
+      newBookmarks.forEach(function (bookmark) {
+            log("   • " + bookmark.name + " at " + bookmark.changeId);
+          });
+    }
     if (plan.bookmarksNeedingPush.length > 0) {
-      console.log("📤 Would push: " + plan.bookmarksNeedingPush.length.toString() + " bookmark(s)");
+      log("📤 Would push: " + plan.bookmarksNeedingPush.length.toString() + " bookmark(s)");
       plan.bookmarksNeedingPush.forEach(function (bookmark) {
-            console.log("   • " + bookmark.name);
+            log("   • " + bookmark.name);
           });
     }
     if (plan.bookmarksNeedingPR.length > 0) {
-      console.log("📝 Would create: " + plan.bookmarksNeedingPR.length.toString() + " PR(s)");
+      log("📝 Would create: " + plan.bookmarksNeedingPR.length.toString() + " PR(s)");
+      var match$1 = plan.newPRMetadata;
+      var labels = match$1.labels;
+      var assignees = match$1.assignees;
+      var reviewers = match$1.reviewers;
+      if (reviewers.length > 0) {
+        log("   Reviewers: " + reviewers.join(", "));
+      }
+      if (assignees.length > 0) {
+        log("   Assignees: " + assignees.join(", "));
+      }
+      if (labels.length > 0) {
+        log("   Labels: " + labels.join(", "));
+      }
       plan.bookmarksNeedingPR.forEach(function (item) {
-            console.log("   • " + item.bookmark.name + " (base: " + item.baseBranchOptions.join(" or ") + ")");
+            log("   • " + item.bookmark.name + " (base: " + item.baseBranchOptions.join(" or ") + ")" + (
+                  item.draft ? " [draft]" : ""
+                ));
           });
     }
     if (plan.bookmarksNeedingPRBaseUpdate.length > 0) {
-      console.log("🔄 Would update: " + plan.bookmarksNeedingPRBaseUpdate.length.toString() + " PR base(s)");
+      log("🔄 Would update: " + plan.bookmarksNeedingPRBaseUpdate.length.toString() + " PR base(s)");
       plan.bookmarksNeedingPRBaseUpdate.forEach(function (item) {
-            console.log("   • " + item.bookmark.name + ": " + item.currentBaseBranch + " → " + item.expectedBaseBranchOptions.join(" or "));
+            log("   • " + item.bookmark.name + ": " + item.currentBaseBranch + " → " + item.expectedBaseBranchOptions.join(" or "));
+          });
+    }
+    if (plan.bookmarksNeedingPRTitleUpdate.length > 0) {
+      log("✏️  Would update: " + plan.bookmarksNeedingPRTitleUpdate.length.toString() + " PR title(s)");
+      plan.bookmarksNeedingPRTitleUpdate.forEach(function (item) {
+            log("   • " + item.bookmark.name + ": \"" + item.currentTitle + "\" → \"" + item.newTitle + "\"");
           });
     }
-    console.log("=".repeat(50));
-    console.log("✅ Dry run completed successfully!");
-    return ;
+    if (plan.bookmarksNeedingPRBodyUpdate.length > 0) {
+      log("📄 Would update: " + plan.bookmarksNeedingPRBodyUpdate.length.toString() + " PR description(s)");
+      plan.bookmarksNeedingPRBodyUpdate.forEach(function (item) {
+            log("   • " + item.bookmark.name);
+          });
+    }
+    if (plan.bookmarksNeedingReadyForReview.length > 0) {
+      log("👀 Would mark ready for review: " + plan.bookmarksNeedingReadyForReview.length.toString() + " draft PR(s)");
+      plan.bookmarksNeedingReadyForReview.forEach(function (item) {
+            log("   • " + item.bookmark.name);
+          });
+    }
+    log("💬 Would update stack info in: " + stackInfoModeToString(plan.stackInfoMode));
+    log("=".repeat(50));
+    log("✅ Dry run completed successfully!");
+    if (json) {
+      return JsonOutput.printJson(JsonOutputJs.submissionToJson(plan, undefined));
+    } else {
+      return ;
+    }
+  }
+  for(var i = 0 ,i_finish = newBookmarks.length; i < i_finish; ++i){
+    var bookmark = newBookmarks[i];
+    await jjFunctions.createBookmark(bookmark.name, bookmark.commitId);
+    log("🔖 Created bookmark " + bookmark.name + " at " + bookmark.changeId);
+  }
+  var executionCallbacks = createExecutionCallbacks(log);
+  var result = await executeSubmissionPlanWithJournal(jjFunctions, plan, githubConfig, Caml_option.some(executionCallbacks), resumeJournal);
+  if (json) {
+    JsonOutput.printJson(JsonOutputJs.submissionToJson(plan, result));
   }
-  var executionCallbacks = createExecutionCallbacks();
-  var result = await executeSubmissionPlan(jjFunctions, plan, githubConfig, Caml_option.some(executionCallbacks));
   if (result.success) {
-    console.log("\n🎉 Successfully submitted stack up to " + bookmarkName + "!");
+    log("\n🎉 Successfully submitted stack up to " + bookmarkName + "!");
     if (result.pushedBookmarks.length > 0) {
-      console.log("   📤 Pushed: " + result.pushedBookmarks.map(function (b) {
+      log("   📤 Pushed: " + result.pushedBookmarks.map(function (b) {
                   return b.name;
                 }).join(", "));
     }
@@ -125,13 +278,13 @@ async function runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote)
       var createdPrBookmarks = result.createdPRs.map(function (pr) {
             return pr.bookmark.name;
           });
-      console.log("   📝 Created PRs: " + createdPrBookmarks.join(", "));
+      log("   📝 Created PRs: " + createdPrBookmarks.join(", "));
     }
     if (result.updatedPRs.length > 0) {
       var updatedPrBookmarks = result.updatedPRs.map(function (pr) {
             return pr.bookmark.name;
           });
-      console.log("   🔄 Updated PRs: " + updatedPrBookmarks.join(", "));
+      log("   🔄 Updated PRs: " + updatedPrBookmarks.join(", "));
     }
     if (result.errors.length > 0) {
       console.error("\n⚠️ Submission completed with errors:");
@@ -144,6 +297,7 @@ async function runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote)
       return ;
     }
   }
+  console.error("💾 Progress was saved. Run `jj-stack submit --resume` to continue from here.");
   Process.exit(1);
 }
 
@@ -156,11 +310,53 @@ async function submitCommand(jjFunctions, bookmarkName, options) {
   } else {
     remote = Js_exn.raiseError("Options with remote are required");
   }
+  var pushRemote = options !== undefined ? Core__Option.getOr(options.pushRemote, remote) : remote;
+  var submissionOptions_stackInfoMode = options !== undefined ? Core__Option.getOr(options.stackInfoMode, "comment") : "comment";
+  var submissionOptions_updatePRBodies = options !== undefined ? Core__Option.getOr(options.updatePRBodies, false) : false;
+  var submissionOptions_draft = options !== undefined ? Core__Option.getOr(options.draft, false) : false;
+  var submissionOptions_markReady = options !== undefined ? Core__Option.getOr(options.markReady, false) : false;
+  var submissionOptions_reviewers = options !== undefined ? Core__Option.getOr(options.reviewers, []) : [];
+  var submissionOptions_assignees = options !== undefined ? Core__Option.getOr(options.assignees, []) : [];
+  var submissionOptions_labels = options !== undefined ? Core__Option.getOr(options.labels, []) : [];
+  var submissionOptions_prTemplate = options !== undefined ? options.prTemplate : undefined;
+  var submissionOptions = {
+    stackInfoMode: submissionOptions_stackInfoMode,
+    updatePRBodies: submissionOptions_updatePRBodies,
+    draft: submissionOptions_draft,
+    markReady: submissionOptions_markReady,
+    reviewers: submissionOptions_reviewers,
+    assignees: submissionOptions_assignees,
+    labels: submissionOptions_labels,
+    prTemplate: submissionOptions_prTemplate
+  };
+  var resumeJournal = options !== undefined ? options.resume : undefined;
+  var json = options !== undefined ? Core__Option.getOr(options.json, false) : false;
+  var selection;
+  if (options !== undefined) {
+    var match = options.nonInteractive;
+    selection = match !== undefined && match ? ({
+          TAG: "NonInteractive",
+          _0: Core__Option.getOr(options.preferBookmarks, [])
+        }) : "Interactive";
+  } else {
+    selection = "Interactive";
+  }
+  var splitting;
+  if (options !== undefined) {
+    var match$1 = options.splitChanges;
+    splitting = match$1 !== undefined && match$1 ? ({
+          TAG: "Split",
+          _0: options.splitBookmarkTemplate
+        }) : "NoSplit";
+  } else {
+    splitting = "NoSplit";
+  }
+  var log = Utils.progressLog(json);
   if (dryRun) {
-    console.log("🧪 DRY RUN: Simulating submission of bookmark: " + bookmarkName);
+    log("🧪 DRY RUN: Simulating submission of bookmark: " + bookmarkName);
   } else {
-    console.log("🚀 Submitting bookmark: " + bookmarkName);
-    console.log("Fetching from remote...");
+    log("🚀 Submitting bookmark: " + bookmarkName);
+    log("Fetching from remote...");
     try {
       await jjFunctions.gitFetch();
     }
@@ -173,13 +369,10 @@ async function submitCommand(jjFunctions, bookmarkName, options) {
       }
     }
   }
-  console.log("Building change graph from user bookmarks...");
-  var changeGraph = await JjUtilsJs.buildChangeGraph(jjFunctions);
-  if (changeGraph.excludedBookmarkCount > 0) {
-    console.log("ℹ️  Found " + changeGraph.excludedBookmarkCount.toString() + " bookmarks on merge commits or their descendants, ignoring.\n   jj-stack works with linear stacking workflows. Consider using 'jj rebase' to linearize your history before creating stacked pull requests.");
-    console.log();
-  }
-  return await runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote);
+  log("Building change graph from user bookmarks...");
+  var changeGraph = await GraphCacheJs.buildCachedChangeGraph(jjFunctions);
+  Utils.printExcludedBookmarks(changeGraph, log);
+  return await runSubmit(jjFunctions, bookmarkName, changeGraph, dryRun, remote, pushRemote, submissionOptions, resumeJournal, selection, json, splitting);
 }
 
 export {
@@ -187,8 +380,15 @@ export {
   analyzeSubmissionGraph ,
   createSubmissionPlan ,
   createNarrowedSegments ,
-  executeSubmissionPlan ,
+  readJournal ,
+  verifyJournal ,
+  describeJournalStep ,
+  executeSubmissionPlanWithJournal ,
+  submissionToJson ,
   getGitHubConfig ,
+  splitChanges ,
+  selectBookmarksNonInteractively ,
+  stackInfoModeToString ,
   formatBookmarkStatus ,
   createExecutionCallbacks ,
   runSubmit ,
@@ -0,0 +1,156 @@
+// AIDEV-NOTE: Sync command - brings open PRs in line with the stack after PRs merge on GitHub
+// Fetches, finds merged/closed PRs via the stack metadata written by submit, retargets the
+// remaining PRs, and reports which local bookmarks can be deleted
+@module("process") external exit: int => unit = "exit"
+
+type finishedPR = {
+  bookmarkName: string,
+  prNumber: int,
+  prUrl: string,
+  state: [#merged | #closed],
+}
+
+type prNeedingRetarget = {
+  bookmarkName: string,
+  pr: SubmitCommand.pullRequest,
+  currentBaseBranch: string,
+  newBaseBranch: string,
+}
+
+type prWithoutStackInfo = {
+  bookmarkName: string,
+  pr: SubmitCommand.pullRequest,
+}
+
+type syncPlan = {
+  prsNeedingRetarget: array<prNeedingRetarget>,
+  finishedPRs: array<finishedPR>,
+  bookmarksSafeToDelete: array<JJTypes.bookmark>,
+  prsWithoutStackInfo: array<prWithoutStackInfo>,
+  repoInfo: SubmitCommand.repoInfo,
+  defaultBranch: string,
+}
+
+type retargetedPR = {
+  bookmarkName: string,
+  pr: SubmitCommand.pullRequest,
+}
+
+type syncResult = {
+  success: bool,
+  retargetedPRs: array<retargetedPR>,
+  errors: array<SubmitCommand.errorWithContext>,
+}
+
+@module("../lib/sync.js")
+external createSyncPlan: (
+  JJTypes.jjFunctions,
+  'githubConfig,
+  option<'syncCallbacks>,
+) => promise<syncPlan> = "createSyncPlan"
+
+@module("../lib/sync.js")
+external executeSyncPlan: (syncPlan, 'githubConfig, option<'syncCallbacks>) => promise<syncResult> =
+  "executeSyncPlan"
+
+/**
+ * Create sync callbacks for console output during plan creation and execution
+ */
+let createSyncCallbacks = (): 'syncCallbacks => {
+  {
+    "onCheckingPRs": Some(
+      (bookmarks: array<JJTypes.bookmark>) => {
+        Console.log(`🔍 Checking PRs for ${bookmarks->Array.length->Int.toString} bookmark(s)...`)
+      },
+    ),
+    "onRetargetStarted": Some(
+      (bookmarkName: string, currentBase: string, newBase: string) => {
+        Console.log(`Retargeting PR for ${bookmarkName} from ${currentBase} to ${newBase}...`)
+      },
+    ),
+    "onRetargetCompleted": Some(
+      (bookmarkName: string, pr: SubmitCommand.pullRequest) => {
+        Console.log(`✅ Retargeted PR for ${bookmarkName}: ${pr.html_url}`)
+      },
+    ),
+    "onError": Some(
+      (error: Exn.t, context: string) => {
+        let errorMessage = error->Exn.message->Option.getOr("Unknown error")
+        Console.error(`❌ Error (${context}): ${errorMessage}`)
+      },
+    ),
+  }
+}
+
+let syncCommand = async (
+  jjFunctions: JJTypes.jjFunctions,
+  ~remote: string,
+  ~pushRemote: string,
+  ~dryRun: bool,
+) => {
+  Console.log("Fetching from remote...")
+  try {
+    await jjFunctions.gitFetch()
+  } catch {
+  | Exn.Error(error) =>
+    Console.error(
+      "Error fetching from remote: " ++ error->Exn.message->Option.getOr("Unknown error"),
+    )
+  }
+
+  Console.log(`🔑 Getting GitHub authentication...`)
+  let githubConfig = await SubmitCommand.getGitHubConfig(jjFunctions, remote, pushRemote)
+
+  let callbacks = createSyncCallbacks()
+  let plan = await createSyncPlan(jjFunctions, githubConfig, Some(callbacks))
+
+  Console.log(`📍 GitHub repository: ${plan.repoInfo.owner}/${plan.repoInfo.repo}`)
+
+  if plan.finishedPRs->Array.length > 0 {
+    Console.log(`\n🏁 Merged or closed PRs in your stacks:`)
+    plan.finishedPRs->Array.forEach(item => {
+      let stateStr = switch item.state {
+      | #merged => "merged"
+      | #closed => "closed"
+      }
+      Console.log(`   • ${item.bookmarkName} (#${item.prNumber->Int.toString}, ${stateStr})`)
+    })
+  }
+
+  plan.prsWithoutStackInfo->Array.forEach(item => {
+    Console.log(
+      `ℹ️  ${item.bookmarkName} has no stack info on its PR, skipping. Run 'jst submit' to add it.`,
+    )
+  })
+
+  let succeeded = if plan.prsNeedingRetarget->Array.length == 0 {
+    Console.log(`\n✅ All open PRs already target the right base branch`)
+    true
+  } else if dryRun {
+    Console.log(
+      `\n🔄 Would retarget: ${plan.prsNeedingRetarget->Array.length->Int.toString} PR(s)`,
+    )
+    plan.prsNeedingRetarget->Array.forEach(item => {
+      Console.log(
+        `   • ${item.bookmarkName}: ${item.currentBaseBranch} → ${item.newBaseBranch}`,
+      )
+    })
+    true
+  } else {
+    Console.log()
+    let result = await executeSyncPlan(plan, githubConfig, Some(callbacks))
+    result.success
+  }
+
+  if plan.bookmarksSafeToDelete->Array.length > 0 {
+    let names = plan.bookmarksSafeToDelete->Array.map(b => b.name)->Array.join(" ")
+    Console.log(`\n🧹 These local bookmarks belong to merged or closed PRs and can be deleted:`)
+    Console.log(`   jj bookmark delete ${names}`)
+    Console.log(`   Or run 'jst cleanup' to delete them on the remote as well.`)
+  }
+
+  if !succeeded {
+    // Errors should have been printed already by the onError callback
+    exit(1)
+  }
+}
@@ -0,0 +1,92 @@
+// Generated by ReScript, PLEASE EDIT WITH CARE
+
+import * as Js_exn from "rescript/lib/es6/js_exn.js";
+import * as Process from "process";
+import * as Caml_option from "rescript/lib/es6/caml_option.js";
+import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
+import * as SubmitCommand from "./SubmitCommand.res.mjs";
+import * as SyncJs from "../lib/sync.js";
+import * as Caml_js_exceptions from "rescript/lib/es6/caml_js_exceptions.js";
+
+function createSyncPlan(prim0, prim1, prim2) {
+  return SyncJs.createSyncPlan(prim0, prim1, prim2);
+}
+
+function executeSyncPlan(prim0, prim1, prim2) {
+  return SyncJs.executeSyncPlan(prim0, prim1, prim2);
+}
+
+function createSyncCallbacks() {
+  return {
+          onCheckingPRs: (function (bookmarks) {
+              console.log("🔍 Checking PRs for " + bookmarks.length.toString() + " bookmark(s)...");
+            }),
+          onRetargetStarted: (function (bookmarkName, currentBase, newBase) {
+              console.log("Retargeting PR for " + bookmarkName + " from " + currentBase + " to " + newBase + "...");
+            }),
+          onRetargetCompleted: (function (bookmarkName, pr) {
+              console.log("✅ Retargeted PR for " + bookmarkName + ": " + pr.html_url);
+            }),
+          onError: (function (error, context) {
+              var errorMessage = Core__Option.getOr(error.message, "Unknown error");
+              console.error("❌ Error (" + context + "): " + errorMessage);
+            })
+        };
+}
+
+async function syncCommand(jjFunctions, remote, pushRemote, dryRun) {
+  console.log("Fetching from remote...");
+  try {
+    await jjFunctions.gitFetch();
+  }
+  catch (raw_error){
+    var error = Caml_js_exceptions.internalToOCamlException(raw_error);
+    if (error.RE_EXN_ID === Js_exn.$$Error) {
+      console.error("Error fetching from remote: " + Core__Option.getOr(error._1.message, "Unknown error"));
+    } else {
+      throw error;
+    }
+  }
+  console.log("🔑 Getting GitHub authentication...");
+  var githubConfig = await SubmitCommand.getGitHubConfig(jjFunctions, remote, pushRemote);
+  var callbacks = createSyncCallbacks();
+  var plan = await SyncJs.createSyncPlan(jjFunctions, githubConfig, Caml_option.some(callbacks));
+  console.log("📍 GitHub repository: " + plan.repoInfo.owner + "/" + plan.repoInfo.repo);
+  if (plan.finishedPRs.length > 0) {
+    console.log("\n🏁 Merged or closed PRs in your stacks:");
+    plan.finishedPRs.forEach(function (item) {
+          var match = item.state;
+          var stateStr = match === "closed" ? "closed" : "merged";
+          console.log("   • " + item.bookmarkName + " (#" + item.prNumber.toString() + ", " + stateStr + ")");
+        });
+  }
+  plan.prsWithoutStackInfo.forEach(function (item) {
+        console.log("ℹ️  " + item.bookmarkName + " has no stack info on its PR, skipping. Run 'jst submit' to add it.");
+      });
+  var succeeded = plan.prsNeedingRetarget.length === 0 ? (console.log("\n✅ All open PRs already target the right base branch"), true) : (
+      dryRun ? (console.log("\n🔄 Would retarget: " + plan.prsNeedingRetarget.length.toString() + " PR(s)"), plan.prsNeedingRetarget.forEach(function (item) {
+                console.log("   • " + item.bookmarkName + ": " + item.currentBaseBranch + " → " + item.newBaseBranch);
+              }), true) : (console.log(), (await SyncJs.executeSyncPlan(plan, githubConfig, Caml_option.some(callbacks))).success)
+    );
+  if (plan.bookmarksSafeToDelete.length > 0) {
+    var names = plan.bookmarksSafeToDelete.map(function (b) {
+            return b.name;
+          }).join(" ");
+    console.log("\n🧹 These local bookmarks belong to merged or closed PRs and can be deleted:");
+    console.log("   jj bookmark delete " + names);
+    console.log("   Or run 'jst cleanup' to delete them on the remote as well.");
+  }
+  if (!succeeded) {
+    Process.exit(1);
+    return ;
+  }
+  
+}
+
+export {
+  createSyncPlan ,
+  executeSyncPlan ,
+  createSyncCallbacks ,
+  syncCommand ,
+}
+/* process Not a pure module */
@@ -18,11 +18,68 @@ let sleep = (ms: int): Js.Promise.t<unit> =>
     }, ms)
   })
 
+@module("../lib/jjUtils.js")
+external describeExclusionReason: JJTypes.exclusionReason => string = "describeExclusionReason"
+@module("../lib/jjUtils.js")
+external describeExclusionFix: (string, JJTypes.exclusionReason) => string = "describeExclusionFix"
+
 let changeIdToLogEntry = (changeGraph: JJTypes.changeGraph, changeId) => {
   let segment = changeGraph.bookmarkedChangeIdToSegment->Map.get(changeId)->Option.getExn
   segment[0]->Option.getExn
 }
 
+/**
+ * AIDEV-NOTE: Pick where a command prints its progress. With --json, stdout carries only the JSON
+ * document, so progress goes to stderr instead.
+ */
+let progressLog = (~json: bool): (string => unit) =>
+  json ? message => Console.error(message) : message => Console.log(message)
+
+/**
+ * AIDEV-NOTE: Show user message if any bookmarks were excluded due to merge commits, conflicted
+ * bookmarks or divergent changes, naming each one and why. Merges of trunk into a stack aren't
+ * excluded, and bookmarks already on trunk aren't worth mentioning here.
+ */
+let printExcludedBookmarks = (changeGraph: JJTypes.changeGraph, ~log: string => unit) => {
+  if changeGraph.excludedBookmarkCount > 0 {
+    log(
+      `ℹ️  Ignoring ${changeGraph.excludedBookmarkCount->Int.toString} bookmark(s) that can't be stacked:`,
+    )
+    changeGraph.excludedBookmarks
+    ->Array.filter(({reason}) => reason.kind != #"on-trunk")
+    ->Array.forEach(({name, reason}) => {
+      log(`   • ${name}: ${describeExclusionReason(reason)}`)
+    })
+    log(`   Run 'jj-stack analyze --explain <bookmark>' to see the changes involved and how to fix them.`)
+    log("") // add space after the message
+  }
+}
+
+/**
+ * AIDEV-NOTE: Warn about changes in the graph with unresolved conflicts. They are shown like any
+ * other change, but submitting a stack that contains them is refused.
+ */
+let printConflictedChanges = (changeGraph: JJTypes.changeGraph) => {
+  let conflicted =
+    changeGraph.bookmarkedChangeIdToSegment
+    ->Map.values
+    ->Iterator.toArray
+    ->Array.flatMap(changes => changes)
+    ->Array.filter(change => change.hasConflict)
+  if conflicted->Array.length > 0 {
+    Console.log(
+      `⚠️  ${conflicted->Array.length->Int.toString} change(s) have unresolved conflicts:`,
+    )
+    conflicted->Array.forEach(change => {
+      Console.log(
+        `   • ${change.changeId->String.slice(~start=0, ~end=12)} ${change.descriptionFirstLine}`,
+      )
+    })
+    Console.log(`   Stacks containing them can't be submitted until they're resolved with 'jj resolve'.`)
+    Console.log() // add space after the message
+  }
+}
+
 // AIDEV-NOTE: CLI utilities for user interaction, specifically bookmark selection
 
 /**
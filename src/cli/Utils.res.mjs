@@ -8,6 +8,7 @@ import * as Js_exn from "rescript/lib/es6/js_exn.js";
 import * as Js_dict from "rescript/lib/es6/js_dict.js";
 import * as Js_promise from "rescript/lib/es6/js_promise.js";
 import * as Core__Option from "@rescript/core/src/Core__Option.res.mjs";
+import * as JjUtilsJs from "../lib/jjUtils.js";
 import * as JsxRuntime from "react/jsx-runtime";
 import * as BookmarkSelectionComponent from "./BookmarkSelectionComponent.res.mjs";
 
@@ -19,11 +20,63 @@ function sleep(ms) {
               }));
 }
 
+function describeExclusionReason(prim) {
+  return JjUtilsJs.describeExclusionReason(prim);
+}
+
+function describeExclusionFix(prim0, prim1) {
+  return JjUtilsJs.describeExclusionFix(prim0, prim1);
+}
+
 function changeIdToLogEntry(changeGraph, changeId) {
   var segment = Core__Option.getExn(changeGraph.bookmarkedChangeIdToSegment.get(changeId), undefined);
   return Core__Option.getExn(segment[0], undefined);
 }
 
+function progressLog(json) {
+  if (json) {
+    return function (message) {
+      console.error(message);
+    };
+  } else {
+    return function (message) {
+      console.log(message);
+    };
+  }
+}
+
+function printExcludedBookmarks(changeGraph, log) {
+  if (changeGraph.excludedBookmarkCount > 0) {
+    log("ℹ️  Ignoring " + changeGraph.excludedBookmarkCount.toString() + " bookmark(s) that can't be stacked:");
+    changeGraph.excludedBookmarks.filter(function (param) {
+            return param.reason.kind !== "on-trunk";
+          }).forEach(function (param) {
+          log("   • " + param.name + ": " + JjUtilsJs.describeExclusionReason(param.reason));
+        });
+    log("   Run 'jj-stack analyze --explain <bookmark>' to see the changes involved and how to fix them.");
+    return log("");
+  }
+  
+}
+
+function printConflictedChanges(changeGraph) {
+  var conflicted = Array.from(changeGraph.bookmarkedChangeIdToSegment.values()).flatMap(function (changes) {
+          return changes;
+        }).filter(function (change) {
+        return change.hasConflict;
+      });
+  if (conflicted.length > 0) {
+    console.log("⚠️  " + conflicted.length.toString() + " change(s) have unresolved conflicts:");
+    conflicted.forEach(function (change) {
+          console.log("   • " + change.changeId.slice(0, 12) + " " + change.descriptionFirstLine);
+        });
+    console.log("   Stacks containing them can't be submitted until they're resolved with 'jj resolve'.");
+    console.log();
+    return ;
+  }
+  
+}
+
 function isInteractiveUINeeded(segments) {
   return segments.some(function (segment) {
               return segment.bookmarks.length > 1;
@@ -152,7 +205,12 @@ function getJJPath() {
 
 export {
   sleep ,
+  describeExclusionReason ,
+  describeExclusionFix ,
   changeIdToLogEntry ,
+  progressLog ,
+  printExcludedBookmarks ,
+  printConflictedChanges ,
   isInteractiveUINeeded ,
   getDirectBookmarkSelections ,
   resolveBookmarkSelectionsWithUI ,
@@ -10,11 +10,38 @@
 
 import { execFile } from "child_process";
 import { promisify } from "util";
-import { Octokit } from "octokit";
+import { createOctokit } from "./github.js";
 import { logger } from "./logger.js";
 
 const execFileAsync = promisify(execFile);
 
+// AIDEV-NOTE: A GitHub instance. apiUrl is only set for GitHub Enterprise Server; Octokit talks to
+// api.github.com by default.
+export interface GitHubHost {
+  hostname: string;
+  apiUrl?: string;
+}
+
+export const githubDotCom: GitHubHost = { hostname: "github.com" };
+
+/**
+ * Resolve the GitHub instance for a remote's host, given the configured GitHub Enterprise hosts
+ * (hostname -> API base URL, where an empty URL means the usual https://<hostname>/api/v3)
+ */
+export function resolveGitHubHost(
+  remoteHost: string,
+  enterpriseHosts: Record<string, string> = {},
+): GitHubHost {
+  const entry = Object.entries(enterpriseHosts).find(
+    ([hostname]) => hostname.toLowerCase() === remoteHost.toLowerCase(),
+  );
+  if (!entry) {
+    return githubDotCom;
+  }
+  const [hostname, apiUrl] = entry;
+  return { hostname, apiUrl: apiUrl || `https://${hostname}/api/v3` };
+}
+
 export interface AuthConfig {
   token: string;
   source: "gh-cli" | "env-var";
@@ -34,16 +61,21 @@ export interface AuthFailure {
 /**
  * Check if GitHub CLI is available and authenticated
  */
-async function getGitHubCLIAuth(): Promise<string | null> {
+async function getGitHubCLIAuth(host: GitHubHost): Promise<string | null> {
   try {
     // First check if gh CLI is available
     await execFileAsync("gh", ["--version"]);
 
     // Check if user is authenticated
-    await execFileAsync("gh", ["auth", "status"]);
+    await execFileAsync("gh", ["auth", "status", "--hostname", host.hostname]);
 
     // If we get here, user is authenticated. Get the token.
-    const tokenResult = await execFileAsync("gh", ["auth", "token"]);
+    const tokenResult = await execFileAsync("gh", [
+      "auth",
+      "token",
+      "--hostname",
+      host.hostname,
+    ]);
     const token = tokenResult.stdout.trim();
 
     if (token) {
@@ -60,9 +92,13 @@ async function getGitHubCLIAuth(): Promise<string | null> {
 
 /**
  * Get token from environment variable
+ * AIDEV-NOTE: Same variables as the GitHub CLI: GH_ENTERPRISE_TOKEN/GITHUB_ENTERPRISE_TOKEN are used
+ * for every GitHub Enterprise host
  */
-function getEnvironmentToken(): string | null {
-  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+function getEnvironmentToken(host: GitHubHost): string | null {
+  const token = host.apiUrl
+    ? process.env.GH_ENTERPRISE_TOKEN || process.env.GITHUB_ENTERPRISE_TOKEN
+    : process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
   if (token) {
     logger.debug("Found GitHub token in environment variable");
     return token;
@@ -73,9 +109,12 @@ function getEnvironmentToken(): string | null {
 /**
  * Validate that a token works by making a test API call
  */
-async function validateToken(token: string): Promise<boolean> {
+async function validateToken(
+  token: string,
+  host: GitHubHost,
+): Promise<boolean> {
   try {
-    const octokit = new Octokit({ auth: token });
+    const octokit = createOctokit(token, host.apiUrl);
 
     // Test the token by getting user info
     await octokit.rest.users.getAuthenticated();
@@ -85,8 +124,11 @@ async function validateToken(token: string): Promise<boolean> {
   }
 }
 
-export async function getAuthDetails(authConfig: AuthConfig) {
-  const octokit = new Octokit({ auth: authConfig.token });
+export async function getAuthDetails(
+  authConfig: AuthConfig,
+  host: GitHubHost = githubDotCom,
+) {
+  const octokit = createOctokit(authConfig.token, host.apiUrl);
   const user = await octokit.rest.users.getAuthenticated();
   const response = await octokit.request("GET /user");
   const scopes = response.headers["x-oauth-scopes"]?.split(", ") || [];
@@ -99,14 +141,17 @@ export async function getAuthDetails(authConfig: AuthConfig) {
 }
 
 /**
- * Get GitHub authentication token using the following priority:
- * 1. GitHub CLI (if available and authenticated)
- * 2. Environment variables (GITHUB_TOKEN or GH_TOKEN)
+ * Get GitHub authentication token for a GitHub instance using the following priority:
+ * 1. GitHub CLI (if available and authenticated with that host)
+ * 2. Environment variables (GITHUB_TOKEN or GH_TOKEN, or GH_ENTERPRISE_TOKEN or
+ *    GITHUB_ENTERPRISE_TOKEN for GitHub Enterprise)
  * 3. Return failure with instructions
  */
-export async function getGitHubAuth(): Promise<AuthSuccess | AuthFailure> {
+export async function getGitHubAuth(
+  host: GitHubHost = githubDotCom,
+): Promise<AuthSuccess | AuthFailure> {
   // 1. Try GitHub CLI first
-  const ghCliToken = await getGitHubCLIAuth();
+  const ghCliToken = await getGitHubCLIAuth(host);
   if (ghCliToken) {
     return {
       kind: "success",
@@ -115,10 +160,10 @@ export async function getGitHubAuth(): Promise<AuthSuccess | AuthFailure> {
   }
 
   // 2. Try environment variables
-  const envToken = getEnvironmentToken();
+  const envToken = getEnvironmentToken(host);
   if (envToken) {
     // Validate the token
-    if (await validateToken(envToken)) {
+    if (await validateToken(envToken, host)) {
       return {
         kind: "success",
         config: { token: envToken, source: "env-var" },
@@ -0,0 +1,80 @@
+import {
+  matchesGlob,
+  selectBookmarksNonInteractively,
+} from "./bookmarkSelection.js";
+import type { Bookmark, BookmarkSegment, LogEntry } from "./jjTypes.js";
+import assert from "assert/strict";
+
+suite("non-interactive bookmark selection", () => {
+  function segment(
+    changeId: string,
+    names: string[],
+    onRemote: string[] = [],
+  ): BookmarkSegment {
+    const bookmarks = names.map(
+      (name): Bookmark => ({
+        name,
+        commitId: `commit_${changeId}`,
+        changeId,
+        hasRemote: onRemote.includes(name),
+        isSynced: onRemote.includes(name),
+      }),
+    );
+    const change = {
+      changeId,
+      commitId: `commit_${changeId}`,
+      descriptionFirstLine: `Change ${changeId}`,
+    } as LogEntry;
+    return { bookmarks, changes: [change] };
+  }
+
+  function names(bookmarks: Bookmark[]) {
+    return bookmarks.map((b) => b.name);
+  }
+
+  test("matches globs", () => {
+    assert.ok(matchesGlob("feature/login", "feature/*"));
+    assert.ok(matchesGlob("wip-1", "wip-?"));
+    assert.ok(!matchesGlob("wip-12", "wip-?"));
+    assert.ok(!matchesGlob("feature.login", "feature?login.x"));
+    assert.ok(!matchesGlob("featureXlogin", "feature.login"));
+  });
+
+  test("prefers the target, then globs, then the only bookmark on the remote", () => {
+    const selections = selectBookmarksNonInteractively(
+      [
+        segment("a", ["auth", "old-auth"], ["old-auth"]),
+        segment("b", ["profile", "pr/profile"]),
+        segment("c", ["settings", "settings-v2"]),
+      ],
+      "settings-v2",
+      ["nothing-*", "pr/*"],
+    );
+    assert.deepEqual(names(selections), [
+      "old-auth",
+      "pr/profile",
+      "settings-v2",
+    ]);
+  });
+
+  test("lists every ambiguous change", () => {
+    assert.throws(
+      () =>
+        selectBookmarksNonInteractively(
+          [
+            segment("a", ["auth", "login"]),
+            segment("b", ["profile"]),
+            segment("c", ["settings", "prefs"], ["settings", "prefs"]),
+          ],
+          "top",
+        ),
+      (error: Error) => {
+        assert.match(error.message, /for 2 change\(s\)/);
+        assert.match(error.message, /- a "Change a": auth, login/);
+        assert.match(error.message, /- c "Change c": settings, prefs/);
+        assert.doesNotMatch(error.message, /profile/);
+        return true;
+      },
+    );
+  });
+});
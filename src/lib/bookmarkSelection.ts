@@ -0,0 +1,89 @@
+// AIDEV-NOTE: Non-interactive bookmark selection
+// When a change in the stack has several bookmarks, the CLI normally asks which one to submit.
+// Without a terminal (CI, hooks, --json) the choice is made by these rules, in order:
+// 1. The bookmark being submitted always represents its own change
+// 2. The first --prefer-bookmark glob that matches exactly one of the change's bookmarks
+// 3. The only bookmark that already exists on the remote
+// Changes that are still ambiguous are all listed in a single error.
+
+import type { Bookmark, BookmarkSegment } from "./jjTypes.js";
+
+/**
+ * Match a bookmark name against a glob, where `*` matches any run of characters (including `/`)
+ * and `?` matches any single character
+ */
+export function matchesGlob(name: string, glob: string): boolean {
+  const pattern = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[\\^$.|+()[\]{}]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+function selectSegmentBookmark(
+  segment: BookmarkSegment,
+  targetBookmark: string,
+  preferBookmarks: string[],
+): Bookmark | undefined {
+  const { bookmarks } = segment;
+  if (bookmarks.length === 1) {
+    return bookmarks[0];
+  }
+
+  const target = bookmarks.find((b) => b.name === targetBookmark);
+  if (target) {
+    return target;
+  }
+
+  for (const glob of preferBookmarks) {
+    const matches = bookmarks.filter((b) => matchesGlob(b.name, glob));
+    if (matches.length === 1) {
+      return matches[0];
+    }
+  }
+
+  const onRemote = bookmarks.filter((b) => b.hasRemote);
+  return onRemote.length === 1 ? onRemote[0] : undefined;
+}
+
+/**
+ * Choose one bookmark for each segment of a stack without asking
+ * @param segments The stack's segments, ordered from trunk to the target bookmark
+ * @throws If any segment is still ambiguous, listing every such segment
+ */
+export function selectBookmarksNonInteractively(
+  segments: BookmarkSegment[],
+  targetBookmark: string,
+  preferBookmarks: string[] = [],
+): Bookmark[] {
+  const selections: Bookmark[] = [];
+  const ambiguous: string[] = [];
+
+  for (const segment of segments) {
+    const selection = selectSegmentBookmark(
+      segment,
+      targetBookmark,
+      preferBookmarks,
+    );
+    if (selection) {
+      selections.push(selection);
+    } else {
+      const change = segment.changes[0];
+      const names = segment.bookmarks.map((b) => b.name).join(", ");
+      ambiguous.push(
+        `  - ${change.changeId.slice(0, 12)} "${change.descriptionFirstLine}": ${names}`,
+      );
+    }
+  }
+
+  if (ambiguous.length > 0) {
+    throw new Error(
+      `Can't choose which bookmark to submit for ${ambiguous.length} change(s) without asking:\n${ambiguous.join("\n")}\nPass --prefer-bookmark <glob> to choose, or run jj-stack in a terminal to pick interactively.`,
+    );
+  }
+  return selections;
+}
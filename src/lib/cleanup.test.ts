@@ -0,0 +1,238 @@
+import { createCleanupPlan, executeCleanupPlan } from "./cleanup.js";
+import type { Bookmark, ChangeGraph } from "./jjTypes.js";
+import type { JjFunctions } from "./jjUtils.js";
+import type { GitHubConfig, PullRequest } from "./submit.js";
+import assert from "assert/strict";
+
+suite("cleanup", () => {
+  function bookmark(name: string, extra: Partial<Bookmark> = {}): Bookmark {
+    return {
+      name,
+      commitId: `${name}_sha`.slice(0, 8),
+      changeId: `change_${name}`,
+      hasRemote: true,
+      isSynced: true,
+      ...extra,
+    };
+  }
+
+  function pr(number: number, head: string, base = "main") {
+    return {
+      number,
+      html_url: `https://github.com/owner/repo/pull/${number}`,
+      merged_at: null as string | null,
+      base: { ref: base },
+      head: { ref: head, sha: `${head}_sha_full` },
+    };
+  }
+
+  // Answers GraphQL lookups from the open PRs and REST lookups from the closed ones, keyed by head
+  function github(
+    openPRs: ReturnType<typeof pr>[],
+    closedPRs: ReturnType<typeof pr>[],
+    closed: number[] = [],
+  ): GitHubConfig {
+    const graphql = (_query: string, variables: Record<string, string>) => {
+      const repository: Record<string, unknown> = {};
+      for (const [key, head] of Object.entries(variables)) {
+        if (!key.startsWith("head")) continue;
+        const open = openPRs.find((p) => p.head.ref === head);
+        repository[`pr${key.slice(4)}`] = {
+          nodes: open
+            ? [
+                {
+                  number: open.number,
+                  url: open.html_url,
+                  baseRefName: open.base.ref,
+                  headRefName: head,
+                  headRefOid: open.head.sha,
+                  headRepositoryOwner: { login: "owner" },
+                },
+              ]
+            : [],
+        };
+      }
+      return Promise.resolve({ repository });
+    };
+    const rest = {
+      pulls: {
+        list: ({ head }: { head: string }) =>
+          Promise.resolve({
+            data: closedPRs.filter((p) => `owner:${p.head.ref}` === head),
+          }),
+        update: ({ pull_number }: { pull_number: number }) => {
+          closed.push(pull_number);
+          return Promise.resolve({ data: { number: pull_number } });
+        },
+      },
+    };
+    return {
+      owner: "owner",
+      repo: "repo",
+      headOwner: "owner",
+      octokit: { graphql, rest },
+    } as unknown as GitHubConfig;
+  }
+
+  function graph(bookmarks: Bookmark[]): ChangeGraph {
+    return {
+      bookmarks: new Map(bookmarks.map((b) => [b.name, b])),
+    } as ChangeGraph;
+  }
+
+  test("plans to delete bookmarks of finished PRs and close orphaned PRs", async () => {
+    const merged = { ...pr(1, "auth"), merged_at: "2025-01-01T10:00:00Z" };
+    const jj = {
+      getDefaultBranch: () => Promise.resolve("main"),
+      getTrunkBookmarks: () => Promise.resolve([] as Bookmark[]),
+      getDeletedBookmarks: () =>
+        Promise.resolve(["abandoned", "abandoned-base", "gone"]),
+    } as JjFunctions;
+
+    const plan = await createCleanupPlan(
+      jj,
+      github(
+        [
+          pr(4, "settings", "api"),
+          pr(5, "abandoned"),
+          pr(7, "abandoned-base"),
+          pr(8, "profile", "abandoned-base"),
+        ],
+        [merged, pr(2, "spike"), pr(3, "reused"), pr(6, "api")],
+      ),
+      graph([
+        bookmark("auth"),
+        bookmark("spike", { hasRemote: false }),
+        bookmark("reused", { commitId: "newwork" }),
+        bookmark("api"),
+        bookmark("settings"),
+        bookmark("profile"),
+        bookmark("wip"),
+        bookmark("theirs", { isForeign: true }),
+      ]),
+      "origin",
+    );
+
+    assert.deepEqual(
+      plan.finishedBookmarks.map((item) => [
+        item.bookmark.name,
+        item.prNumber,
+        item.state,
+      ]),
+      [
+        ["auth", 1, "merged"],
+        ["spike", 2, "closed"],
+      ],
+    );
+    assert.deepEqual(plan.keptBookmarks, [
+      {
+        bookmarkName: "reused",
+        prNumber: 3,
+        reason: "it has moved since #3 was closed",
+      },
+      {
+        bookmarkName: "api",
+        prNumber: 6,
+        reason: "it's the base of #4. Run 'jst sync' to retarget them first.",
+      },
+      {
+        bookmarkName: "abandoned-base",
+        prNumber: 7,
+        reason:
+          "it's the base of #8, which would be closed with it. Retarget them first.",
+      },
+    ]);
+    assert.deepEqual(
+      plan.orphanedPRs.map((item) => [item.bookmarkName, item.pr.number]),
+      [["abandoned", 5]],
+    );
+  });
+
+  test("deletes bookmarks left on trunk() by a fast-forward merge", async () => {
+    const jj = {
+      getDefaultBranch: () => Promise.resolve("main"),
+      getTrunkBookmarks: () =>
+        Promise.resolve([bookmark("main"), bookmark("fast-forwarded")]),
+      getDeletedBookmarks: () => Promise.resolve([] as string[]),
+    } as JjFunctions;
+
+    const plan = await createCleanupPlan(
+      jj,
+      github(
+        [],
+        [
+          { ...pr(1, "fast-forwarded"), merged_at: "2025-01-01T10:00:00Z" },
+          pr(2, "main", "release"),
+        ],
+      ),
+      graph([]),
+      "origin",
+    );
+
+    assert.deepEqual(
+      plan.finishedBookmarks.map((item) => [item.bookmark.name, item.state]),
+      [["fast-forwarded", "merged"]],
+    );
+    assert.deepEqual(plan.keptBookmarks, []);
+  });
+
+  test("closes orphaned PRs and deletes finished bookmarks", async () => {
+    const calls: string[] = [];
+    const jj = {
+      deleteBookmark: (name) => {
+        calls.push(`delete ${name}`);
+        return Promise.resolve();
+      },
+      deleteRemoteBookmark: (name, remote) => {
+        if (name === "broken") {
+          return Promise.reject(new Error("remote rejected"));
+        }
+        calls.push(`push deletion of ${name} to ${remote}`);
+        return Promise.resolve();
+      },
+    } as JjFunctions;
+    const closed: number[] = [];
+    const githubConfig = github([], [], closed);
+
+    const result = await executeCleanupPlan(
+      {
+        finishedBookmarks: [
+          bookmark("auth"),
+          bookmark("spike", { hasRemote: false }),
+          bookmark("broken"),
+        ].map((b, i) => ({
+          bookmark: b,
+          prNumber: i + 1,
+          prUrl: `https://github.com/owner/repo/pull/${i + 1}`,
+          state: "merged" as const,
+        })),
+        keptBookmarks: [],
+        orphanedPRs: [
+          {
+            bookmarkName: "abandoned",
+            pr: pr(5, "abandoned") as unknown as PullRequest,
+          },
+        ],
+        repoInfo: { owner: "owner", repo: "repo" },
+        remoteName: "fork",
+      },
+      jj,
+      githubConfig,
+    );
+
+    assert.deepEqual(closed, [5]);
+    assert.deepEqual(calls, [
+      "push deletion of abandoned to fork",
+      "delete auth",
+      "push deletion of auth to fork",
+      "delete spike",
+      "delete broken",
+    ]);
+    assert.equal(result.success, false);
+    assert.deepEqual(result.deletedBookmarks, ["abandoned", "auth", "spike"]);
+    assert.deepEqual(
+      result.errors.map((e) => e.context),
+      ["deleting broken"],
+    );
+  });
+});
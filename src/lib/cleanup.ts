@@ -0,0 +1,259 @@
+// AIDEV-NOTE: Cleanup command library - removes what merged and abandoned stacks leave behind
+// Uses the same plan/execute split as sync.ts: createCleanupPlan only reads the change graph and
+// GitHub, executeCleanupPlan only applies the plan. Two things are cleaned up:
+// - Bookmarks whose latest PR was merged or closed are deleted, locally and on the remote
+// - Open PRs whose bookmarks were deleted locally are closed, and the deletion is pushed. Only
+//   bookmarks on the user's own changes count, so teammates' PRs are never closed.
+// Deleting a branch on GitHub closes the open PRs based on it, so neither happens while one is.
+// Bookmarks left on trunk() by a fast-forward merge are checked as well, except the default branch.
+// Bookmarks are only deleted while they still point at the commit their PR ended on, so a
+// bookmark that was reused for new work after its PR closed is left alone.
+
+import type { Bookmark, ChangeGraph } from "./jjTypes.js";
+import type { JjFunctions } from "./jjUtils.js";
+import {
+  getExistingPRs,
+  resolveDefaultBranch,
+  type GitHubConfig,
+  type PullRequest,
+} from "./submit.js";
+import type { PRState } from "./sync.js";
+import { logger } from "./logger.js";
+
+export interface CleanupPlan {
+  finishedBookmarks: {
+    bookmark: Bookmark;
+    prNumber: number;
+    prUrl: string;
+    state: Exclude<PRState, "open">;
+  }[];
+  keptBookmarks: { bookmarkName: string; prNumber: number; reason: string }[];
+  orphanedPRs: { bookmarkName: string; pr: PullRequest }[];
+  repoInfo: { owner: string; repo: string };
+  remoteName: string;
+}
+
+export interface CleanupCallbacks {
+  onCheckingPRs?: (bookmarks: Bookmark[]) => void;
+  onPlanReady?: (plan: CleanupPlan) => void;
+  onPRClosed?: (bookmarkName: string, pr: PullRequest) => void;
+  onBookmarkDeleted?: (bookmarkName: string) => void;
+  onError?: (error: Error, context: string) => void;
+}
+
+export interface CleanupResult {
+  success: boolean;
+  closedPRs: Array<{ bookmarkName: string; pr: PullRequest }>;
+  deletedBookmarks: string[];
+  errors: Array<{ error: Error; context: string }>;
+}
+
+/**
+ * The open PRs based on a branch, which GitHub closes when the branch is deleted
+ */
+function findDependentPRs(
+  openPRs: Map<string, PullRequest>,
+  branch: string,
+): string[] {
+  return [...openPRs.values()]
+    .filter((openPR) => openPR.base.ref === branch)
+    .map((openPR) => `#${openPR.number}`);
+}
+
+type ClosedPR = Awaited<
+  ReturnType<GitHubConfig["octokit"]["rest"]["pulls"]["list"]>
+>["data"][0];
+
+/**
+ * Find the most recently created closed PR for a head branch, merged or not
+ */
+async function findLatestClosedPR(
+  githubConfig: GitHubConfig,
+  headBranch: string,
+): Promise<ClosedPR | undefined> {
+  const result = await githubConfig.octokit.rest.pulls.list({
+    owner: githubConfig.owner,
+    repo: githubConfig.repo,
+    head: `${githubConfig.headOwner}:${headBranch}`,
+    state: "closed",
+    sort: "created",
+    direction: "desc",
+    per_page: 1,
+  });
+  return result.data[0];
+}
+
+/**
+ * Create a plan for deleting the bookmarks of merged or closed PRs, and closing the PRs of
+ * bookmarks that were deleted locally
+ */
+export async function createCleanupPlan(
+  jj: JjFunctions,
+  githubConfig: GitHubConfig,
+  changeGraph: ChangeGraph,
+  remoteName: string,
+  callbacks?: CleanupCallbacks,
+): Promise<CleanupPlan> {
+  try {
+    // A bookmark whose PR was merged by fast-forward sits on trunk(), so it isn't in the change
+    // graph. The default branch's own bookmark is there too, and is never cleaned up.
+    const defaultBranch = await resolveDefaultBranch(jj, githubConfig);
+    const trunkBookmarks = (await jj.getTrunkBookmarks()).filter(
+      (bookmark) => bookmark.name !== defaultBranch,
+    );
+    // Other people's bookmarks are theirs to clean up, and conflicted ones need resolving first
+    const bookmarks = [
+      ...changeGraph.bookmarks.values(),
+      ...trunkBookmarks,
+    ].filter((bookmark) => !bookmark.isForeign && !bookmark.conflictedTargets);
+
+    callbacks?.onCheckingPRs?.(bookmarks);
+    const openPRs = await getExistingPRs(
+      githubConfig.octokit,
+      githubConfig.owner,
+      githubConfig.repo,
+      bookmarks,
+      githubConfig.headOwner,
+    );
+
+    const finishedBookmarks: CleanupPlan["finishedBookmarks"] = [];
+    const keptBookmarks: CleanupPlan["keptBookmarks"] = [];
+    for (const bookmark of bookmarks) {
+      if (openPRs.has(bookmark.name)) {
+        continue;
+      }
+      const pr = await findLatestClosedPR(githubConfig, bookmark.name);
+      if (!pr) {
+        continue;
+      }
+
+      if (!pr.head.sha.startsWith(bookmark.commitId)) {
+        logger.debug(
+          `${bookmark.name} is at ${bookmark.commitId} but PR #${pr.number} ended at ${pr.head.sha}`,
+        );
+        keptBookmarks.push({
+          bookmarkName: bookmark.name,
+          prNumber: pr.number,
+          reason: `it has moved since #${pr.number} was closed`,
+        });
+        continue;
+      }
+
+      const dependentPRs = findDependentPRs(openPRs, bookmark.name);
+      if (dependentPRs.length > 0) {
+        keptBookmarks.push({
+          bookmarkName: bookmark.name,
+          prNumber: pr.number,
+          reason: `it's the base of ${dependentPRs.join(", ")}. Run 'jst sync' to retarget them first.`,
+        });
+        continue;
+      }
+
+      finishedBookmarks.push({
+        bookmark,
+        prNumber: pr.number,
+        prUrl: pr.html_url,
+        state: pr.merged_at ? "merged" : "closed",
+      });
+    }
+
+    const deletedBookmarks = await jj.getDeletedBookmarks();
+    const deletedBookmarkPRs = await getExistingPRs(
+      githubConfig.octokit,
+      githubConfig.owner,
+      githubConfig.repo,
+      deletedBookmarks.map((name) => ({ name })),
+      githubConfig.headOwner,
+    );
+    const orphanedPRs: CleanupPlan["orphanedPRs"] = [];
+    for (const [bookmarkName, pr] of deletedBookmarkPRs) {
+      // Other orphaned PRs based on it aren't in openPRs, since they're being closed as well
+      const dependentPRs = findDependentPRs(openPRs, bookmarkName);
+      if (dependentPRs.length > 0) {
+        keptBookmarks.push({
+          bookmarkName,
+          prNumber: pr.number,
+          reason: `it's the base of ${dependentPRs.join(", ")}, which would be closed with it. Retarget them first.`,
+        });
+        continue;
+      }
+      orphanedPRs.push({ bookmarkName, pr });
+    }
+
+    const plan: CleanupPlan = {
+      finishedBookmarks,
+      keptBookmarks,
+      orphanedPRs,
+      repoInfo: { owner: githubConfig.owner, repo: githubConfig.repo },
+      remoteName,
+    };
+
+    callbacks?.onPlanReady?.(plan);
+    return plan;
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    callbacks?.onError?.(err, "planning");
+    throw err;
+  }
+}
+
+/**
+ * Execute the cleanup plan by closing orphaned PRs and deleting finished bookmarks
+ * AIDEV-NOTE: Each bookmark is cleaned up independently, so one failure doesn't stop the others
+ */
+export async function executeCleanupPlan(
+  plan: CleanupPlan,
+  jj: JjFunctions,
+  githubConfig: GitHubConfig,
+  callbacks?: CleanupCallbacks,
+): Promise<CleanupResult> {
+  const result: CleanupResult = {
+    success: true,
+    closedPRs: [],
+    deletedBookmarks: [],
+    errors: [],
+  };
+
+  const recordError = (error: unknown, context: string) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    result.errors.push({ error: err, context });
+    callbacks?.onError?.(err, context);
+    result.success = false;
+  };
+
+  for (const { bookmarkName, pr } of plan.orphanedPRs) {
+    try {
+      const closedPR = (
+        await githubConfig.octokit.rest.pulls.update({
+          owner: githubConfig.owner,
+          repo: githubConfig.repo,
+          pull_number: pr.number,
+          state: "closed",
+        })
+      ).data;
+      callbacks?.onPRClosed?.(bookmarkName, closedPR);
+      result.closedPRs.push({ bookmarkName, pr: closedPR });
+
+      await jj.deleteRemoteBookmark(bookmarkName, plan.remoteName);
+      callbacks?.onBookmarkDeleted?.(bookmarkName);
+      result.deletedBookmarks.push(bookmarkName);
+    } catch (error) {
+      recordError(error, `closing PR for ${bookmarkName}`);
+    }
+  }
+
+  for (const { bookmark } of plan.finishedBookmarks) {
+    try {
+      await jj.deleteBookmark(bookmark.name);
+      if (bookmark.hasRemote) {
+        await jj.deleteRemoteBookmark(bookmark.name, plan.remoteName);
+      }
+      callbacks?.onBookmarkDeleted?.(bookmark.name);
+      result.deletedBookmarks.push(bookmark.name);
+    } catch (error) {
+      recordError(error, `deleting ${bookmark.name}`);
+    }
+  }
+
+  return result;
+}
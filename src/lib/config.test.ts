@@ -0,0 +1,124 @@
+import { describeConfig, loadConfig, parseTomlValue } from "./config.js";
+import type { JjFunctions } from "./jjUtils.js";
+import type { JjConfigEntry } from "./jjTypes.js";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import assert from "assert/strict";
+
+suite("configuration", () => {
+  let repoRoot: string;
+
+  setup(async () => {
+    repoRoot = await mkdtemp(path.join(tmpdir(), "jj-stack-config-"));
+  });
+
+  teardown(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  function mockJj(entries: JjConfigEntry[]): JjFunctions {
+    return {
+      gitFetch: () => Promise.resolve(),
+      getMyBookmarks: () => Promise.resolve([]),
+      getTrunkBookmarks: () => Promise.resolve([]),
+      getBranchChangesPaginated: () => Promise.resolve([]),
+      getGitRemoteList: () => Promise.resolve([]),
+      getDefaultBranch: () => Promise.resolve("main"),
+      pushBookmark: () => Promise.resolve(),
+      createBookmark: () => Promise.resolve(),
+      deleteBookmark: () => Promise.resolve(),
+      deleteRemoteBookmark: () => Promise.resolve(),
+      getDeletedBookmarks: () => Promise.resolve([]),
+      getBookmarkNames: () => Promise.resolve([]),
+      getRepoRoot: () => Promise.resolve(repoRoot),
+      getConfigList: () => Promise.resolve(entries),
+      getChanges: () => Promise.resolve([]),
+      getOperationId: () => Promise.resolve("op"),
+    };
+  }
+
+  test("parses TOML values printed by jj", () => {
+    assert.equal(parseTomlValue('"origin"'), "origin");
+    assert.equal(parseTomlValue("'main@upstream'"), "main@upstream");
+    assert.equal(parseTomlValue("true"), true);
+    assert.deepEqual(parseTomlValue('["alice", "my-org/team"]'), [
+      "alice",
+      "my-org/team",
+    ]);
+    assert.throws(() => parseTomlValue("{ a = 1 }"), /Unsupported value/);
+  });
+
+  test("uses defaults when nothing is configured", async () => {
+    const loaded = await loadConfig(mockJj([]));
+    assert.deepEqual(loaded, { config: {}, sources: {} });
+    assert.ok(
+      describeConfig(loaded).every((entry) => entry.source === "default"),
+    );
+  });
+
+  test("prefers jj config over .jj-stack.json", async () => {
+    await writeFile(
+      path.join(repoRoot, ".jj-stack.json"),
+      JSON.stringify({ remote: "origin", labels: ["stacked"] }),
+    );
+    const loaded = await loadConfig(
+      mockJj([
+        { name: "jj-stack.remote", value: '"upstream"', source: "repo" },
+      ]),
+    );
+
+    assert.deepEqual(loaded.config, {
+      remote: "upstream",
+      labels: ["stacked"],
+    });
+    assert.deepEqual(loaded.sources, {
+      remote: "jj config (repo)",
+      labels: ".jj-stack.json",
+    });
+
+    const entries = describeConfig(loaded);
+    assert.deepEqual(
+      entries.find((entry) => entry.key === "remote"),
+      { key: "remote", value: '"upstream"', source: "jj config (repo)" },
+    );
+    assert.equal(entries.find((e) => e.key === "draft")?.source, "default");
+  });
+
+  test("reassembles tables listed by jj", async () => {
+    const loaded = await loadConfig(
+      mockJj([
+        {
+          name: 'jj-stack.githubHosts."git.corp.example"',
+          value: '""',
+          source: "user",
+        },
+        {
+          name: 'jj-stack.githubHosts."ghe.other.example"',
+          value: '"https://ghe.other.example/api/v3"',
+          source: "user",
+        },
+      ]),
+    );
+
+    assert.deepEqual(loaded.config.githubHosts, {
+      "git.corp.example": "",
+      "ghe.other.example": "https://ghe.other.example/api/v3",
+    });
+  });
+
+  test("rejects invalid values", async () => {
+    await assert.rejects(
+      loadConfig(
+        mockJj([{ name: "jj-stack.draft", value: '"yes"', source: "user" }]),
+      ),
+      /Invalid jj config under jj-stack/,
+    );
+
+    await writeFile(
+      path.join(repoRoot, ".jj-stack.json"),
+      JSON.stringify({ stackInfo: "sidebar" }),
+    );
+    await assert.rejects(loadConfig(mockJj([])), /Invalid \.jj-stack\.json/);
+  });
+});
@@ -0,0 +1,218 @@
+// AIDEV-NOTE: jj-stack configuration
+// Settings come from two places, highest precedence first:
+// 1. jj's own config under the jj-stack namespace (e.g. `jj config set --repo jj-stack.remote origin`),
+//    for personal or per-clone preferences
+// 2. .jj-stack.json in the root of the jj workspace, so that it can be committed and shared by
+//    everyone working on the repository
+// Every setting is optional, and CLI flags override both.
+
+import { readFile } from "fs/promises";
+import path from "path";
+import * as v from "valibot";
+import type { JjFunctions } from "./jjUtils.js";
+import { logger } from "./logger.js";
+
+export const repoConfigFileName = ".jj-stack.json";
+export const jjConfigNamespace = "jj-stack";
+
+const RepoConfigSchema = v.object({
+  remote: v.optional(v.string()),
+  pushRemote: v.optional(v.string()), // Fork to push bookmarks to, when PRs target `remote`
+  defaultBranch: v.optional(v.string()),
+  trunk: v.optional(v.string()), // Revset used in place of trunk()
+  includeBookmarks: v.optional(v.string()), // Revset of other people's changes to stack on
+  draft: v.optional(v.boolean()),
+  stackInfo: v.optional(v.picklist(["comment", "body", "both"])),
+  updateBody: v.optional(v.boolean()),
+  splitChanges: v.optional(v.boolean()),
+  splitBookmarkTemplate: v.optional(v.string()), // e.g. "me/{description}", see splitChanges.ts
+  reviewers: v.optional(v.array(v.string())), // "user" or "org/team"
+  assignees: v.optional(v.array(v.string())),
+  labels: v.optional(v.array(v.string())),
+  prTemplate: v.optional(v.string()), // Path relative to the repository root
+  // GitHub Enterprise hostname -> API base URL ("" for https://<hostname>/api/v3)
+  githubHosts: v.optional(v.record(v.string(), v.string())),
+});
+export type RepoConfig = v.InferOutput<typeof RepoConfigSchema>;
+export type RepoConfigKey = keyof RepoConfig;
+
+// AIDEV-NOTE: Ordered for display by `jst config`, with what happens when a setting isn't set
+const configDefaults: Record<RepoConfigKey, string> = {
+  remote: "the only GitHub remote, or ask",
+  pushRemote: "same as remote",
+  defaultBranch: "from trunk(), or the repository's default branch on GitHub",
+  trunk: "trunk()",
+  includeBookmarks: "only your own (mine())",
+  draft: "false",
+  stackInfo: '"comment"',
+  updateBody: "false",
+  splitChanges: "false",
+  splitBookmarkTemplate: '"push-{changeId}"',
+  reviewers: "[]",
+  assignees: "[]",
+  labels: "[]",
+  prTemplate: "none",
+  githubHosts: "github.com only",
+};
+
+export interface LoadedConfig {
+  config: RepoConfig;
+  sources: Partial<Record<RepoConfigKey, string>>; // e.g. ".jj-stack.json" or "jj config (repo)"
+}
+
+export interface ConfigEntry {
+  key: RepoConfigKey;
+  value: string; // JSON, or a description of the default
+  source: string; // "default" when not set anywhere
+}
+
+/**
+ * Read .jj-stack.json, returning an empty config if there is no config file
+ */
+async function loadRepoConfigFile(jj: JjFunctions): Promise<RepoConfig> {
+  const configPath = path.join(await jj.getRepoRoot(), repoConfigFileName);
+
+  let contents: string;
+  try {
+    contents = await readFile(configPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      logger.debug(`No ${repoConfigFileName} found at ${configPath}`);
+      return {};
+    }
+    throw error;
+  }
+
+  try {
+    return v.parse(RepoConfigSchema, JSON.parse(contents));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${repoConfigFileName} at ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Parse a config value printed by jj in TOML syntax
+ * AIDEV-NOTE: Basic strings, booleans and arrays of them are valid JSON; literal strings
+ * ('...') are the only other form we accept
+ */
+export function parseTomlValue(value: string): unknown {
+  const trimmed = value.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const literalString = /^'([^'\n]*)'$/.exec(trimmed);
+    if (literalString) {
+      return literalString[1];
+    }
+    throw new Error(`Unsupported value ${trimmed}`);
+  }
+}
+
+/**
+ * Split a dotted jj config name into its keys, e.g. `a."b.c"` -> ["a", "b.c"]
+ */
+export function splitConfigName(name: string): string[] {
+  return (name.match(/"(?:[^"\\]|\\.)*"|[^.]+/g) ?? []).map((key) =>
+    key.startsWith('"') ? (JSON.parse(key) as string) : key,
+  );
+}
+
+/**
+ * Read the jj-stack.* settings from jj's config
+ * AIDEV-NOTE: jj lists tables (like githubHosts) one entry per key, so those are reassembled here
+ */
+async function loadJjConfig(
+  jj: JjFunctions,
+): Promise<{ config: RepoConfig; sources: Record<string, string> }> {
+  const entries = await jj.getConfigList(jjConfigNamespace);
+  const raw: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const [, key, ...tableKeys] = splitConfigName(entry.name);
+    if (!(key in configDefaults)) {
+      logger.warn(`Ignoring unknown jj config setting ${entry.name}`);
+      continue;
+    }
+    try {
+      const value = parseTomlValue(entry.value);
+      if (tableKeys.length > 0) {
+        const table = (raw[key] ?? {}) as Record<string, unknown>;
+        table[tableKeys.join(".")] = value;
+        raw[key] = table;
+      } else {
+        raw[key] = value;
+      }
+    } catch (error) {
+      throw new Error(
+        `Invalid jj config ${entry.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    sources[key] = `jj config (${entry.source})`;
+  }
+
+  try {
+    return { config: v.parse(RepoConfigSchema, raw), sources };
+  } catch (error) {
+    throw new Error(
+      `Invalid jj config under ${jjConfigNamespace}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Load the effective configuration and where each setting came from
+ */
+export async function loadConfig(jj: JjFunctions): Promise<LoadedConfig> {
+  const fileConfig = await loadRepoConfigFile(jj);
+  const jjConfig = await loadJjConfig(jj);
+
+  const config: RepoConfig = {};
+  const sources: LoadedConfig["sources"] = {};
+  for (const key of Object.keys(configDefaults) as RepoConfigKey[]) {
+    const source =
+      jjConfig.config[key] !== undefined ? jjConfig.config : fileConfig;
+    if (source[key] !== undefined) {
+      (config as Record<string, unknown>)[key] = source[key];
+      sources[key] =
+        source === fileConfig ? repoConfigFileName : jjConfig.sources[key];
+    }
+  }
+
+  return { config, sources };
+}
+
+/**
+ * List every setting with its effective value and source, for display
+ */
+export function describeConfig(loaded: LoadedConfig): ConfigEntry[] {
+  return (Object.keys(configDefaults) as RepoConfigKey[]).map((key) => {
+    const value = loaded.config[key];
+    return value === undefined
+      ? { key, value: configDefaults[key], source: "default" }
+      : {
+          key,
+          value: JSON.stringify(value),
+          source: loaded.sources[key] ?? "unknown",
+        };
+  });
+}
+
+/**
+ * Read the PR template file named by the prTemplate setting
+ */
+export async function readPRTemplate(
+  jj: JjFunctions,
+  templatePath: string,
+): Promise<string> {
+  const fullPath = path.resolve(await jj.getRepoRoot(), templatePath);
+  try {
+    return await readFile(fullPath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Could not read PR template ${fullPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
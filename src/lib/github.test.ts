@@ -0,0 +1,186 @@
+import {
+  createOctokit,
+  GitHubRateLimitError,
+  isIdempotentRequest,
+  toRateLimitError,
+} from "./github.js";
+import { RequestError } from "octokit";
+import assert from "assert/strict";
+
+suite("GitHub client", () => {
+  function requestError(
+    status: number,
+    message: string,
+    headers: Record<string, string>,
+  ): RequestError {
+    return new RequestError(message, status, {
+      request: { method: "POST", url: "https://api.github.com/x", headers: {} },
+      response: {
+        status,
+        url: "https://api.github.com/x",
+        headers,
+        data: {},
+      },
+    });
+  }
+
+  test("only retries idempotent requests", () => {
+    assert.ok(isIdempotentRequest({ method: "GET", url: "/repos/o/r/pulls" }));
+    assert.ok(isIdempotentRequest({ method: "PUT", url: "/x" }));
+    assert.ok(
+      !isIdempotentRequest({ method: "POST", url: "/repos/o/r/pulls" }),
+    );
+    assert.ok(isIdempotentRequest({ method: "PATCH", url: "/x" }));
+    assert.ok(
+      isIdempotentRequest({
+        method: "POST",
+        url: "/graphql",
+        query: "query($owner: String!) { viewer { login } }",
+      }),
+    );
+    assert.ok(
+      !isIdempotentRequest({
+        method: "POST",
+        url: "/graphql",
+        query: "mutation($id: ID!) { markPullRequestReadyForReview }",
+      }),
+    );
+  });
+
+  test("reports when the primary rate limit resets", () => {
+    const reset = new Date(2026, 0, 1, 14, 5);
+    const error = toRateLimitError(
+      requestError(403, "API rate limit exceeded", {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(reset.getTime() / 1000),
+      }),
+    );
+    assert.ok(error instanceof GitHubRateLimitError);
+    assert.equal(error.resetAt.getTime(), reset.getTime());
+    assert.match(error.message, /rate limited until 14:05/);
+  });
+
+  test("uses retry-after for secondary rate limits", () => {
+    const now = new Date(2026, 0, 1, 9, 58, 30);
+    const error = toRateLimitError(
+      requestError(429, "You have exceeded a secondary rate limit", {
+        "retry-after": "120",
+      }),
+      now,
+    );
+    assert.match(error?.message ?? "", /rate limited until 10:00/);
+  });
+
+  test("leaves other errors alone", () => {
+    assert.equal(
+      toRateLimitError(requestError(403, "Resource not accessible", {})),
+      undefined,
+    );
+    assert.equal(
+      toRateLimitError(requestError(502, "Bad Gateway", {})),
+      undefined,
+    );
+    assert.equal(toRateLimitError(new Error("boom")), undefined);
+  });
+
+  // Answers each request with the next of the given responses, recording the methods called
+  function fakeFetch(
+    methods: string[],
+    responses: { status: number; headers?: Record<string, string> }[],
+  ) {
+    return (_url: string, init: { method: string }) => {
+      methods.push(init.method);
+      const { status, headers = {} } = responses.shift() ?? { status: 200 };
+      return Promise.resolve(
+        new Response(JSON.stringify({ message: `HTTP ${status}` }), {
+          status,
+          headers: { "content-type": "application/json", ...headers },
+        }),
+      );
+    };
+  }
+
+  test("retries idempotent requests after server errors", async function () {
+    this.timeout(10000);
+    const octokit = createOctokit("token");
+    const methods: string[] = [];
+
+    const response = await octokit.request("PATCH /repos/o/r/pulls/1", {
+      title: "Add login",
+      request: { fetch: fakeFetch(methods, [{ status: 502 }]) },
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(methods, ["PATCH", "PATCH"]);
+  });
+
+  test("doesn't retry requests that create things", async () => {
+    const octokit = createOctokit("token");
+    const methods: string[] = [];
+
+    await assert.rejects(
+      octokit.request("POST /repos/o/r/pulls", {
+        request: { fetch: fakeFetch(methods, [{ status: 502 }]) },
+      }),
+      (error: RequestError) => error.status === 502,
+    );
+    assert.deepEqual(methods, ["POST"]);
+  });
+
+  test("fails with GitHubRateLimitError when the rate limit resets too late", async () => {
+    const octokit = createOctokit("token");
+    const methods: string[] = [];
+    const reset = Math.ceil(Date.now() / 1000) + 3600;
+
+    await assert.rejects(
+      octokit.request("GET /repos/o/r/pulls", {
+        request: {
+          fetch: fakeFetch(methods, [
+            {
+              status: 403,
+              headers: {
+                "x-ratelimit-remaining": "0",
+                "x-ratelimit-reset": String(reset),
+              },
+            },
+          ]),
+        },
+      }),
+      GitHubRateLimitError,
+    );
+    assert.deepEqual(methods, ["GET"]);
+  });
+
+  test("says when it waits for a rate limit", async () => {
+    const octokit = createOctokit("token");
+    const methods: string[] = [];
+    const printed: unknown[] = [];
+    // Already reset, so it retries right away
+    const reset = Math.floor(Date.now() / 1000) - 10;
+    const consoleError = console.error;
+    console.error = (message: unknown) => printed.push(message);
+    try {
+      const response = await octokit.request("GET /repos/o/r/pulls", {
+        request: {
+          fetch: fakeFetch(methods, [
+            {
+              status: 403,
+              headers: {
+                "x-ratelimit-remaining": "0",
+                "x-ratelimit-reset": String(reset),
+              },
+            },
+          ]),
+        },
+      });
+      assert.equal(response.status, 200);
+    } finally {
+      console.error = consoleError;
+    }
+
+    assert.deepEqual(methods, ["GET", "GET"]);
+    assert.deepEqual(printed, [
+      "⏳ Rate limited by GitHub on GET /repos/o/r/pulls, retrying in 0s",
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+// AIDEV-NOTE: Shared GitHub client - every Octokit used by jj-stack is created by createOctokit, so
+// all API calls get the same handling of rate limits and transient errors:
+// - Rate limits (primary and secondary) wait for retry-after / x-ratelimit-reset and retry, as long
+//   as the wait is short. Otherwise the request fails with a GitHubRateLimitError.
+// - Server errors (5xx) are retried with backoff, but only for idempotent requests. Creating a PR
+//   or a comment is never retried, because the first attempt may have succeeded. Updates (PATCH)
+//   set fields to given values, so repeating them is harmless.
+
+import { Octokit, RequestError } from "octokit";
+import { logger } from "./logger.js";
+
+export const maxRateLimitWaitSeconds = 60;
+const maxRateLimitRetries = 2;
+const maxServerErrorRetries = 3;
+const idempotentMethods = new Set([
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PUT",
+  "PATCH",
+  "DELETE",
+]);
+
+/**
+ * GitHub refused a request because of a rate limit that won't reset soon enough to wait for
+ */
+export class GitHubRateLimitError extends Error {
+  constructor(
+    public readonly resetAt: Date,
+    detail: string,
+  ) {
+    super(`GitHub rate limited until ${formatTime(resetAt)} (${detail})`);
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+function formatTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Whether a request can safely be sent again after a server error
+ * AIDEV-NOTE: GraphQL requests are always POSTs, but queries (unlike mutations) are read-only
+ */
+export function isIdempotentRequest(options: {
+  method?: string;
+  url?: string;
+  query?: unknown;
+}): boolean {
+  const method = (options.method ?? "GET").toUpperCase();
+  if (idempotentMethods.has(method)) {
+    return true;
+  }
+  return (
+    options.url === "/graphql" &&
+    typeof options.query === "string" &&
+    !/^\s*mutation\b/.test(options.query)
+  );
+}
+
+/**
+ * Convert a rate limit response into a GitHubRateLimitError, or return undefined for other errors
+ */
+export function toRateLimitError(
+  error: unknown,
+  now: Date = new Date(),
+): GitHubRateLimitError | undefined {
+  if (
+    !(error instanceof RequestError) ||
+    (error.status !== 403 && error.status !== 429)
+  ) {
+    return undefined;
+  }
+
+  const headers = error.response?.headers ?? {};
+  const retryAfter = Number(headers["retry-after"]);
+  const rateLimitReset = Number(headers["x-ratelimit-reset"]);
+  const isSecondaryLimit = /\bsecondary rate\b/i.test(error.message);
+
+  if (retryAfter > 0) {
+    return new GitHubRateLimitError(
+      new Date(now.getTime() + retryAfter * 1000),
+      isSecondaryLimit ? "secondary rate limit" : "rate limit",
+    );
+  }
+  if (headers["x-ratelimit-remaining"] === "0" && rateLimitReset > 0) {
+    return new GitHubRateLimitError(
+      new Date(rateLimitReset * 1000),
+      "API rate limit exceeded",
+    );
+  }
+  if (isSecondaryLimit) {
+    // GitHub didn't say how long to wait; its docs suggest at least a minute
+    return new GitHubRateLimitError(
+      new Date(now.getTime() + 60 * 1000),
+      "secondary rate limit",
+    );
+  }
+  return undefined;
+}
+
+function onRateLimit(
+  retryAfter: number,
+  options: { method?: string; url?: string },
+  _octokit: unknown,
+  retryCount: number,
+): boolean {
+  const willRetry =
+    retryCount < maxRateLimitRetries && retryAfter <= maxRateLimitWaitSeconds;
+  if (willRetry) {
+    // Shown without DEBUG too, since otherwise the CLI seems to hang while it waits
+    console.error(
+      `⏳ Rate limited by GitHub on ${options.method} ${options.url}, retrying in ${retryAfter}s`,
+    );
+  } else {
+    logger.warn(`Rate limited on ${options.method} ${options.url}, giving up`);
+  }
+  return willRetry;
+}
+
+/**
+ * Create an authenticated Octokit for github.com, or for a GitHub Enterprise Server API URL
+ */
+export function createOctokit(token: string, apiUrl?: string): Octokit {
+  const octokit = new Octokit({
+    auth: token,
+    baseUrl: apiUrl,
+    throttle: {
+      onRateLimit,
+      onSecondaryRateLimit: onRateLimit,
+    },
+    retry: { retries: maxServerErrorRetries },
+  });
+
+  octokit.hook.before("request", (options) => {
+    if (!isIdempotentRequest(options)) {
+      options.request = { ...options.request, retries: 0 };
+    }
+  });
+
+  octokit.hook.error("request", (error) => {
+    throw toRateLimitError(error) ?? error;
+  });
+
+  return octokit;
+}
@@ -0,0 +1,209 @@
+import { buildCachedChangeGraph, reloadBatchSize } from "./graphCache.js";
+import type { JjFunctions } from "./jjUtils.js";
+import type { Bookmark, LogEntry } from "./jjTypes.js";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import assert from "assert/strict";
+
+suite("change graph cache", () => {
+  let repoRoot: string;
+
+  setup(async () => {
+    repoRoot = await mkdtemp(path.join(tmpdir(), "jj-stack-cache-"));
+  });
+
+  teardown(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  function change(id: string, parent: string, bookmarks: string[]): LogEntry {
+    return {
+      commitId: `commit_${id}`,
+      changeId: `change_${id}`,
+      authorName: "Test",
+      authorEmail: "test@example.com",
+      descriptionFirstLine: `Change ${id}`,
+      description: `Change ${id}`,
+      parents: [`commit_${parent}`],
+      trunkParents: parent === "trunk" ? ["commit_trunk"] : [],
+      hasConflict: false,
+      isDivergent: false,
+      localBookmarks: bookmarks,
+      remoteBookmarks: [],
+      isCurrentWorkingCopy: false,
+      authoredAt: new Date("2025-01-01T10:00:00Z"),
+      committedAt: new Date("2025-01-01T10:00:00Z"),
+    };
+  }
+
+  function bookmark(entry: LogEntry): Bookmark {
+    return {
+      name: entry.localBookmarks[0],
+      commitId: entry.commitId,
+      changeId: entry.changeId,
+      hasRemote: false,
+      isSynced: false,
+    };
+  }
+
+  // A repository whose state can be changed between builds, counting the jj queries made
+  function mockRepo(initial: { operationId: string; changes: LogEntry[] }) {
+    const state = { ...initial };
+    const calls = { getMyBookmarks: 0, getBranchChanges: 0, getChanges: 0 };
+    const byCommit = () => new Map(state.changes.map((c) => [c.commitId, c]));
+    const jj: JjFunctions = {
+      gitFetch: () => Promise.resolve(),
+      getMyBookmarks: () => {
+        calls.getMyBookmarks++;
+        return Promise.resolve(
+          state.changes.filter((c) => c.localBookmarks.length).map(bookmark),
+        );
+      },
+      getTrunkBookmarks: () => Promise.resolve([]),
+      getBranchChangesPaginated: (_trunk, to) => {
+        calls.getBranchChanges++;
+        const changes = byCommit();
+        const result: LogEntry[] = [];
+        for (let c = changes.get(to); c; c = changes.get(c.parents[0])) {
+          result.push(c);
+        }
+        return Promise.resolve(result);
+      },
+      getGitRemoteList: () => Promise.resolve([]),
+      getDefaultBranch: () => Promise.resolve("main"),
+      pushBookmark: () => Promise.resolve(),
+      createBookmark: () => Promise.resolve(),
+      deleteBookmark: () => Promise.resolve(),
+      deleteRemoteBookmark: () => Promise.resolve(),
+      getDeletedBookmarks: () => Promise.resolve([]),
+      getBookmarkNames: () => Promise.resolve([]),
+      getRepoRoot: () => Promise.resolve(repoRoot),
+      getConfigList: () => Promise.resolve([]),
+      getChanges: (revset) => {
+        if (revset === "trunk()") {
+          return Promise.resolve([change("trunk", "root", [])]);
+        }
+        calls.getChanges++;
+        const changes = byCommit();
+        const ids = [...revset.matchAll(/present\((\w+)\)/g)].map((m) => m[1]);
+        return Promise.resolve(
+          ids.flatMap((id) => (changes.has(id) ? [changes.get(id)!] : [])),
+        );
+      },
+      getOperationId: () => Promise.resolve(state.operationId),
+    };
+    return { jj, state, calls };
+  }
+
+  function stackNames(
+    graph: Awaited<ReturnType<typeof buildCachedChangeGraph>>,
+  ) {
+    return graph.stacks.map((stack) =>
+      stack.segments.map((segment) => segment.bookmarks[0].name),
+    );
+  }
+
+  test("reuses the whole graph while the operation is unchanged", async () => {
+    const { jj, calls } = mockRepo({
+      operationId: "op1",
+      changes: [change("a", "trunk", ["auth"]), change("b", "a", ["profile"])],
+    });
+
+    const first = await buildCachedChangeGraph(jj);
+    assert.deepEqual(calls, {
+      getMyBookmarks: 1,
+      getBranchChanges: 2,
+      getChanges: 0,
+    });
+
+    const second = await buildCachedChangeGraph(jj);
+    assert.deepEqual(calls, {
+      getMyBookmarks: 1,
+      getBranchChanges: 2,
+      getChanges: 0,
+    });
+    assert.deepEqual(stackNames(second), stackNames(first));
+    assert.deepEqual(second.stacks, first.stacks);
+  });
+
+  test("only looks up bookmarks that moved", async () => {
+    const a = change("a", "trunk", ["auth"]);
+    const { jj, state, calls } = mockRepo({
+      operationId: "op1",
+      changes: [
+        a,
+        change("b", "a", ["profile"]),
+        change("s", "trunk", ["settings"]),
+      ],
+    });
+    await buildCachedChangeGraph(jj);
+    assert.equal(calls.getBranchChanges, 3);
+
+    // profile moves to a new commit, and auth is renamed to login
+    state.operationId = "op2";
+    state.changes = [
+      { ...a, localBookmarks: ["login"] },
+      change("c", "a", ["profile"]),
+      change("s", "trunk", ["settings"]),
+    ];
+    const graph = await buildCachedChangeGraph(jj);
+
+    // auth/login and settings didn't move, so only profile was looked up
+    assert.equal(calls.getMyBookmarks, 2);
+    assert.equal(calls.getBranchChanges, 4);
+    assert.equal(calls.getChanges, 1);
+    assert.deepEqual(stackNames(graph).sort(), [
+      ["login", "profile"],
+      ["settings"],
+    ]);
+  });
+
+  test("looks up bookmarks with a single query when it can", async () => {
+    const { jj, state, calls } = mockRepo({
+      operationId: "op1",
+      changes: [change("a", "trunk", ["auth"]), change("b", "a", ["profile"])],
+    });
+    let ancestryQueries = 0;
+    jj.getStackAncestry = () => {
+      ancestryQueries++;
+      return Promise.resolve([...state.changes].reverse());
+    };
+
+    const first = await buildCachedChangeGraph(jj);
+    assert.equal(ancestryQueries, 1);
+    assert.equal(calls.getBranchChanges, 0);
+    assert.deepEqual(stackNames(first), [["auth", "profile"]]);
+
+    // Nothing moved, so the cached answers are enough
+    state.operationId = "op2";
+    await buildCachedChangeGraph(jj);
+    assert.equal(ancestryQueries, 1);
+    assert.equal(calls.getChanges, 1);
+  });
+
+  test("reloads big graphs in batches", async () => {
+    const changes: LogEntry[] = [];
+    for (let i = 0; i < reloadBatchSize * 1.5; i++) {
+      changes.push(change(`${i}`, "trunk", [`bookmark-${i}`]));
+    }
+    const { jj, state, calls } = mockRepo({ operationId: "op1", changes });
+    const revsetSizes: number[] = [];
+    const { getChanges } = jj;
+    jj.getChanges = (revset) => {
+      revsetSizes.push(revset.split("|").length);
+      return getChanges(revset);
+    };
+    await buildCachedChangeGraph(jj);
+
+    state.operationId = "op2";
+    revsetSizes.length = 0;
+    const graph = await buildCachedChangeGraph(jj);
+
+    // The trunk() lookup, then the two batches
+    assert.deepEqual(revsetSizes, [1, reloadBatchSize, reloadBatchSize / 2]);
+    assert.equal(calls.getChanges, 2);
+    assert.equal(calls.getBranchChanges, changes.length);
+    assert.equal(graph.stacks.length, changes.length);
+  });
+});
@@ -0,0 +1,205 @@
+// AIDEV-NOTE: Change graph cache
+// buildChangeGraph reads every change in every stack with `jj log`, which takes seconds in big
+// repos. The answers it got from jj are saved in .jj/jj-stack/change-graph.json, along with the jj
+// operation they were read at:
+// - If the operation, trunk() and the included bookmarks haven't changed, the graph is rebuilt
+//   from the saved answers without running jj again
+// - Otherwise, the changes between trunk() and a bookmark are reused if neither has moved, since
+//   commits never change. What can change is which bookmarks point at them, the working copy and
+//   divergence, so all the reused changes are reloaded with one `jj log` per thousand changes.
+//   Bookmarks that moved are looked up as usual, with getStackAncestry if it's available.
+// The cache is only an optimization: if it can't be read or written, the graph is built from jj.
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import * as v from "valibot";
+import type { Bookmark, ChangeGraph, LogEntry } from "./jjTypes.js";
+import {
+  branchChangesFromAncestry,
+  buildChangeGraph,
+  parseLogEntry,
+  type JjFunctions,
+} from "./jjUtils.js";
+import { logger } from "./logger.js";
+
+export const graphCacheFileName = "change-graph.json";
+// About 25KiB of revset per batch with jj's short commit ids
+export const reloadBatchSize = 1000;
+
+const BookmarkSchema = v.object({
+  name: v.string(),
+  commitId: v.string(),
+  changeId: v.string(),
+  hasRemote: v.boolean(),
+  isSynced: v.boolean(),
+  conflictedTargets: v.optional(v.array(v.string())),
+  isForeign: v.optional(v.boolean()),
+});
+
+const GraphCacheSchema = v.object({
+  version: v.literal(1),
+  operationId: v.string(),
+  trunk: v.string(), // The commits trunk() resolved to
+  stackedRevset: v.string(), // Whose bookmarks were included
+  bookmarks: v.array(BookmarkSchema),
+  // The changes returned for each traversal query, keyed by "<to> <lastSeenCommit>"
+  queries: v.record(v.string(), v.array(v.unknown())),
+});
+type GraphCache = v.InferOutput<typeof GraphCacheSchema>;
+
+async function readGraphCache(
+  cachePath: string,
+): Promise<GraphCache | undefined> {
+  try {
+    return v.parse(
+      GraphCacheSchema,
+      JSON.parse(await readFile(cachePath, "utf8")),
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      logger.debug(`Ignoring unreadable change graph cache: ${String(error)}`);
+    }
+    return undefined;
+  }
+}
+
+function queryKey(to: string, lastSeenCommit?: string): string {
+  return `${to} ${lastSeenCommit ?? ""}`;
+}
+
+/**
+ * Reload the cached changes of queries for bookmarks that haven't moved
+ * @returns The reusable answers, by query key
+ */
+async function reloadUnmovedQueries(
+  jj: JjFunctions,
+  cache: GraphCache,
+  bookmarks: Bookmark[],
+): Promise<Map<string, LogEntry[]>> {
+  const bookmarkCommits = new Set(bookmarks.map((b) => b.commitId));
+  const reusable = Object.entries(cache.queries)
+    .filter(([key]) => bookmarkCommits.has(key.split(" ")[0]))
+    .map(([key, changes]) => ({
+      key,
+      commitIds: changes.map((change) => parseLogEntry(change).commitId),
+    }));
+
+  const commitIds = [...new Set(reusable.flatMap((query) => query.commitIds))];
+  if (commitIds.length === 0) {
+    return new Map();
+  }
+
+  // AIDEV-NOTE: The revset is passed to jj as a single argument, which the OS limits in size
+  // (128KiB on Linux), so big graphs are reloaded in batches
+  const current = new Map<string, LogEntry>();
+  for (let i = 0; i < commitIds.length; i += reloadBatchSize) {
+    const revset = commitIds
+      .slice(i, i + reloadBatchSize)
+      .map((id) => `present(${id})`)
+      .join(" | ");
+    for (const change of await jj.getChanges(revset)) {
+      current.set(change.commitId, change);
+    }
+  }
+
+  const answers = new Map<string, LogEntry[]>();
+  for (const { key, commitIds } of reusable) {
+    // Skip queries whose commits are gone, e.g. after `jj util gc`
+    if (commitIds.every((id) => current.has(id))) {
+      answers.set(
+        key,
+        commitIds.map((id) => current.get(id)!),
+      );
+    }
+  }
+  return answers;
+}
+
+/**
+ * Build the change graph, reusing what can be reused from the last time it was built
+ */
+export async function buildCachedChangeGraph(
+  jj: JjFunctions,
+): Promise<ChangeGraph> {
+  const operationId = await jj.getOperationId();
+  const trunk = (await jj.getChanges("trunk()"))
+    .map((change) => change.commitId)
+    .join(" ");
+  const cachePath = path.join(
+    await jj.getRepoRoot(),
+    ".jj",
+    "jj-stack",
+    graphCacheFileName,
+  );
+
+  const cached = await readGraphCache(cachePath);
+  const stackedRevset = jj.getStackedRevset?.() ?? "mine()";
+  const cache =
+    cached?.trunk === trunk && cached.stackedRevset === stackedRevset
+      ? cached
+      : undefined;
+
+  let bookmarks: Bookmark[];
+  let answers: Map<string, LogEntry[]>;
+  if (cache?.operationId === operationId) {
+    logger.debug("Reusing the cached change graph");
+    bookmarks = cache.bookmarks;
+    answers = new Map(
+      Object.entries(cache.queries).map(([key, changes]) => [
+        key,
+        changes.map(parseLogEntry),
+      ]),
+    );
+  } else {
+    bookmarks = await jj.getMyBookmarks();
+    answers = cache
+      ? await reloadUnmovedQueries(jj, cache, bookmarks)
+      : new Map<string, LogEntry[]>();
+    logger.debug(`Reusing ${answers.size} cached change graph queries`);
+  }
+
+  // Queries that can't be answered from the cache go to jj, with a single getStackAncestry query
+  // for all of them if it's available
+  let lookUp: Promise<JjFunctions["getBranchChangesPaginated"]> | undefined;
+  const getBranchChanges: JjFunctions["getBranchChangesPaginated"] = async (
+    ...query
+  ) => {
+    const { getStackAncestry } = jj;
+    lookUp ??= getStackAncestry
+      ? getStackAncestry().then(branchChangesFromAncestry)
+      : Promise.resolve(jj.getBranchChangesPaginated);
+    return (await lookUp)(...query);
+  };
+
+  const queries: GraphCache["queries"] = {};
+  const changeGraph = await buildChangeGraph({
+    ...jj,
+    getMyBookmarks: () => Promise.resolve(bookmarks),
+    getBranchChangesPaginated: async (trunkRev, to, lastSeenCommit) => {
+      const key = queryKey(to, lastSeenCommit);
+      const changes =
+        answers.get(key) ??
+        (await getBranchChanges(trunkRev, to, lastSeenCommit));
+      queries[key] = changes;
+      return changes;
+    },
+    getStackAncestry: undefined,
+  });
+
+  const newCache: GraphCache = {
+    version: 1,
+    operationId,
+    trunk,
+    stackedRevset,
+    bookmarks,
+    queries,
+  };
+  try {
+    await mkdir(path.dirname(cachePath), { recursive: true });
+    await writeFile(cachePath, JSON.stringify(newCache));
+  } catch (error) {
+    logger.debug(`Failed to save the change graph cache: ${String(error)}`);
+  }
+
+  return changeGraph;
+}
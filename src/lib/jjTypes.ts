@@ -4,7 +4,11 @@ export interface LogEntry {
   authorName: string;
   authorEmail: string;
   descriptionFirstLine: string;
+  description: string; // Full description, including the first line
   parents: string[];
+  trunkParents: string[]; // The parents that are ancestors of trunk(), e.g. after merging trunk in
+  hasConflict: boolean; // Whether the change has unresolved conflicts
+  isDivergent: boolean; // Whether the change id is shared by more than one visible commit
   localBookmarks: string[];
   remoteBookmarks: string[];
   isCurrentWorkingCopy: boolean;
@@ -18,6 +22,8 @@ export interface Bookmark {
   changeId: string;
   hasRemote: boolean;
   isSynced: boolean;
+  conflictedTargets?: string[]; // AIDEV-NOTE: Set if the local bookmark is conflicted: the commits it points at. commitId and changeId are then empty.
+  isForeign?: boolean; // AIDEV-NOTE: Set if the bookmark is on someone else's change (see JjConfig.includeBookmarks). Stacks can build on it, but it's never pushed and its PR is never edited.
 }
 
 export interface BookmarkSegment {
@@ -43,10 +49,38 @@ export interface ChangeGraph {
   stackLeafs: Set<string>;
   stackRoots: Set<string>;
   stacks: BranchStack[];
-  excludedBookmarkCount: number; // AIDEV-NOTE: Count of bookmarks excluded due to merge commits
+  excludedBookmarkCount: number; // AIDEV-NOTE: Count of excluded bookmarks, not counting those already on trunk
+  excludedBookmarks: ExcludedBookmark[]; // Every bookmark left out of the stacks, including those on trunk
+}
+
+// AIDEV-NOTE: Why a bookmark was left out of the change graph
+// "on-trunk" and "conflicted" describe the bookmark itself; the others point at the change that
+// caused the exclusion, which is the last entry of ExcludedBookmark.path.
+export type ExclusionReason =
+  | { kind: "merge-commit"; commitId: string } // The bookmark's own segment contains a merge
+  | { kind: "tainted-by-ancestor"; ancestorBookmark: string; commitId: string } // The problem is below another bookmark
+  | { kind: "on-trunk" } // The bookmark is on an ancestor of trunk(), e.g. after its PR was merged
+  | { kind: "conflicted"; commitIds: string[] } // The bookmark points at more than one commit
+  | { kind: "divergent"; changeId: string }; // A change in the bookmark's own segment has more than one visible commit
+
+// AIDEV-NOTE: A bookmark left out of the change graph because its stack can't be submitted
+export interface ExcludedBookmark {
+  name: string;
+  reason: ExclusionReason;
+  path: LogEntry[]; // From the bookmark's change down to the offending change, newest first; empty if not applicable
 }
 
 // AIDEV-NOTE: Configuration for JJ binary and other settings
 export interface JjConfig {
   binaryPath: string;
+  trunkRevset?: string; // Overrides jj's trunk() alias for every jj command we run
+  defaultBranch?: string; // Skips detecting the default branch from trunk()
+  includeBookmarks?: string; // Revset of other people's changes whose bookmarks are stacked on too
+}
+
+// AIDEV-NOTE: One effective `jj config list` entry; value is in TOML syntax
+export interface JjConfigEntry {
+  name: string;
+  value: string;
+  source: string; // "user", "repo", "env", "cli", ...
 }
@@ -1,4 +1,6 @@
 import {
+  bookmarkNameFromRevset,
+  branchChangesFromAncestry,
   buildChangeGraph,
   isGitHubRemote,
   filterGitHubRemotes,
@@ -8,6 +10,16 @@ import type { LogEntry, Bookmark } from "./jjTypes.js";
 import assert from "assert/strict";
 
 suite("stack detection", () => {
+  // Build the graph with a single jj log query for all the changes, like the CLI does
+  function buildWithStackAncestry(jj: JjFunctions, ancestry: LogEntry[]) {
+    return buildChangeGraph({
+      ...jj,
+      getBranchChangesPaginated: () =>
+        Promise.reject(new Error("Should use getStackAncestry")),
+      getStackAncestry: () => Promise.resolve(ancestry),
+    });
+  }
+
   test("simple", async () => {
     console.log("\n=== Testing buildChangeGraph branching scenario ===");
 
@@ -45,7 +57,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change A (trunk)",
+        description: "Change A (trunk)",
         parents: [],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: [],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -58,7 +74,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change B",
+        description: "Change B",
         parents: ["commit_a"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark3"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -71,7 +91,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change C",
+        description: "Change C",
         parents: ["commit_b"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark1"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -84,7 +108,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change D",
+        description: "Change D",
         parents: ["commit_b"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark2"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -100,6 +128,8 @@ suite("stack detection", () => {
 
       getMyBookmarks: () => Promise.resolve(mockBookmarks),
 
+      getTrunkBookmarks: () => Promise.resolve([]),
+
       getBranchChangesPaginated: (_from: string, to: string) => {
         // Return changes between trunk (commit_a) and target commit
         if (to === "commit_c") {
@@ -121,6 +151,15 @@ suite("stack detection", () => {
         ]),
       getDefaultBranch: () => Promise.resolve("main"),
       pushBookmark: () => Promise.resolve(),
+      createBookmark: () => Promise.resolve(),
+      deleteBookmark: () => Promise.resolve(),
+      deleteRemoteBookmark: () => Promise.resolve(),
+      getDeletedBookmarks: () => Promise.resolve([]),
+      getBookmarkNames: () => Promise.resolve([]),
+      getRepoRoot: () => Promise.resolve("/repo"),
+      getConfigList: () => Promise.resolve([]),
+      getChanges: () => Promise.resolve([]),
+      getOperationId: () => Promise.resolve("op"),
     };
 
     const result = await buildChangeGraph(mockJj);
@@ -315,7 +354,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change A (trunk)",
+        description: "Change A (trunk)",
         parents: [],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: [],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -328,7 +371,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change B",
+        description: "Change B",
         parents: ["commit_a"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark1"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -341,7 +388,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change C",
+        description: "Change C",
         parents: ["commit_b"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark2"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -354,7 +405,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change D",
+        description: "Change D",
         parents: ["commit_c"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark3"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -367,7 +422,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change E",
+        description: "Change E",
         parents: ["commit_c"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark4"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -380,7 +439,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change F",
+        description: "Change F",
         parents: ["commit_e"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark5"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -393,7 +456,11 @@ suite("stack detection", () => {
         authorName: "Test",
         authorEmail: "test@example.com",
         descriptionFirstLine: "Change G",
+        description: "Change G",
         parents: ["commit_e"],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
         localBookmarks: ["bookmark6"],
         remoteBookmarks: [],
         isCurrentWorkingCopy: false,
@@ -407,6 +474,8 @@ suite("stack detection", () => {
 
       getMyBookmarks: () => Promise.resolve(mockBookmarks),
 
+      getTrunkBookmarks: () => Promise.resolve([]),
+
       getBranchChangesPaginated: (_from: string, to: string) => {
         // Return changes between trunk (commit_a) and target commit
         if (to === "commit_b") {
@@ -455,6 +524,15 @@ suite("stack detection", () => {
         ]),
       getDefaultBranch: () => Promise.resolve("main"),
       pushBookmark: () => Promise.resolve(),
+      createBookmark: () => Promise.resolve(),
+      deleteBookmark: () => Promise.resolve(),
+      deleteRemoteBookmark: () => Promise.resolve(),
+      getDeletedBookmarks: () => Promise.resolve([]),
+      getBookmarkNames: () => Promise.resolve([]),
+      getRepoRoot: () => Promise.resolve("/repo"),
+      getConfigList: () => Promise.resolve([]),
+      getChanges: () => Promise.resolve([]),
+      getOperationId: () => Promise.resolve("op"),
     };
 
     const result = await buildChangeGraph(mockJj);
@@ -590,6 +668,233 @@ suite("stack detection", () => {
         bookmark6Changes[0].changeId === "change_g",
       `Expected bookmark6 segmentChanges to contain only change_g`,
     );
+
+    // trunk()..(mine() & bookmarks()) is G, F, E, D, C, B
+    assert.deepEqual(
+      await buildWithStackAncestry(mockJj, mockLogEntries.slice(1).reverse()),
+      result,
+    );
+  });
+
+  test("merges", async () => {
+    // Setup: trunk -> B (base) -> M (merged-trunk), where M also merges trunk commit T
+    //                          \-> X (tangled) -> Z (above), where X also merges stack commit Y
+    //        S (shipped) is an ancestor of trunk
+    function change(
+      id: string,
+      parents: string[],
+      trunkParents: string[],
+      localBookmarks: string[],
+    ): LogEntry {
+      return {
+        commitId: `commit_${id}`,
+        changeId: `change_${id}`,
+        authorName: "Test",
+        authorEmail: "test@example.com",
+        descriptionFirstLine: `Change ${id}`,
+        description: `Change ${id}`,
+        parents: parents.map((p) => `commit_${p}`),
+        trunkParents: trunkParents.map((p) => `commit_${p}`),
+        hasConflict: false,
+        isDivergent: false,
+        localBookmarks,
+        remoteBookmarks: [],
+        isCurrentWorkingCopy: false,
+        authoredAt: new Date(),
+        committedAt: new Date(),
+      };
+    }
+    const b = change("b", ["a"], ["a"], ["base"]);
+    const m = change("m", ["b", "t"], ["t"], ["merged-trunk"]);
+    const y = change("y", ["a"], ["a"], []);
+    const x = change("x", ["b", "y"], [], ["tangled"]);
+    const z = change("z", ["x"], [], ["above"]);
+    const changesTo: Record<string, LogEntry[]> = {
+      commit_b: [b],
+      commit_m: [m, b],
+      commit_x: [x, y, b],
+      commit_z: [z, x, y, b],
+    };
+
+    const mockJj: JjFunctions = {
+      gitFetch: () => Promise.resolve(),
+      getMyBookmarks: () =>
+        Promise.resolve(
+          [m, b, z, x, change("s", [], [], ["shipped"])].map((c) => ({
+            name: c.localBookmarks[0],
+            commitId: c.commitId,
+            changeId: c.changeId,
+            hasRemote: false,
+            isSynced: false,
+          })),
+        ),
+      getTrunkBookmarks: () => Promise.resolve([]),
+      getBranchChangesPaginated: (_trunk: string, to: string) =>
+        Promise.resolve(changesTo[to] ?? []),
+      getGitRemoteList: () => Promise.resolve([]),
+      getDefaultBranch: () => Promise.resolve("main"),
+      pushBookmark: () => Promise.resolve(),
+      createBookmark: () => Promise.resolve(),
+      deleteBookmark: () => Promise.resolve(),
+      deleteRemoteBookmark: () => Promise.resolve(),
+      getDeletedBookmarks: () => Promise.resolve([]),
+      getBookmarkNames: () => Promise.resolve([]),
+      getRepoRoot: () => Promise.resolve("/repo"),
+      getConfigList: () => Promise.resolve([]),
+      getChanges: () => Promise.resolve([]),
+      getOperationId: () => Promise.resolve("op"),
+    };
+
+    const result = await buildChangeGraph(mockJj);
+
+    assert.deepEqual(
+      result.stacks.map((stack) =>
+        stack.segments.map((segment) => segment.bookmarks[0].name),
+      ),
+      [["base", "merged-trunk"]],
+    );
+    assert.equal(result.excludedBookmarkCount, 2);
+    assert.deepEqual(result.excludedBookmarks, [
+      {
+        name: "above",
+        reason: {
+          kind: "tainted-by-ancestor",
+          ancestorBookmark: "tangled",
+          commitId: "commit_x",
+        },
+        path: [z, x],
+      },
+      {
+        name: "tangled",
+        reason: { kind: "merge-commit", commitId: "commit_x" },
+        path: [x],
+      },
+      { name: "shipped", reason: { kind: "on-trunk" }, path: [] },
+    ]);
+
+    assert.deepEqual(
+      await buildWithStackAncestry(mockJj, [z, x, m, y, b]),
+      result,
+    );
+  });
+
+  test("conflicts and divergence", async () => {
+    // Setup: trunk -> B (base, has conflicts) -> D (divergent) -> C (clean)
+    //        plus a conflicted bookmark "torn"
+    function change(id: string, parent: string, overrides: Partial<LogEntry>) {
+      return {
+        commitId: `commit_${id}`,
+        changeId: `change_${id}`,
+        authorName: "Test",
+        authorEmail: "test@example.com",
+        descriptionFirstLine: `Change ${id}`,
+        description: `Change ${id}`,
+        parents: [`commit_${parent}`],
+        trunkParents: [],
+        hasConflict: false,
+        isDivergent: false,
+        localBookmarks: [],
+        remoteBookmarks: [],
+        isCurrentWorkingCopy: false,
+        authoredAt: new Date(),
+        committedAt: new Date(),
+        ...overrides,
+      };
+    }
+    const b = change("b", "a", {
+      trunkParents: ["commit_a"],
+      hasConflict: true,
+      localBookmarks: ["base"],
+    });
+    const d = change("d", "b", { isDivergent: true });
+    const c = change("c", "d", { localBookmarks: ["clean"] });
+    const changesTo: Record<string, LogEntry[]> = {
+      commit_b: [b],
+      commit_c: [c, d, b],
+    };
+
+    const mockJj: JjFunctions = {
+      gitFetch: () => Promise.resolve(),
+      getMyBookmarks: () =>
+        Promise.resolve([
+          ...[b, c].map((entry) => ({
+            name: entry.localBookmarks[0],
+            commitId: entry.commitId,
+            changeId: entry.changeId,
+            hasRemote: false,
+            isSynced: false,
+          })),
+          {
+            name: "torn",
+            commitId: "",
+            changeId: "",
+            hasRemote: false,
+            isSynced: false,
+            conflictedTargets: ["commit_e", "commit_f"],
+          },
+        ]),
+      getTrunkBookmarks: () => Promise.resolve([]),
+      getBranchChangesPaginated: (_trunk: string, to: string) =>
+        Promise.resolve(changesTo[to] ?? []),
+      getGitRemoteList: () => Promise.resolve([]),
+      getDefaultBranch: () => Promise.resolve("main"),
+      pushBookmark: () => Promise.resolve(),
+      createBookmark: () => Promise.resolve(),
+      deleteBookmark: () => Promise.resolve(),
+      deleteRemoteBookmark: () => Promise.resolve(),
+      getDeletedBookmarks: () => Promise.resolve([]),
+      getBookmarkNames: () => Promise.resolve([]),
+      getRepoRoot: () => Promise.resolve("/repo"),
+      getConfigList: () => Promise.resolve([]),
+      getChanges: () => Promise.resolve([]),
+      getOperationId: () => Promise.resolve("op"),
+    };
+
+    const result = await buildChangeGraph(mockJj);
+
+    // Changes with conflicts stay in the graph, so they can be shown and fixed
+    assert.deepEqual(
+      result.stacks.map((stack) =>
+        stack.segments.map((segment) => segment.bookmarks[0].name),
+      ),
+      [["base"]],
+    );
+    assert.deepEqual(result.excludedBookmarks, [
+      {
+        name: "clean",
+        reason: { kind: "divergent", changeId: "change_d" },
+        path: [c, d],
+      },
+      {
+        name: "torn",
+        reason: { kind: "conflicted", commitIds: ["commit_e", "commit_f"] },
+        path: [],
+      },
+    ]);
+
+    assert.deepEqual(await buildWithStackAncestry(mockJj, [c, d, b]), result);
+  });
+
+  test("single query pages like jj log", async () => {
+    // trunk -> 0 -> 1 -> ... -> 149, newest first
+    const ancestry = Array.from({ length: 150 }, (_, i) => ({
+      commitId: `commit_${i}`,
+      parents: [i === 0 ? "commit_trunk" : `commit_${i - 1}`],
+    })).reverse() as LogEntry[];
+    const getBranchChanges = branchChangesFromAncestry(ancestry);
+
+    const firstPage = await getBranchChanges("trunk()", "commit_120");
+    assert.equal(firstPage.length, 100);
+    assert.equal(firstPage[0].commitId, "commit_120");
+    const secondPage = await getBranchChanges(
+      "trunk()",
+      "commit_120",
+      firstPage[99].commitId,
+    );
+    assert.deepEqual(
+      secondPage.map((change) => change.commitId),
+      Array.from({ length: 21 }, (_, i) => `commit_${20 - i}`),
+    );
   });
 });
 
@@ -619,6 +924,17 @@ suite("remote validation", () => {
     assert.ok(!isGitHubRemote("invalid-url"));
   });
 
+  test("isGitHubRemote accepts configured GitHub Enterprise hosts", () => {
+    const hosts = ["git.corp.example"];
+    assert.ok(isGitHubRemote("https://git.corp.example/owner/repo.git", hosts));
+    assert.ok(isGitHubRemote("git@git.corp.example:owner/repo.git", hosts));
+    assert.ok(
+      isGitHubRemote("ssh://git@GIT.corp.example:2222/owner/repo.git", hosts),
+    );
+    assert.ok(!isGitHubRemote("https://git.corp.example/owner/repo.git"));
+    assert.ok(!isGitHubRemote("https://gitlab.com/owner/repo.git", hosts));
+  });
+
   test("filterGitHubRemotes filters correctly", () => {
     const remotes = [
       { name: "origin", url: "https://github.com/owner/repo.git" },
@@ -651,3 +967,13 @@ suite("remote validation", () => {
     assert.equal(githubRemotes.length, 0);
   });
 });
+
+suite("trunk revsets", () => {
+  test("bookmarkNameFromRevset recognizes bookmarks", () => {
+    assert.equal(bookmarkNameFromRevset("release-1.2"), "release-1.2");
+    assert.equal(bookmarkNameFromRevset("release/1.2@origin"), "release/1.2");
+    assert.equal(bookmarkNameFromRevset("trunk()"), undefined);
+    assert.equal(bookmarkNameFromRevset("latest(release-*)"), undefined);
+    assert.equal(bookmarkNameFromRevset("main | release"), undefined);
+  });
+});
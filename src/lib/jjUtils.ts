@@ -6,6 +6,9 @@ import type {
   ChangeGraph,
   BookmarkSegment,
   JjConfig,
+  ExcludedBookmark,
+  ExclusionReason,
+  JjConfigEntry,
 } from "./jjTypes.js";
 import * as v from "valibot";
 import { logger } from "./logger.js";
@@ -14,6 +17,8 @@ import { logger } from "./logger.js";
 export type JjFunctions = {
   gitFetch: () => Promise<void>;
   getMyBookmarks: () => Promise<Bookmark[]>;
+  // The bookmarks getMyBookmarks leaves out because they're on trunk(), e.g. after a fast-forward merge
+  getTrunkBookmarks: () => Promise<Bookmark[]>;
   getBranchChangesPaginated: (
     from: string,
     to: string,
@@ -22,29 +27,68 @@ export type JjFunctions = {
   getGitRemoteList: () => Promise<Array<{ name: string; url: string }>>;
   getDefaultBranch: () => Promise<string>;
   pushBookmark: (bookmarkName: string, remote: string) => Promise<void>;
+  createBookmark: (bookmarkName: string, revision: string) => Promise<void>;
+  deleteBookmark: (bookmarkName: string) => Promise<void>;
+  // Pushes the deletion of a bookmark that was deleted locally, deleting the branch on the remote
+  deleteRemoteBookmark: (bookmarkName: string, remote: string) => Promise<void>;
+  // The user's own bookmarks that were deleted locally but are still tracked on a remote
+  getDeletedBookmarks: () => Promise<string[]>;
+  // The names of all bookmarks, local or on any remote, including ones outside the stack
+  getBookmarkNames: () => Promise<string[]>;
+  getRepoRoot: () => Promise<string>;
+  getConfigList: (name: string) => Promise<JjConfigEntry[]>;
+  getChanges: (revset: string) => Promise<LogEntry[]>;
+  getOperationId: () => Promise<string>;
+  // When set, buildChangeGraph fetches every change it needs with this single query instead of
+  // calling getBranchChangesPaginated for each bookmark
+  getStackAncestry?: () => Promise<LogEntry[]>;
+  // The revset of changes whose bookmarks getMyBookmarks returns, when it isn't just mine()
+  getStackedRevset?: () => string;
 };
 
 /**
- * Check if a remote URL points to GitHub.com
- * Supports both HTTPS and SSH formats:
+ * Get the lowercased host of a remote URL
+ * Supports HTTPS, ssh:// and scp-like SSH formats:
  * - HTTPS: https://github.com/owner/repo.git
+ * - SSH: ssh://git@github.com:22/owner/repo.git
  * - SSH: git@github.com:owner/repo.git
  */
-export function isGitHubRemote(remoteUrl: string): boolean {
+export function getRemoteHost(remoteUrl: string): string | undefined {
+  const match = /^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@/]+@)?([^:/@]+)[:/]/i.exec(
+    remoteUrl,
+  );
+  return match?.[1].toLowerCase();
+}
+
+/**
+ * Check if a remote URL points to GitHub.com, or to one of the given GitHub Enterprise hosts
+ */
+export function isGitHubRemote(
+  remoteUrl: string,
+  enterpriseHosts: string[] = [],
+): boolean {
+  const host = getRemoteHost(remoteUrl);
+  if (!host) {
+    return false;
+  }
   // Match github.com (including subdomains like company.github.com)
-  // This supports both HTTPS and SSH formats:
-  // HTTPS: https://github.com/owner/repo.git, https://company.github.com/owner/repo.git
-  // SSH: git@github.com:owner/repo.git, git@company.github.com:owner/repo.git
-  return /github\.com[:/]/.test(remoteUrl);
+  return (
+    host === "github.com" ||
+    host.endsWith(".github.com") ||
+    enterpriseHosts.some((h) => h.toLowerCase() === host)
+  );
 }
 
 /**
- * Filter a list of remotes to only include GitHub.com remotes
+ * Filter a list of remotes to only include GitHub remotes
  */
 export function filterGitHubRemotes(
   remotes: Array<{ name: string; url: string }>,
+  enterpriseHosts: string[] = [],
 ): Array<{ name: string; url: string }> {
-  return remotes.filter((remote) => isGitHubRemote(remote.url));
+  return remotes.filter((remote) =>
+    isGitHubRemote(remote.url, enterpriseHosts),
+  );
 }
 
 /**
@@ -53,16 +97,64 @@ export function filterGitHubRemotes(
 export function createJjFunctions(config: JjConfig): JjFunctions {
   return {
     gitFetch: () => gitFetch(config),
-    getMyBookmarks: () => getMyBookmarks(config),
+    getMyBookmarks: () =>
+      getBookmarks(config, `(${stackedRevset(config)}) ~ trunk()`),
+    getTrunkBookmarks: () =>
+      getBookmarks(config, `(${stackedRevset(config)}) & trunk()`),
     getBranchChangesPaginated: (from, to, lastSeenCommit) =>
       getBranchChangesPaginated(config, from, to, lastSeenCommit),
     getGitRemoteList: () => getGitRemoteList(config),
-    getDefaultBranch: () => getDefaultBranch(config),
+    getDefaultBranch: () =>
+      config.defaultBranch
+        ? Promise.resolve(config.defaultBranch)
+        : getDefaultBranch(config),
     pushBookmark: (bookmarkName, remote) =>
       pushBookmark(config, bookmarkName, remote),
+    createBookmark: (bookmarkName, revision) =>
+      createBookmark(config, bookmarkName, revision),
+    deleteBookmark: (bookmarkName) => deleteBookmark(config, bookmarkName),
+    deleteRemoteBookmark: (bookmarkName, remote) =>
+      deleteRemoteBookmark(config, bookmarkName, remote),
+    getDeletedBookmarks: () => getDeletedBookmarks(config),
+    getBookmarkNames: () => getBookmarkNames(config),
+    getRepoRoot: () => getRepoRoot(config),
+    getConfigList: (name) => getConfigList(config, name),
+    getChanges: (revset) => logChanges(config, revset, "trunk()"),
+    getOperationId: () => getOperationId(config),
+    getStackAncestry: () =>
+      logChanges(
+        config,
+        `trunk()..((${stackedRevset(config)}) & bookmarks())`,
+        "trunk()",
+      ),
+    getStackedRevset: () => stackedRevset(config),
   };
 }
 
+/**
+ * The changes whose bookmarks are stacked: the user's own, and any others the config includes
+ */
+function stackedRevset(config: JjConfig): string {
+  return config.includeBookmarks
+    ? `mine() | (${config.includeBookmarks})`
+    : "mine()";
+}
+
+/**
+ * Arguments passed to every jj invocation
+ * AIDEV-NOTE: A configured trunk revset is applied by overriding the trunk() alias, so that every
+ * revset we build (and the change graph, which stops at trunk()) agrees on where trunk is
+ */
+function globalArgs(config: JjConfig): string[] {
+  if (!config.trunkRevset) {
+    return [];
+  }
+  return [
+    "--config",
+    `revset-aliases."trunk()"=${JSON.stringify(config.trunkRevset)}`,
+  ];
+}
+
 /**
  * Fetch latest changes from all git remotes
  */
@@ -70,7 +162,7 @@ function gitFetch(config: JjConfig): Promise<void> {
   return new Promise((resolve, reject) => {
     execFile(
       config.binaryPath,
-      ["git", "fetch", "--all-remotes"],
+      [...globalArgs(config), "git", "fetch", "--all-remotes"],
       (error, stdout, stderr) => {
         if (error) {
           logger.error(
@@ -90,30 +182,43 @@ function gitFetch(config: JjConfig): Promise<void> {
 
 const BookmarkOutputSchema = v.object({
   name: v.string(),
+  conflict: v.boolean(),
+  addedTargets: v.array(v.string()),
   commitId: v.string(),
   changeId: v.string(),
   localBookmarks: v.array(v.string()),
   remoteBookmarks: v.array(v.string()),
+  mine: v.boolean(),
 });
 
 /**
- * Get all bookmarks created by the current user
+ * Get the bookmarks on a revset of the current user's changes, and of those config.includeBookmarks
+ * adds, which are marked isForeign
  */
-function getMyBookmarks(config: JjConfig): Promise<Bookmark[]> {
+function getBookmarks(config: JjConfig, revset: string): Promise<Bookmark[]> {
   return new Promise((resolve, reject) => {
+    // AIDEV-NOTE: normal_target is empty for conflicted bookmarks, so they report their added
+    // targets instead and leave the other fields empty
     const bookmarkTemplate = `'{ "name":' ++ name.escape_json() ++ ', ' ++
-    '"commitId":' ++ normal_target.commit_id().short().escape_json() ++ ', ' ++
-    '"changeId":' ++ normal_target.change_id().short().escape_json() ++ ', ' ++
-    '"localBookmarks": [' ++ normal_target.local_bookmarks().map(|b| b.name().escape_json()).join(",") ++ '], ' ++
-    '"remoteBookmarks": [' ++ normal_target.remote_bookmarks().map(|b| stringify(b.name() ++ "@" ++ b.remote()).escape_json()).join(",") ++ '] }\n'`;
+    '"conflict":' ++ conflict ++ ', ' ++
+    '"addedTargets": [' ++ added_targets.map(|c| c.commit_id().short().escape_json()).join(",") ++ '], ' ++
+    if(normal_target,
+      '"commitId":' ++ normal_target.commit_id().short().escape_json() ++ ', ' ++
+      '"changeId":' ++ normal_target.change_id().short().escape_json() ++ ', ' ++
+      '"localBookmarks": [' ++ normal_target.local_bookmarks().map(|b| b.name().escape_json()).join(",") ++ '], ' ++
+      '"remoteBookmarks": [' ++ normal_target.remote_bookmarks().map(|b| stringify(b.name() ++ "@" ++ b.remote()).escape_json()).join(",") ++ '], ' ++
+      '"mine":' ++ normal_target.mine(),
+      '"commitId": "", "changeId": "", "localBookmarks": [], "remoteBookmarks": [], "mine": true'
+    ) ++ ' }\n'`;
 
     execFile(
       config.binaryPath,
       [
+        ...globalArgs(config),
         "bookmark",
         "list",
         "--revisions",
-        "mine() ~ trunk()",
+        revset,
         "--template",
         bookmarkTemplate,
       ],
@@ -148,6 +253,10 @@ function getMyBookmarks(config: JjConfig): Promise<Bookmark[]> {
                 changeId: bookmark.changeId,
                 hasRemote: hasMatchingRemote,
                 isSynced: !!bookmark.localBookmarks.length && hasMatchingRemote,
+                ...(bookmark.conflict && {
+                  conflictedTargets: bookmark.addedTargets,
+                }),
+                ...(!bookmark.mine && { isForeign: true }),
               });
             } else {
               existingBookmark.hasRemote ||= hasMatchingRemote;
@@ -179,7 +288,11 @@ const LogEntrySchema = v.object({
   authorName: v.string(),
   authorEmail: v.string(),
   descriptionFirstLine: v.string(),
+  description: v.string(),
   parents: v.array(v.string()),
+  trunkParents: v.array(v.string()),
+  hasConflict: v.boolean(),
+  isDivergent: v.boolean(),
   localBookmarks: v.array(v.string()),
   remoteBookmarks: v.array(v.string()),
   isCurrentWorkingCopy: v.boolean(),
@@ -188,49 +301,72 @@ const LogEntrySchema = v.object({
 });
 
 /**
- * Get changes that are ancestors of `to` that are not ancestors of `trunk`. The result
- * will include `to` itself, but not `trunk`.
+ * Parse a change as printed by our `jj log` template, or as stored in the change graph cache
  */
-function getBranchChangesPaginated(
+export function parseLogEntry(raw: unknown): LogEntry {
+  const rawChange = v.parse(LogEntrySchema, raw);
+  return {
+    commitId: rawChange.commitId,
+    changeId: rawChange.changeId,
+    authorName: rawChange.authorName,
+    authorEmail: rawChange.authorEmail,
+    descriptionFirstLine: rawChange.descriptionFirstLine,
+    description: rawChange.description,
+    parents: rawChange.parents,
+    trunkParents: rawChange.trunkParents,
+    hasConflict: rawChange.hasConflict,
+    isDivergent: rawChange.isDivergent,
+    localBookmarks: rawChange.localBookmarks,
+    remoteBookmarks: rawChange.remoteBookmarks,
+    isCurrentWorkingCopy: rawChange.isCurrentWorkingCopy,
+    authoredAt: new Date(rawChange.authoredAt),
+    committedAt: new Date(rawChange.committedAt),
+  };
+}
+
+/**
+ * Get the changes in a revset, newest first
+ * @param trunk The revset trunkParents are checked against
+ */
+function logChanges(
   config: JjConfig,
+  revset: string,
   trunk: string,
-  to: string,
-  lastSeenCommit?: string,
+  limit?: number,
 ): Promise<LogEntry[]> {
   return new Promise((resolve, reject) => {
     const jjTemplate = `'{ "commitId":' ++ commit_id.short().escape_json() ++ ', ' ++ '"changeId":' 
 ++ change_id.short().escape_json() ++ ', ' ++ '"authorName":' ++ author.name().escape_json() ++ 
 ', ' ++ '"authorEmail":' ++ stringify(author.email().local() ++ '@' ++
 author.email().domain()).escape_json() ++ ', ' ++ '"descriptionFirstLine":' ++ 
-description.first_line().trim().escape_json() ++ ', ' ++ '"parents": [' ++ parents.map(|p| 
-p.commit_id().short().escape_json()).join(",") ++ '], ' ++ '"localBookmarks": [' ++ 
+description.first_line().trim().escape_json() ++ ', ' ++ '"description":' ++
+description.trim().escape_json() ++ ', ' ++ '"parents": [' ++ parents.map(|p| 
+p.commit_id().short().escape_json()).join(",") ++ '], ' ++ '"trunkParents": [' ++
+parents.filter(|p| p.contained_in("::${trunk}")).map(|p| p.commit_id().short().escape_json()).join(",") ++
+'], ' ++ '"hasConflict":' ++ conflict ++ ', ' ++ '"isDivergent":' ++ divergent ++ ', ' ++
+'"localBookmarks": [' ++ 
 local_bookmarks.map(|b| b.name().escape_json()).join(",") ++ '], ' ++ '"remoteBookmarks": [' ++
 remote_bookmarks.map(|b| stringify(b.name() ++ '@' ++ b.remote()).escape_json()).join(",") ++ 
 '], ' ++ '"isCurrentWorkingCopy":' ++ current_working_copy ++ ', ' ++
 '"authoredAt":' ++ author.timestamp().format('%+').escape_json() ++ ', ' ++
 '"committedAt":' ++ committer.timestamp().format('%+').escape_json() ++ ' }\n'`;
 
-    // Build revset: trunk..to but exclude already seen commits
-    const revset = lastSeenCommit
-      ? `(${trunk}..${to}) ~ ${lastSeenCommit}::`
-      : `${trunk}..${to}`;
-
     execFile(
       config.binaryPath,
       [
+        ...globalArgs(config),
         "log",
         "--revisions",
         revset,
         "--no-graph",
-        "--limit",
-        "100",
+        ...(limit !== undefined ? ["--limit", String(limit)] : []),
         "--template",
         jjTemplate,
       ],
       (error, stdout, stderr) => {
         if (error) {
           logger.error(
-            `Failed to get changes (trunk ${trunk}, to ${to}): ${(error as Error).toString()}`,
+            `Failed to get changes (${revset}): ${(error as Error).toString()}`,
           );
           return reject(error as Error);
         }
@@ -244,20 +380,7 @@ remote_bookmarks.map(|b| stringify(b.name() ++ '@' ++ b.remote()).escape_json())
         for (const line of lines) {
           if (line.trim() === "") continue;
           try {
-            const rawChange = v.parse(LogEntrySchema, JSON.parse(line));
-            changes.push({
-              commitId: rawChange.commitId,
-              changeId: rawChange.changeId,
-              authorName: rawChange.authorName,
-              authorEmail: rawChange.authorEmail,
-              descriptionFirstLine: rawChange.descriptionFirstLine,
-              parents: rawChange.parents,
-              localBookmarks: rawChange.localBookmarks,
-              remoteBookmarks: rawChange.remoteBookmarks,
-              isCurrentWorkingCopy: rawChange.isCurrentWorkingCopy,
-              authoredAt: new Date(rawChange.authoredAt),
-              committedAt: new Date(rawChange.committedAt),
-            });
+            changes.push(parseLogEntry(JSON.parse(line)));
           } catch (parseError) {
             logger.error(`Failed to parse line: ${line}`, parseError);
             reject(
@@ -275,6 +398,96 @@ remote_bookmarks.map(|b| stringify(b.name() ++ '@' ++ b.remote()).escape_json())
   });
 }
 
+// The number of changes getBranchChangesPaginated returns at most
+const branchChangesPageSize = 100;
+
+/**
+ * Get changes that are ancestors of `to` that are not ancestors of `trunk`. The result
+ * will include `to` itself, but not `trunk`.
+ */
+function getBranchChangesPaginated(
+  config: JjConfig,
+  trunk: string,
+  to: string,
+  lastSeenCommit?: string,
+): Promise<LogEntry[]> {
+  // Build revset: trunk..to but exclude already seen commits
+  const revset = lastSeenCommit
+    ? `(${trunk}..${to}) ~ ${lastSeenCommit}::`
+    : `${trunk}..${to}`;
+  return logChanges(config, revset, trunk, branchChangesPageSize);
+}
+
+/**
+ * Whether a change can be part of a stack: it has at most one parent outside trunk()
+ * AIDEV-NOTE: Merging trunk into a stack creates a merge commit whose other parents are all
+ * ancestors of trunk(). GitHub handles those fine, so they're treated like ordinary changes.
+ */
+export function isStackableChange(change: LogEntry): boolean {
+  const stackParents = change.parents.filter(
+    (parent) => !change.trunkParents.includes(parent),
+  );
+  return stackParents.length <= 1;
+}
+
+/**
+ * Work out why a bookmark was excluded from the path between its change and the offending one
+ * @param path From the bookmark's change down to the merge commit or divergent change, newest first
+ */
+function pathExclusionReason(path: LogEntry[]): ExclusionReason {
+  const offending = path[path.length - 1];
+  const ancestor = path.slice(1).find((change) => change.localBookmarks.length);
+  if (ancestor) {
+    return {
+      kind: "tainted-by-ancestor",
+      ancestorBookmark: ancestor.localBookmarks[0],
+      commitId: offending.commitId,
+    };
+  }
+  return offending.isDivergent
+    ? { kind: "divergent", changeId: offending.changeId }
+    : { kind: "merge-commit", commitId: offending.commitId };
+}
+
+/**
+ * Describe why a bookmark was excluded, for display
+ */
+export function describeExclusionReason(reason: ExclusionReason): string {
+  switch (reason.kind) {
+    case "merge-commit":
+      return `merge commit ${reason.commitId.slice(0, 12)} has more than one parent outside trunk()`;
+    case "tainted-by-ancestor":
+      return `it is stacked on ${reason.ancestorBookmark}, which can't be stacked because of commit ${reason.commitId.slice(0, 12)}`;
+    case "on-trunk":
+      return "it is already in trunk()";
+    case "conflicted":
+      return `the bookmark is conflicted between commits ${reason.commitIds.map((id) => id.slice(0, 12)).join(", ")}`;
+    case "divergent":
+      return `change ${reason.changeId.slice(0, 12)} is divergent (it has more than one visible commit)`;
+  }
+}
+
+/**
+ * Suggest how to fix an exclusion, for display
+ */
+export function describeExclusionFix(
+  bookmarkName: string,
+  reason: ExclusionReason,
+): string {
+  switch (reason.kind) {
+    case "merge-commit":
+      return "jj-stack supports merging trunk into a stack, but not merges between other branches. Use `jj rebase` to linearize the history below the bookmark.";
+    case "tainted-by-ancestor":
+      return `Fix ${reason.ancestorBookmark} first (see \`jj-stack analyze --explain ${reason.ancestorBookmark}\`).`;
+    case "on-trunk":
+      return `Its changes are already in trunk(), e.g. because its pull request was merged. Delete it with \`jj bookmark delete ${bookmarkName}\`.`;
+    case "conflicted":
+      return `Point it at one commit with \`jj bookmark set ${bookmarkName} -r <commit>\`.`;
+    case "divergent":
+      return "Abandon the copies you don't want with `jj abandon <commit>`.";
+  }
+}
+
 /**
  * Traverse from a bookmark toward trunk, discovering segments and relationships along the way
  */
@@ -282,19 +495,19 @@ async function traverseAndDiscoverSegments(
   bookmark: Bookmark,
   trunkRev: string,
   fullyCollectedBookmarks: Set<string>,
-  taintedChangeIds: Set<string>,
+  taintedChangeIds: Map<string, LogEntry[]>,
   jj: JjFunctions,
 ): Promise<{
   segments: Array<{ bookmarks: string[]; changes: LogEntry[] }>;
   alreadySeenChangeId?: string; // if we hit a fully-collected bookmark
-  excludedBookmarkCount: number; // count of bookmarks excluded due to merge taint
+  excludedPath?: LogEntry[]; // set if the bookmark was excluded due to merge or divergence taint, down to the offending change
 }> {
   const segments: Array<{ bookmarks: string[]; changes: LogEntry[] }> = [];
   let currentSegment: { bookmarks: string[]; changes: LogEntry[] } | undefined =
     undefined;
   let lastSeenCommit: string | undefined;
   let alreadySeenChangeId: string | undefined;
-  const seenChangeIds: string[] = []; // AIDEV-NOTE: Track all changeIds seen during this bookmark's traversal
+  const seenChanges: LogEntry[] = []; // AIDEV-NOTE: Track all changes seen during this bookmark's traversal
 
   pageLoop: while (true) {
     const changes = await jj.getBranchChangesPaginated(
@@ -309,22 +522,29 @@ async function traverseAndDiscoverSegments(
 
     // Check for merge commits or already-tainted changes
     for (const change of changes) {
-      seenChangeIds.push(change.changeId);
+      seenChanges.push(change);
 
-      // Check if this change is a merge commit or already tainted
-      if (change.parents.length > 1 || taintedChangeIds.has(change.changeId)) {
+      // Check if this change is a merge commit, divergent, or already tainted
+      // AIDEV-NOTE: The graph is keyed by change id, so divergent changes can't be part of it
+      const isMerge = !isStackableChange(change);
+      const taintedPath = taintedChangeIds.get(change.changeId);
+      if (isMerge || change.isDivergent || taintedPath) {
         logger.debug(
-          `Found ${change.parents.length > 1 ? "merge commit" : "tainted change"} ${change.commitId} in bookmark ${bookmark.name} - excluding bookmark and descendants`,
+          `Found ${taintedPath ? "tainted change" : isMerge ? "merge commit" : "divergent change"} ${change.commitId} in bookmark ${bookmark.name} - excluding bookmark and descendants`,
         );
+        // The tainted change's own path already starts with the change itself
+        const excludedPath = taintedPath
+          ? [...seenChanges.slice(0, -1), ...taintedPath]
+          : seenChanges;
 
-        // Add all seen changeIds to the tainted set
-        for (const seenChangeId of seenChangeIds) {
-          taintedChangeIds.add(seenChangeId);
-        }
+        // Add all seen changes to the tainted set, with their path down to the offending change
+        seenChanges.forEach((seenChange, i) => {
+          taintedChangeIds.set(seenChange.changeId, excludedPath.slice(i));
+        });
 
         return {
           segments: [],
-          excludedBookmarkCount: 1,
+          excludedPath,
         };
       }
     }
@@ -362,7 +582,7 @@ async function traverseAndDiscoverSegments(
       currentSegment.changes.push(change);
     }
 
-    if (changes.length < 100) {
+    if (changes.length < branchChangesPageSize) {
       break; // We got all remaining changes
     }
 
@@ -377,7 +597,6 @@ async function traverseAndDiscoverSegments(
   return {
     segments,
     alreadySeenChangeId,
-    excludedBookmarkCount: 0,
   };
 }
 
@@ -439,14 +658,63 @@ function groupSegmentsIntoStacks(
   return stacks;
 }
 
+/**
+ * Answer getBranchChangesPaginated from the changes getStackAncestry returned, the way jj would
+ * @param ancestry Every change between trunk() and the bookmarks, newest first
+ */
+export function branchChangesFromAncestry(
+  ancestry: LogEntry[],
+): JjFunctions["getBranchChangesPaginated"] {
+  const byCommitId = new Map(
+    ancestry.map((change) => [change.commitId, change]),
+  );
+  const order = new Map(ancestry.map((change, i) => [change.commitId, i]));
+
+  return (_trunk, to, lastSeenCommit) => {
+    // Walk the parents of `to` until they leave the ancestry, i.e. reach trunk()
+    const reachable = new Set<string>();
+    const pending = [to];
+    while (pending.length) {
+      const commitId = pending.pop()!;
+      const change = byCommitId.get(commitId);
+      if (change && !reachable.has(commitId)) {
+        reachable.add(commitId);
+        pending.push(...change.parents);
+      }
+    }
+
+    // Keep jj's order, which has every change before its parents
+    const changes = [...reachable]
+      .sort((a, b) => order.get(a)! - order.get(b)!)
+      .map((commitId) => byCommitId.get(commitId)!);
+    const start = lastSeenCommit
+      ? changes.findIndex((change) => change.commitId === lastSeenCommit) + 1
+      : 0;
+    return Promise.resolve(changes.slice(start, start + branchChangesPageSize));
+  };
+}
+
 /**
  * Build a complete change graph by discovering all bookmark segments and their relationships
  */
 export async function buildChangeGraph(jj: JjFunctions): Promise<ChangeGraph> {
-  const jjFunctions = jj;
-
   logger.debug("Discovering user bookmarks...");
-  const bookmarks = await jjFunctions.getMyBookmarks();
+  const bookmarks = await jj.getMyBookmarks();
+
+  // AIDEV-NOTE: Two ways to get the changes behind each bookmark
+  // - getStackAncestry: one `jj log` for everything up front, then the traversal below reads from
+  //   memory. This is what the CLI uses.
+  // - getBranchChangesPaginated: one or more `jj log` per bookmark, stopping early at bookmarks
+  //   that were already collected. Used when getStackAncestry isn't provided, e.g. by the graph cache.
+  // Both must build the same graph; the tests compare them.
+  const jjFunctions: JjFunctions = jj.getStackAncestry
+    ? {
+        ...jj,
+        getBranchChangesPaginated: branchChangesFromAncestry(
+          await jj.getStackAncestry(),
+        ),
+      }
+    : jj;
 
   logger.debug(
     `Found ${bookmarks.length} bookmarks: ${bookmarks.map((b) => b.name).join(", ")}`,
@@ -462,8 +730,8 @@ export async function buildChangeGraph(jj: JjFunctions): Promise<ChangeGraph> {
   const bookmarkedChangeAdjacencyList = new Map<string, string>(); // child (changeId) -> parent (changeId)
   const bookmarkedChangeIdToSegment = new Map<string, LogEntry[]>(); // changeId -> all LogEntrys in that segment
   const stackRoots = new Set<string>(); // changeIds that are the lowest bookmark in a stack excluding trunk() ancestors
-  const taintedChangeIds = new Set<string>(); // AIDEV-NOTE: changeIds that are merge commits or descendants of merges
-  let totalExcludedBookmarkCount = 0; // AIDEV-NOTE: Total count of bookmarks excluded due to merges
+  const taintedChangeIds = new Map<string, LogEntry[]>(); // AIDEV-NOTE: changeIds that are merge commits, divergent, or descendants of those -> path down to the offending change
+  const excludedBookmarks: ExcludedBookmark[] = []; // AIDEV-NOTE: Bookmarks excluded due to merges, conflicts, divergence or already on trunk
 
   // Process each bookmark to collect segment changes
   for (const bookmark of bookmarks) {
@@ -472,9 +740,20 @@ export async function buildChangeGraph(jj: JjFunctions): Promise<ChangeGraph> {
       continue;
     }
 
+    if (bookmark.conflictedTargets) {
+      excludedBookmarks.push({
+        name: bookmark.name,
+        reason: { kind: "conflicted", commitIds: bookmark.conflictedTargets },
+        path: [],
+      });
+      logger.debug(`Excluded conflicted bookmark: ${bookmark.name}`);
+      continue;
+    }
+
     logger.debug(`Processing bookmark: ${bookmark.name}`);
 
     try {
+      // AIDEV-NOTE: trunk() itself is overridden by --onto and the trunk setting (see globalArgs)
       const trunkRev = "trunk()";
 
       // Use optimized collection that can stop early when hitting fully-collected bookmarks
@@ -487,10 +766,14 @@ export async function buildChangeGraph(jj: JjFunctions): Promise<ChangeGraph> {
       );
 
       // Handle excluded bookmarks (those that encountered merges)
-      if (result.excludedBookmarkCount > 0) {
-        totalExcludedBookmarkCount += result.excludedBookmarkCount;
+      if (result.excludedPath) {
+        excludedBookmarks.push({
+          name: bookmark.name,
+          reason: pathExclusionReason(result.excludedPath),
+          path: result.excludedPath,
+        });
         logger.debug(
-          `  Excluded ${bookmark.name} due to merge commit in history`,
+          `  Excluded ${bookmark.name} due to ${describeExclusionReason(excludedBookmarks[excludedBookmarks.length - 1].reason)}`,
         );
         continue; // Skip processing this bookmark
       }
@@ -541,9 +824,14 @@ export async function buildChangeGraph(jj: JjFunctions): Promise<ChangeGraph> {
         for (const bookmark of rootSegment.bookmarks) {
           logger.debug(`    Root bookmark identified: ${bookmark}`);
         }
-      } else {
+      } else if (!result.alreadySeenChangeId) {
         // No segments were found, meaning the bookmark is on an ancestor of trunk()
         // Note: a given change is an ancestor of itself, so the bookmark may have been on the same change as trunk()
+        excludedBookmarks.push({
+          name: bookmark.name,
+          reason: { kind: "on-trunk" },
+          path: [],
+        });
       }
 
       logger.debug(
@@ -594,7 +882,10 @@ export async function buildChangeGraph(jj: JjFunctions): Promise<ChangeGraph> {
     stackLeafs,
     stackRoots,
     stacks,
-    excludedBookmarkCount: totalExcludedBookmarkCount,
+    excludedBookmarkCount: excludedBookmarks.filter(
+      (excluded) => excluded.reason.kind !== "on-trunk",
+    ).length,
+    excludedBookmarks,
   };
 }
 
@@ -607,7 +898,7 @@ function getGitRemoteList(
   return new Promise((resolve, reject) => {
     execFile(
       config.binaryPath,
-      ["git", "remote", "list"],
+      [...globalArgs(config), "git", "remote", "list"],
       (error, stdout, stderr) => {
         if (error) {
           logger.error(
@@ -636,9 +927,34 @@ function getGitRemoteList(
   });
 }
 
+/**
+ * None of the remote bookmarks on trunk() looks like the default branch
+ */
+export class DefaultBranchNotFoundError extends Error {
+  constructor(public readonly remoteBookmarks: string[]) {
+    super(
+      `Could not find a remote bookmark for default branch (main, master, or trunk) in: ${JSON.stringify(remoteBookmarks)}`,
+    );
+    this.name = "DefaultBranchNotFoundError";
+  }
+}
+
+/**
+ * The bookmark a trunk revset names, if it is just a bookmark like `release-1.2` or
+ * `release-1.2@origin`
+ */
+export function bookmarkNameFromRevset(revset: string): string | undefined {
+  return /^[\w./-]+(@[\w.-]+)?$/.test(revset)
+    ? revset.replace(/@[\w.-]+$/, "")
+    : undefined;
+}
+
 const RemoteBookmarksSchema = v.array(v.string());
 /**
  * Get the default branch name for the repository by finding what trunk() resolves to
+ * AIDEV-NOTE: When trunk() is overridden with a bookmark (--onto or the trunk setting), that
+ * bookmark is the default branch, so the bottom PR of each stack targets it
+ * @throws DefaultBranchNotFoundError if no remote bookmark on trunk() is a candidate
  */
 function getDefaultBranch(config: JjConfig): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -647,6 +963,7 @@ function getDefaultBranch(config: JjConfig): Promise<string> {
     execFile(
       config.binaryPath,
       [
+        ...globalArgs(config),
         "log",
         "--revisions",
         "trunk()",
@@ -681,7 +998,14 @@ function getDefaultBranch(config: JjConfig): Promise<string> {
           return reject(parseError);
         }
 
-        const candidates = ["main", "master", "trunk"];
+        const trunkBookmark =
+          config.trunkRevset && bookmarkNameFromRevset(config.trunkRevset);
+        const candidates = [
+          ...(trunkBookmark ? [trunkBookmark] : []),
+          "main",
+          "master",
+          "trunk",
+        ];
         for (const candidate of candidates) {
           if (remoteBookmarks.includes(candidate)) {
             resolve(candidate);
@@ -689,9 +1013,7 @@ function getDefaultBranch(config: JjConfig): Promise<string> {
           }
         }
 
-        const notFoundError = new Error(
-          `Could not find a remote bookmark for default branch (main, master, or trunk) in: ${JSON.stringify(remoteBookmarks)}`,
-        );
+        const notFoundError = new DefaultBranchNotFoundError(remoteBookmarks);
         logger.error(notFoundError.message);
         reject(notFoundError);
       },
@@ -711,6 +1033,7 @@ function pushBookmark(
     execFile(
       config.binaryPath,
       [
+        ...globalArgs(config),
         "git",
         "push",
         "--remote",
@@ -738,3 +1061,292 @@ function pushBookmark(
     );
   });
 }
+
+/**
+ * Create a local bookmark pointing at a revision
+ */
+function createBookmark(
+  config: JjConfig,
+  bookmarkName: string,
+  revision: string,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [
+        ...globalArgs(config),
+        "bookmark",
+        "create",
+        bookmarkName,
+        "--revision",
+        revision,
+      ],
+      (error, _stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to create bookmark ${bookmarkName}: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.debug(`Create bookmark output: ${stderr}`);
+        }
+
+        logger.debug(`Created bookmark ${bookmarkName} at ${revision}`);
+        resolve();
+      },
+    );
+  });
+}
+
+/**
+ * Delete a local bookmark, leaving its remote bookmarks tracked so the deletion can be pushed
+ */
+function deleteBookmark(config: JjConfig, bookmarkName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [...globalArgs(config), "bookmark", "delete", bookmarkName],
+      (error, _stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to delete bookmark ${bookmarkName}: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.debug(`Delete bookmark output: ${stderr}`);
+        }
+
+        logger.debug(`Deleted bookmark ${bookmarkName}`);
+        resolve();
+      },
+    );
+  });
+}
+
+/**
+ * Push the deletion of a locally deleted bookmark to a remote
+ */
+function deleteRemoteBookmark(
+  config: JjConfig,
+  bookmarkName: string,
+  remote: string,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [
+        ...globalArgs(config),
+        "git",
+        "push",
+        "--remote",
+        remote,
+        "--bookmark",
+        bookmarkName,
+      ],
+      (error, _stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to delete bookmark ${bookmarkName} from ${remote}: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.debug(`Delete remote bookmark output: ${stderr}`);
+        }
+
+        logger.debug(`Deleted bookmark ${bookmarkName} from ${remote}`);
+        resolve();
+      },
+    );
+  });
+}
+
+/**
+ * Get the bookmarks on the user's own changes that were deleted locally but are still tracked on
+ * a remote
+ * AIDEV-NOTE: jj lists these as "name (deleted)" until the deletion is pushed. The template looks
+ * at their tracked remote refs, whose local ref isn't present (tracking_present), and checks that
+ * the remote target is mine() so that deleted copies of teammates' bookmarks are left alone.
+ */
+function getDeletedBookmarks(config: JjConfig): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [
+        ...globalArgs(config),
+        "bookmark",
+        "list",
+        "--template",
+        'if(remote, if(tracked, if(tracking_present, "", if(normal_target, if(normal_target.mine(), name ++ "\\n")))))',
+      ],
+      (error, stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to get deleted bookmarks: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.debug(`Bookmark list output: ${stderr}`);
+        }
+
+        // A bookmark tracked on several remotes is listed once for each
+        const names = stdout
+          .split("\n")
+          .map((line) => line.trim())
+          .filter((line) => line !== "");
+        resolve([...new Set(names)]);
+      },
+    );
+  });
+}
+
+/**
+ * Get the names of every local bookmark and every bookmark on a remote, tracked or not
+ */
+function getBookmarkNames(config: JjConfig): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [
+        ...globalArgs(config),
+        "bookmark",
+        "list",
+        "--all-remotes",
+        "--template",
+        'name ++ "\\n"',
+      ],
+      (error, stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to get bookmark names: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.debug(`Bookmark list output: ${stderr}`);
+        }
+
+        // A bookmark is listed once locally and once for each remote
+        const names = stdout
+          .split("\n")
+          .map((line) => line.trim())
+          .filter((line) => line !== "");
+        resolve([...new Set(names)]);
+      },
+    );
+  });
+}
+
+/**
+ * Get the root directory of the current jj workspace
+ */
+function getRepoRoot(config: JjConfig): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [...globalArgs(config), "root"],
+      (error, stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to get repo root: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.warn(`Get repo root warnings: ${stderr}`);
+        }
+
+        resolve(stdout.trim());
+      },
+    );
+  });
+}
+
+/**
+ * Get the id of the repository's current operation, which changes whenever anything in the repo does
+ */
+function getOperationId(config: JjConfig): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      config.binaryPath,
+      [
+        ...globalArgs(config),
+        "operation",
+        "log",
+        "--no-graph",
+        "--limit",
+        "1",
+        "--template",
+        "id",
+      ],
+      (error, stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to get operation id: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          logger.warn(`Get operation id warnings: ${stderr}`);
+        }
+
+        resolve(stdout.trim());
+      },
+    );
+  });
+}
+
+const ConfigEntrySchema = v.object({
+  name: v.string(),
+  value: v.string(),
+  source: v.string(),
+});
+
+/**
+ * List the effective jj config values under `name` (e.g. "jj-stack"), with values in TOML syntax
+ */
+function getConfigList(
+  config: JjConfig,
+  name: string,
+): Promise<JjConfigEntry[]> {
+  return new Promise((resolve, reject) => {
+    const template = `'{ "name":' ++ name.escape_json() ++ ', ' ++
+    '"value":' ++ stringify(value).escape_json() ++ ', ' ++
+    '"source":' ++ source.escape_json() ++ ' }\n'`;
+
+    execFile(
+      config.binaryPath,
+      [...globalArgs(config), "config", "list", "--template", template, name],
+      (error, stdout, stderr) => {
+        if (error) {
+          logger.error(
+            `Failed to list config ${name}: ${(error as Error).toString()}`,
+          );
+          return reject(error as Error);
+        }
+        if (stderr) {
+          // jj warns when nothing is set under the name
+          logger.debug(`Config list warnings: ${stderr}`);
+        }
+
+        try {
+          const entries = stdout
+            .trim()
+            .split("\n")
+            .filter((line) => line.trim())
+            .map((line) => v.parse(ConfigEntrySchema, JSON.parse(line)));
+          resolve(entries);
+        } catch (e) {
+          const parseError = new Error(
+            `Failed to parse jj config list output: ${String(e)}`,
+          );
+          logger.error(parseError.message);
+          reject(parseError);
+        }
+      },
+    );
+  });
+}
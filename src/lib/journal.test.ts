@@ -0,0 +1,236 @@
+import {
+  createJournal,
+  executeSubmissionPlanWithJournal,
+  journalFileName,
+  readJournal,
+  verifyJournal,
+  type JournalStep,
+  type SubmissionJournal,
+} from "./journal.js";
+import type { JjFunctions } from "./jjUtils.js";
+import type { GitHubConfig, PullRequest, SubmissionPlan } from "./submit.js";
+import type { Bookmark } from "./jjTypes.js";
+import { readFileSync } from "fs";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import assert from "assert/strict";
+
+suite("submission journal", () => {
+  const bookmarks: Bookmark[] = ["auth", "profile"].map((name) => ({
+    name,
+    commitId: `${name}-0000000000`,
+    changeId: `change_${name}`,
+    hasRemote: true,
+    isSynced: true,
+  }));
+
+  function pr(number: number, base: string): PullRequest {
+    return { number, base: { ref: base } } as PullRequest;
+  }
+
+  function plan(overrides: Partial<SubmissionPlan> = {}): SubmissionPlan {
+    return {
+      targetBookmark: "profile",
+      bookmarksToSubmit: bookmarks,
+      bookmarksNeedingPush: [],
+      bookmarksNeedingPR: [],
+      bookmarksNeedingPRBaseUpdate: [],
+      bookmarksNeedingPRTitleUpdate: [],
+      bookmarksNeedingPRBodyUpdate: [],
+      bookmarksNeedingReadyForReview: [],
+      newPRMetadata: { reviewers: [], assignees: [], labels: [] },
+      repoInfo: { owner: "owner", repo: "repo" },
+      existingPRs: new Map([
+        ["auth", pr(1, "main")],
+        ["profile", pr(2, "auth")],
+      ]),
+      remoteName: "origin",
+      defaultBranch: "main",
+      stackInfoMode: "comment",
+      ...overrides,
+    };
+  }
+
+  function journalWith(steps: Omit<JournalStep, "completedAt">[]) {
+    const journal = createJournal(plan());
+    journal.steps = steps.map((step) => ({
+      ...step,
+      completedAt: journal.startedAt,
+    }));
+    return journal;
+  }
+
+  const completedSteps: Omit<JournalStep, "completedAt">[] = [
+    { kind: "push", bookmark: "auth", commitId: "auth-0000000000" },
+    { kind: "push", bookmark: "profile", commitId: "profile-0000000000" },
+    { kind: "create-pr", bookmark: "auth", prNumber: 1, base: "main" },
+    { kind: "base-update", bookmark: "profile", prNumber: 2, base: "main" },
+    { kind: "base-update", bookmark: "profile", prNumber: 2, base: "auth" },
+  ];
+
+  test("accepts steps that still hold", () => {
+    assert.deepEqual(verifyJournal(journalWith(completedSteps), plan()), []);
+  });
+
+  test("rejects a journal for another stack", () => {
+    const problems = verifyJournal(
+      journalWith(completedSteps),
+      plan({ targetBookmark: "auth" }),
+    );
+    assert.deepEqual(problems, [
+      "The interrupted submission was for profile, not auth",
+    ]);
+  });
+
+  test("reports steps undone since the submission was interrupted", () => {
+    const movedAuth = { ...bookmarks[0], commitId: "5eb1c0dead" };
+    const problems = verifyJournal(
+      journalWith(completedSteps),
+      plan({
+        bookmarksToSubmit: [movedAuth, bookmarks[1]],
+        bookmarksNeedingPush: [movedAuth],
+        existingPRs: new Map([["profile", pr(2, "main")]]),
+      }),
+    );
+    assert.deepEqual(problems, [
+      "auth has moved since it was pushed (was auth-000, now 5eb1c0de)",
+      "PR #1 for auth is no longer open",
+      "The base of PR #2 for profile was changed from auth to main",
+    ]);
+  });
+
+  suite("journaled execution", () => {
+    let repoRoot: string;
+    let pushed: string[];
+    let failingPush: string | undefined;
+
+    setup(async () => {
+      repoRoot = await mkdtemp(path.join(tmpdir(), "jj-stack-journal-"));
+      pushed = [];
+      failingPush = undefined;
+    });
+
+    teardown(async () => {
+      await rm(repoRoot, { recursive: true, force: true });
+    });
+
+    const jj = {
+      getRepoRoot: () => Promise.resolve(repoRoot),
+      pushBookmark: (name: string) => {
+        if (name === failingPush) {
+          return Promise.reject(new Error("remote rejected"));
+        }
+        pushed.push(name);
+        return Promise.resolve();
+      },
+    } as unknown as JjFunctions;
+    // With no PRs the stack info step only reports an error, so GitHub is never called
+    const githubConfig = {} as GitHubConfig;
+    const pushPlan = () =>
+      plan({ bookmarksNeedingPush: bookmarks, existingPRs: new Map() });
+
+    function recordedSteps(steps: JournalStep[]) {
+      return steps.map(({ kind, bookmark }) => `${kind} ${bookmark}`);
+    }
+
+    test("records steps in order and clears the journal on success", async () => {
+      const journalPath = path.join(
+        repoRoot,
+        ".jj",
+        "jj-stack",
+        journalFileName,
+      );
+      const recordedAfterEachPush: string[][] = [];
+      const result = await executeSubmissionPlanWithJournal(
+        jj,
+        pushPlan(),
+        githubConfig,
+        {
+          onPushCompleted: () => {
+            const journal = JSON.parse(
+              readFileSync(journalPath, "utf8"),
+            ) as SubmissionJournal;
+            recordedAfterEachPush.push(recordedSteps(journal.steps));
+          },
+        },
+      );
+
+      assert.equal(result.success, true);
+      assert.deepEqual(pushed, ["auth", "profile"]);
+      assert.deepEqual(recordedAfterEachPush, [
+        ["push auth"],
+        ["push auth", "push profile"],
+      ]);
+      assert.equal(await readJournal(jj), undefined);
+    });
+
+    test("keeps the steps and the failure when a step fails", async () => {
+      failingPush = "profile";
+      const result = await executeSubmissionPlanWithJournal(
+        jj,
+        pushPlan(),
+        githubConfig,
+      );
+
+      assert.equal(result.success, false);
+      const journal = await readJournal(jj);
+      assert.deepEqual(recordedSteps(journal!.steps), ["push auth"]);
+      assert.equal(journal!.steps[0].commitId, "auth-0000000000");
+      assert.deepEqual(journal!.failure, {
+        context: "execution",
+        message: "Error pushing profile: Error: remote rejected",
+      });
+    });
+
+    test("skips the steps completed before the submission was resumed", async () => {
+      failingPush = "profile";
+      await executeSubmissionPlanWithJournal(jj, pushPlan(), githubConfig);
+      failingPush = undefined;
+      pushed = [];
+
+      // auth is pushed now, so the plan built from live state no longer includes it
+      const journal = await readJournal(jj);
+      const resumedPlan = plan({
+        bookmarksNeedingPush: [bookmarks[1]],
+        existingPRs: new Map(),
+      });
+      assert.deepEqual(verifyJournal(journal!, resumedPlan), []);
+      const result = await executeSubmissionPlanWithJournal(
+        jj,
+        resumedPlan,
+        githubConfig,
+        undefined,
+        journal,
+      );
+
+      assert.equal(result.success, true);
+      assert.deepEqual(pushed, ["profile"]);
+      assert.equal(await readJournal(jj), undefined);
+    });
+
+    test("reports a journal that can't be saved without failing the step", async () => {
+      // A file where the journal's directory should be
+      await writeFile(path.join(repoRoot, ".jj"), "");
+      const errors: string[] = [];
+      const result = await executeSubmissionPlanWithJournal(
+        jj,
+        pushPlan(),
+        githubConfig,
+        { onError: (_error, context) => errors.push(context) },
+      );
+
+      assert.equal(result.success, true);
+      assert.deepEqual(pushed, ["auth", "profile"]);
+      assert.equal(
+        errors.filter((c) => c === "saving the submission journal").length,
+        1,
+      );
+      assert.ok(
+        result.errors.some(
+          (e) => e.context === "saving the submission journal",
+        ),
+      );
+    });
+  });
+});
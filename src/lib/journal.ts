@@ -0,0 +1,332 @@
+// AIDEV-NOTE: Submission journal
+// executeSubmissionPlan stops at the first step that fails, leaving a stack half-submitted. Every
+// step that completes is recorded in .jj/jj-stack/submit-journal.json, along with the failure, so
+// that `jst submit --resume` can check those steps against live state before carrying on. The new
+// plan is built from live state as usual, so completed steps drop out of it and execution picks up
+// at the step that failed. The journal is deleted once a submission succeeds.
+
+import { mkdirSync, writeFileSync } from "fs";
+import { readFile, rm } from "fs/promises";
+import path from "path";
+import * as v from "valibot";
+import type { JjFunctions } from "./jjUtils.js";
+import { logger } from "./logger.js";
+import {
+  executeSubmissionPlan,
+  type ExecutionCallbacks,
+  type GitHubConfig,
+  type SubmissionPlan,
+  type SubmissionResult,
+} from "./submit.js";
+
+export const journalFileName = "submit-journal.json";
+const journalErrorContext = "saving the submission journal";
+
+const JournalStepSchema = v.object({
+  kind: v.picklist([
+    "push",
+    "base-update",
+    "title-update",
+    "body-update",
+    "ready-for-review",
+    "create-pr",
+    "stack-info",
+  ]),
+  bookmark: v.string(),
+  commitId: v.optional(v.string()), // push: the commit that was pushed
+  prNumber: v.optional(v.number()),
+  base: v.optional(v.string()), // base-update and create-pr: the PR's new base branch
+  completedAt: v.string(),
+});
+export type JournalStep = v.InferOutput<typeof JournalStepSchema>;
+
+const SubmissionJournalSchema = v.object({
+  version: v.literal(1),
+  targetBookmark: v.string(),
+  remoteName: v.string(),
+  repo: v.object({ owner: v.string(), repo: v.string() }),
+  startedAt: v.string(),
+  steps: v.array(JournalStepSchema),
+  failure: v.optional(v.object({ context: v.string(), message: v.string() })),
+});
+export type SubmissionJournal = v.InferOutput<typeof SubmissionJournalSchema>;
+
+async function getJournalPath(jj: JjFunctions): Promise<string> {
+  return path.join(await jj.getRepoRoot(), ".jj", "jj-stack", journalFileName);
+}
+
+/**
+ * Read the journal left by an interrupted submission, if there is one
+ */
+export async function readJournal(
+  jj: JjFunctions,
+): Promise<SubmissionJournal | undefined> {
+  const journalPath = await getJournalPath(jj);
+
+  let contents: string;
+  try {
+    contents = await readFile(journalPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    return v.parse(SubmissionJournalSchema, JSON.parse(contents));
+  } catch (error) {
+    throw new Error(
+      `Invalid submission journal at ${journalPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Delete the submission journal, if there is one
+ */
+export async function clearJournal(jj: JjFunctions): Promise<void> {
+  await rm(await getJournalPath(jj), { force: true });
+}
+
+/**
+ * Start an empty journal for a plan
+ */
+export function createJournal(
+  plan: SubmissionPlan,
+  now: Date = new Date(),
+): SubmissionJournal {
+  return {
+    version: 1,
+    targetBookmark: plan.targetBookmark,
+    remoteName: plan.remoteName,
+    repo: plan.repoInfo,
+    startedAt: now.toISOString(),
+    steps: [],
+  };
+}
+
+/**
+ * Check the steps recorded in a journal against a plan built from live state
+ * @returns Descriptions of every step that no longer holds; empty if it's safe to resume
+ */
+export function verifyJournal(
+  journal: SubmissionJournal,
+  plan: SubmissionPlan,
+): string[] {
+  if (journal.targetBookmark !== plan.targetBookmark) {
+    return [
+      `The interrupted submission was for ${journal.targetBookmark}, not ${plan.targetBookmark}`,
+    ];
+  }
+  if (
+    journal.repo.owner !== plan.repoInfo.owner ||
+    journal.repo.repo !== plan.repoInfo.repo
+  ) {
+    return [
+      `The interrupted submission was to ${journal.repo.owner}/${journal.repo.repo}, not ${plan.repoInfo.owner}/${plan.repoInfo.repo}`,
+    ];
+  }
+
+  // Only the last base update of a PR counts, since PRs can be parked on the default branch first
+  const lastBaseUpdates = new Map<string, JournalStep>();
+  for (const step of journal.steps) {
+    if (step.kind === "base-update") {
+      lastBaseUpdates.set(step.bookmark, step);
+    }
+  }
+
+  const problems: string[] = [];
+  for (const step of journal.steps) {
+    const bookmark = plan.bookmarksToSubmit.find(
+      (b) => b.name === step.bookmark,
+    );
+    if (!bookmark) {
+      problems.push(`${step.bookmark} is no longer part of the stack`);
+      continue;
+    }
+
+    const pr = plan.existingPRs.get(step.bookmark);
+    switch (step.kind) {
+      case "push":
+        if (bookmark.commitId !== step.commitId) {
+          problems.push(
+            `${step.bookmark} has moved since it was pushed (was ${step.commitId?.slice(0, 8)}, now ${bookmark.commitId.slice(0, 8)})`,
+          );
+        } else if (
+          plan.bookmarksNeedingPush.some((b) => b.name === step.bookmark)
+        ) {
+          problems.push(
+            `${step.bookmark} was pushed, but ${journal.remoteName} no longer has it`,
+          );
+        }
+        break;
+      case "create-pr":
+        if (pr?.number !== step.prNumber) {
+          problems.push(
+            `PR #${step.prNumber} for ${step.bookmark} is no longer open`,
+          );
+        }
+        break;
+      case "base-update":
+        if (
+          pr &&
+          lastBaseUpdates.get(step.bookmark) === step &&
+          pr.base.ref !== step.base
+        ) {
+          problems.push(
+            `The base of PR #${pr.number} for ${step.bookmark} was changed from ${step.base} to ${pr.base.ref}`,
+          );
+        }
+        break;
+      default:
+        // Title, description, draft and stack info changes are safe to repeat, or are
+        // skipped by the plan when already done
+        break;
+    }
+  }
+  return problems;
+}
+
+/**
+ * Describe a completed step for display
+ */
+export function describeJournalStep(step: JournalStep): string {
+  const pr = step.prNumber !== undefined ? `PR #${step.prNumber}` : "PR";
+  switch (step.kind) {
+    case "push":
+      return `Pushed ${step.bookmark}`;
+    case "create-pr":
+      return `Created ${pr} for ${step.bookmark}`;
+    case "base-update":
+      return `Changed the base of ${pr} for ${step.bookmark} to ${step.base}`;
+    case "title-update":
+      return `Updated the title of ${pr} for ${step.bookmark}`;
+    case "body-update":
+      return `Updated the description of ${pr} for ${step.bookmark}`;
+    case "ready-for-review":
+      return `Marked ${pr} for ${step.bookmark} ready for review`;
+    case "stack-info":
+      return `Updated the stack info on ${pr} for ${step.bookmark}`;
+  }
+}
+
+/**
+ * Execute a plan, recording each completed step in the journal
+ * @param journal The journal of the submission being resumed, or undefined to start a new one
+ */
+export async function executeSubmissionPlanWithJournal(
+  jj: JjFunctions,
+  plan: SubmissionPlan,
+  githubConfig: GitHubConfig,
+  callbacks?: ExecutionCallbacks,
+  journal: SubmissionJournal = createJournal(plan),
+): Promise<SubmissionResult> {
+  const journalPath = await getJournalPath(jj);
+  delete journal.failure;
+
+  // AIDEV-NOTE: Written synchronously from the callbacks, so that the journal is up to date
+  // before the executor moves on to the next step, even if the process is killed mid-step.
+  // Journal errors are caught here, since a throwing callback would be reported as a failure of
+  // the step that just succeeded. Only the first one is reported, as the rest are likely the same.
+  let journalError: Error | undefined;
+  const reportJournalError = (error: unknown) => {
+    if (!journalError) {
+      journalError = error instanceof Error ? error : new Error(String(error));
+      callbacks?.onError?.(journalError, journalErrorContext);
+    }
+  };
+  const write = () => {
+    try {
+      mkdirSync(path.dirname(journalPath), { recursive: true });
+      writeFileSync(journalPath, JSON.stringify(journal, null, 2));
+    } catch (error) {
+      reportJournalError(error);
+    }
+  };
+  const record = (step: Omit<JournalStep, "completedAt">) => {
+    journal.steps.push({ ...step, completedAt: new Date().toISOString() });
+    write();
+  };
+
+  write();
+  const result = await executeSubmissionPlan(jj, plan, githubConfig, {
+    ...callbacks,
+    onPushCompleted: (bookmark, remote) => {
+      record({
+        kind: "push",
+        bookmark: bookmark.name,
+        commitId: bookmark.commitId,
+      });
+      callbacks?.onPushCompleted?.(bookmark, remote);
+    },
+    onPRBaseUpdateCompleted: (bookmark, pr) => {
+      record({
+        kind: "base-update",
+        bookmark: bookmark.name,
+        prNumber: pr.number,
+        base: pr.base.ref,
+      });
+      callbacks?.onPRBaseUpdateCompleted?.(bookmark, pr);
+    },
+    onPRTitleUpdateCompleted: (bookmark, pr) => {
+      record({
+        kind: "title-update",
+        bookmark: bookmark.name,
+        prNumber: pr.number,
+      });
+      callbacks?.onPRTitleUpdateCompleted?.(bookmark, pr);
+    },
+    onPRBodyUpdateCompleted: (bookmark, pr) => {
+      record({
+        kind: "body-update",
+        bookmark: bookmark.name,
+        prNumber: pr.number,
+      });
+      callbacks?.onPRBodyUpdateCompleted?.(bookmark, pr);
+    },
+    onPRReadyForReviewCompleted: (bookmark, pr) => {
+      record({
+        kind: "ready-for-review",
+        bookmark: bookmark.name,
+        prNumber: pr.number,
+      });
+      callbacks?.onPRReadyForReviewCompleted?.(bookmark, pr);
+    },
+    onPRCompleted: (bookmark, pr) => {
+      record({
+        kind: "create-pr",
+        bookmark: bookmark.name,
+        prNumber: pr.number,
+        base: pr.base.ref,
+      });
+      callbacks?.onPRCompleted?.(bookmark, pr);
+    },
+    onStackInfoUpdated: (bookmarkName, prNumber) => {
+      record({ kind: "stack-info", bookmark: bookmarkName, prNumber });
+      callbacks?.onStackInfoUpdated?.(bookmarkName, prNumber);
+    },
+  });
+
+  if (result.success) {
+    try {
+      await clearJournal(jj);
+    } catch (error) {
+      reportJournalError(error);
+    }
+  } else {
+    const failure = result.errors.find((e) => e.context === "execution");
+    journal.failure = {
+      context: failure?.context ?? "execution",
+      message: failure?.error.message ?? "Unknown error",
+    };
+    write();
+    if (!journalError) {
+      logger.debug(`Saved submission journal to ${journalPath}`);
+    }
+  }
+  if (journalError) {
+    result.errors.push({ error: journalError, context: journalErrorContext });
+  }
+  return result;
+}
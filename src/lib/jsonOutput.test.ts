@@ -0,0 +1,161 @@
+import { changeGraphToJson, submissionToJson } from "./jsonOutput.js";
+import type { Bookmark, ChangeGraph, LogEntry } from "./jjTypes.js";
+import type { PullRequest, SubmissionPlan } from "./submit.js";
+import assert from "assert/strict";
+
+suite("JSON output", () => {
+  const change: LogEntry = {
+    commitId: "commit_auth",
+    changeId: "change_auth",
+    authorName: "Test",
+    authorEmail: "test@example.com",
+    descriptionFirstLine: "Add login",
+    description: "Add login\n\nAdds a login form.",
+    parents: ["trunk"],
+    trunkParents: ["trunk"],
+    hasConflict: false,
+    isDivergent: false,
+    localBookmarks: ["auth"],
+    remoteBookmarks: [],
+    isCurrentWorkingCopy: false,
+    authoredAt: new Date("2025-01-01T10:00:00Z"),
+    committedAt: new Date("2025-01-02T10:00:00Z"),
+  };
+  const auth: Bookmark = {
+    name: "auth",
+    commitId: "commit_auth",
+    changeId: "change_auth",
+    hasRemote: true,
+    isSynced: false,
+  };
+
+  test("describes stacks with their bookmarks and changes", () => {
+    const changeGraph = {
+      stacks: [{ segments: [{ bookmarks: [auth], changes: [change] }] }],
+      excludedBookmarkCount: 1,
+      excludedBookmarks: [
+        { name: "shipped", reason: { kind: "on-trunk" }, path: [] },
+        {
+          name: "tangled",
+          reason: { kind: "merge-commit", commitId: "commit_merge" },
+          path: [change],
+        },
+      ],
+    } as unknown as ChangeGraph;
+
+    assert.deepEqual(changeGraphToJson(changeGraph), {
+      schemaVersion: 1,
+      command: "analyze",
+      stacks: [
+        {
+          segments: [
+            {
+              bookmarks: [
+                {
+                  name: "auth",
+                  changeId: "change_auth",
+                  commitId: "commit_auth",
+                  hasRemote: true,
+                  isSynced: false,
+                  isForeign: false,
+                },
+              ],
+              changes: [
+                {
+                  changeId: "change_auth",
+                  commitId: "commit_auth",
+                  description: "Add login\n\nAdds a login form.",
+                  authorName: "Test",
+                  authorEmail: "test@example.com",
+                  authoredAt: "2025-01-01T10:00:00.000Z",
+                  committedAt: "2025-01-02T10:00:00.000Z",
+                  isWorkingCopy: false,
+                  hasConflict: false,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      excludedBookmarkCount: 1,
+      excludedBookmarks: [
+        {
+          name: "tangled",
+          kind: "merge-commit",
+          reason:
+            "merge commit commit_merge has more than one parent outside trunk()",
+          path: ["change_auth"],
+        },
+      ],
+    });
+  });
+
+  test("includes the result only when the plan was executed", () => {
+    const pr = {
+      number: 1,
+      html_url: "https://github.com/owner/repo/pull/1",
+      title: "Add login",
+      draft: false,
+      base: { ref: "main" },
+      head: { ref: "auth" },
+    } as PullRequest;
+    const plan: SubmissionPlan = {
+      targetBookmark: "auth",
+      bookmarksToSubmit: [auth],
+      bookmarksNeedingPush: [auth],
+      bookmarksNeedingPR: [],
+      bookmarksNeedingPRBaseUpdate: [],
+      bookmarksNeedingPRTitleUpdate: [
+        {
+          bookmark: auth,
+          currentTitle: "WIP",
+          newTitle: "Add login",
+          newBody: "",
+          pr,
+        },
+      ],
+      bookmarksNeedingPRBodyUpdate: [],
+      bookmarksNeedingReadyForReview: [],
+      newPRMetadata: { reviewers: ["alice"], assignees: [], labels: [] },
+      repoInfo: { owner: "owner", repo: "repo" },
+      existingPRs: new Map([["auth", pr]]),
+      remoteName: "origin",
+      defaultBranch: "main",
+      stackInfoMode: "comment",
+    };
+
+    const dryRun = submissionToJson(plan);
+    assert.equal(dryRun.dryRun, true);
+    assert.equal(dryRun.result, undefined);
+    assert.deepEqual(dryRun.plan.push, ["auth"]);
+    assert.deepEqual(dryRun.plan.existingPRs, {
+      auth: {
+        number: 1,
+        url: "https://github.com/owner/repo/pull/1",
+        title: "Add login",
+        baseBranch: "main",
+        headBranch: "auth",
+        draft: false,
+      },
+    });
+    assert.deepEqual(dryRun.plan.updatePRTitles, [
+      { bookmark: "auth", prNumber: 1, from: "WIP", to: "Add login" },
+    ]);
+
+    const submitted = submissionToJson(plan, {
+      success: false,
+      pushedBookmarks: [auth],
+      createdPRs: [],
+      updatedPRs: [],
+      errors: [{ error: new Error("Bad credentials"), context: "execution" }],
+    });
+    assert.equal(submitted.dryRun, false);
+    assert.deepEqual(submitted.result, {
+      success: false,
+      pushedBookmarks: ["auth"],
+      createdPRs: [],
+      updatedPRs: [],
+      errors: [{ context: "execution", message: "Bad credentials" }],
+    });
+  });
+});
@@ -0,0 +1,269 @@
+// AIDEV-NOTE: Machine-readable output for `--json`
+// These types are a public, versioned format for other tools to consume, so they are kept separate
+// from the internal types they are built from. Renaming or removing a field, or changing its
+// meaning, requires bumping jsonSchemaVersion; adding fields doesn't. Documented in the README.
+
+import type {
+  Bookmark,
+  ChangeGraph,
+  ExclusionReason,
+  LogEntry,
+} from "./jjTypes.js";
+import { describeExclusionReason } from "./jjUtils.js";
+import type {
+  PullRequest,
+  SubmissionPlan,
+  SubmissionResult,
+} from "./submit.js";
+
+export const jsonSchemaVersion = 1;
+
+export interface JsonChange {
+  changeId: string;
+  commitId: string;
+  description: string;
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string; // ISO 8601
+  committedAt: string; // ISO 8601
+  isWorkingCopy: boolean;
+  hasConflict: boolean; // Unresolved conflicts; stacks containing the change can't be submitted
+}
+
+export interface JsonBookmark {
+  name: string;
+  changeId: string;
+  commitId: string;
+  hasRemote: boolean; // Whether the bookmark exists on the remote
+  isSynced: boolean; // Whether the remote bookmark points at the same commit
+  isForeign: boolean; // On someone else's change: stacked on, but never pushed or edited
+}
+
+export interface JsonSegment {
+  bookmarks: JsonBookmark[]; // Every bookmark on the segment's top change
+  changes: JsonChange[]; // The segment's own changes, newest first
+}
+
+export interface JsonStack {
+  segments: JsonSegment[]; // From the bottom of the stack (next to trunk) to the top
+}
+
+export interface JsonAnalyzeOutput {
+  schemaVersion: typeof jsonSchemaVersion;
+  command: "analyze";
+  stacks: JsonStack[];
+  excludedBookmarkCount: number;
+  excludedBookmarks: JsonExcludedBookmark[]; // Bookmarks that can't be stacked
+}
+
+export interface JsonExcludedBookmark {
+  name: string;
+  kind: ExclusionReason["kind"];
+  reason: string; // For display
+  path: string[]; // Change ids from the bookmark down to the offending change
+}
+
+export interface JsonPullRequest {
+  number: number;
+  url: string;
+  title: string;
+  baseBranch: string;
+  headBranch: string;
+  draft: boolean;
+}
+
+export interface JsonSubmissionPlan {
+  targetBookmark: string;
+  repository: { owner: string; repo: string };
+  remote: string; // The remote bookmarks are pushed to
+  defaultBranch: string;
+  stackInfoMode: SubmissionPlan["stackInfoMode"];
+  bookmarks: JsonBookmark[]; // The bookmarks being submitted, bottom to top
+  existingPRs: Record<string, JsonPullRequest>; // By bookmark name
+  push: string[]; // Names of bookmarks that will be pushed
+  createPRs: {
+    bookmark: string;
+    baseBranchOptions: string[];
+    title: string;
+    body: string;
+    draft: boolean;
+  }[];
+  updatePRBases: {
+    bookmark: string;
+    prNumber: number;
+    from: string;
+    to: string[];
+  }[];
+  updatePRTitles: {
+    bookmark: string;
+    prNumber: number;
+    from: string;
+    to: string;
+  }[];
+  updatePRBodies: { bookmark: string; prNumber: number }[];
+  markReadyForReview: { bookmark: string; prNumber: number }[];
+  newPRMetadata: { reviewers: string[]; assignees: string[]; labels: string[] };
+}
+
+export interface JsonSubmissionResult {
+  success: boolean;
+  pushedBookmarks: string[];
+  createdPRs: { bookmark: string; pr: JsonPullRequest }[];
+  updatedPRs: { bookmark: string; pr: JsonPullRequest }[];
+  errors: { context: string; message: string }[];
+}
+
+export interface JsonSubmitOutput {
+  schemaVersion: typeof jsonSchemaVersion;
+  command: "submit";
+  dryRun: boolean;
+  plan: JsonSubmissionPlan;
+  result?: JsonSubmissionResult; // Absent for dry runs
+}
+
+function changeToJson(change: LogEntry): JsonChange {
+  return {
+    changeId: change.changeId,
+    commitId: change.commitId,
+    description: change.description,
+    authorName: change.authorName,
+    authorEmail: change.authorEmail,
+    authoredAt: change.authoredAt.toISOString(),
+    committedAt: change.committedAt.toISOString(),
+    isWorkingCopy: change.isCurrentWorkingCopy,
+    hasConflict: change.hasConflict,
+  };
+}
+
+function bookmarkToJson(bookmark: Bookmark): JsonBookmark {
+  return {
+    name: bookmark.name,
+    changeId: bookmark.changeId,
+    commitId: bookmark.commitId,
+    hasRemote: bookmark.hasRemote,
+    isSynced: bookmark.isSynced,
+    isForeign: bookmark.isForeign ?? false,
+  };
+}
+
+function pullRequestToJson(pr: PullRequest): JsonPullRequest {
+  return {
+    number: pr.number,
+    url: pr.html_url,
+    title: pr.title,
+    baseBranch: pr.base.ref,
+    headBranch: pr.head.ref,
+    draft: pr.draft ?? false,
+  };
+}
+
+/**
+ * Convert a change graph to the `jst --json` output
+ */
+export function changeGraphToJson(changeGraph: ChangeGraph): JsonAnalyzeOutput {
+  return {
+    schemaVersion: jsonSchemaVersion,
+    command: "analyze",
+    stacks: changeGraph.stacks.map((stack) => ({
+      segments: stack.segments.map((segment) => ({
+        bookmarks: segment.bookmarks.map(bookmarkToJson),
+        changes: segment.changes.map(changeToJson),
+      })),
+    })),
+    excludedBookmarkCount: changeGraph.excludedBookmarkCount,
+    // Bookmarks already on trunk were never listed here, so they still aren't
+    excludedBookmarks: changeGraph.excludedBookmarks
+      .filter(({ reason }) => reason.kind !== "on-trunk")
+      .map(({ name, reason, path }) => ({
+        name,
+        kind: reason.kind,
+        reason: describeExclusionReason(reason),
+        path: path.map((change) => change.changeId),
+      })),
+  };
+}
+
+function submissionPlanToJson(plan: SubmissionPlan): JsonSubmissionPlan {
+  return {
+    targetBookmark: plan.targetBookmark,
+    repository: { ...plan.repoInfo },
+    remote: plan.remoteName,
+    defaultBranch: plan.defaultBranch,
+    stackInfoMode: plan.stackInfoMode,
+    bookmarks: plan.bookmarksToSubmit.map(bookmarkToJson),
+    existingPRs: Object.fromEntries(
+      [...plan.existingPRs].map(([name, pr]) => [name, pullRequestToJson(pr)]),
+    ),
+    push: plan.bookmarksNeedingPush.map((b) => b.name),
+    createPRs: plan.bookmarksNeedingPR.map((item) => ({
+      bookmark: item.bookmark.name,
+      baseBranchOptions: item.baseBranchOptions,
+      title: item.prContent.title,
+      body: item.prContent.body,
+      draft: item.draft,
+    })),
+    updatePRBases: plan.bookmarksNeedingPRBaseUpdate.map((item) => ({
+      bookmark: item.bookmark.name,
+      prNumber: item.pr.number,
+      from: item.currentBaseBranch,
+      to: item.expectedBaseBranchOptions,
+    })),
+    updatePRTitles: plan.bookmarksNeedingPRTitleUpdate.map((item) => ({
+      bookmark: item.bookmark.name,
+      prNumber: item.pr.number,
+      from: item.currentTitle,
+      to: item.newTitle,
+    })),
+    updatePRBodies: plan.bookmarksNeedingPRBodyUpdate.map((item) => ({
+      bookmark: item.bookmark.name,
+      prNumber: item.pr.number,
+    })),
+    markReadyForReview: plan.bookmarksNeedingReadyForReview.map((item) => ({
+      bookmark: item.bookmark.name,
+      prNumber: item.pr.number,
+    })),
+    newPRMetadata: { ...plan.newPRMetadata },
+  };
+}
+
+/**
+ * Convert a submission plan, and the result of executing it unless this was a dry run, to the
+ * `jst submit --json` output
+ */
+export function submissionToJson(
+  plan: SubmissionPlan,
+  result?: SubmissionResult,
+): JsonSubmitOutput {
+  const output: JsonSubmitOutput = {
+    schemaVersion: jsonSchemaVersion,
+    command: "submit",
+    dryRun: result === undefined,
+    plan: submissionPlanToJson(plan),
+  };
+  if (result) {
+    output.result = {
+      success: result.success,
+      pushedBookmarks: result.pushedBookmarks.map((b) => b.name),
+      createdPRs: result.createdPRs.map(({ bookmark, pr }) => ({
+        bookmark: bookmark.name,
+        pr: pullRequestToJson(pr),
+      })),
+      updatedPRs: result.updatedPRs.map(({ bookmark, pr }) => ({
+        bookmark: bookmark.name,
+        pr: pullRequestToJson(pr),
+      })),
+      errors: result.errors.map(({ error, context }) => ({
+        context,
+        message: error.message,
+      })),
+    };
+  }
+  return output;
+}
+
+/**
+ * Print a JSON document to stdout
+ */
+export function printJson(output: JsonAnalyzeOutput | JsonSubmitOutput): void {
+  process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+}
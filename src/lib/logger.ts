@@ -5,12 +5,14 @@ interface Logger {
   error(log: string, ...args: unknown[]): void;
 }
 
+// AIDEV-NOTE: Everything is logged to stderr, so logs never end up in a command's output on
+// stdout (e.g. the document printed with --json)
 class ConsoleLogger implements Logger {
   debug(log: string, ...args: unknown[]) {
-    console.log(log, ...args);
+    console.error(log, ...args);
   }
   info(log: string, ...args: unknown[]) {
-    console.log(log, ...args);
+    console.error(log, ...args);
   }
   warn(log: string, ...args: unknown[]) {
     console.error(log, ...args);
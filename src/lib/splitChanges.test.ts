@@ -0,0 +1,142 @@
+import {
+  formatSplitBookmarkName,
+  slugify,
+  splitChanges,
+} from "./splitChanges.js";
+import type { Bookmark, ChangeGraph, LogEntry } from "./jjTypes.js";
+import type { SubmissionAnalysis } from "./submit.js";
+import assert from "assert/strict";
+
+suite("splitting changes", () => {
+  function change(id: string, description = `Change ${id}`): LogEntry {
+    return {
+      commitId: `commit_${id}`,
+      changeId: `change_${id}`,
+      descriptionFirstLine: description,
+    } as LogEntry;
+  }
+
+  function bookmark(name: string, extra: Partial<Bookmark> = {}): Bookmark {
+    return {
+      name,
+      commitId: `commit_${name}`,
+      changeId: `change_${name}`,
+      hasRemote: true,
+      isSynced: true,
+      ...extra,
+    };
+  }
+
+  function analysis(
+    segments: SubmissionAnalysis["relevantSegments"],
+  ): SubmissionAnalysis {
+    const bookmarks = segments.flatMap((segment) => segment.bookmarks);
+    return {
+      targetBookmark: bookmarks[bookmarks.length - 1].name,
+      changeGraph: {
+        bookmarks: new Map(bookmarks.map((b) => [b.name, b])),
+      } as ChangeGraph,
+      relevantSegments: segments,
+    };
+  }
+
+  function names(result: ReturnType<typeof splitChanges>) {
+    return result.analysis.relevantSegments.map((segment) => [
+      segment.bookmarks[0].name,
+      segment.changes.map((c) => c.changeId),
+    ]);
+  }
+
+  test("names bookmarks from a template", () => {
+    const login = change("abc", "Add login form (WIP!)");
+    assert.equal(
+      slugify("  Fix: crash on   empty input "),
+      "fix-crash-on-empty-input",
+    );
+    assert.equal(
+      formatSplitBookmarkName("me/{description}", login, "auth"),
+      "me/add-login-form-wip",
+    );
+    assert.equal(
+      formatSplitBookmarkName("{bookmark}-{changeId}", login, "auth"),
+      "auth-change_abc",
+    );
+    assert.equal(
+      formatSplitBookmarkName("{description}", change("xyz", ""), "auth"),
+      "change_xyz",
+    );
+    assert.throws(
+      () => formatSplitBookmarkName("{author}", login, "auth"),
+      /Unknown placeholder \{author\}/,
+    );
+  });
+
+  test("gives each unbookmarked change its own segment", () => {
+    const result = splitChanges(
+      analysis([
+        { bookmarks: [bookmark("auth")], changes: [change("a")] },
+        {
+          bookmarks: [bookmark("profile")],
+          changes: [change("p"), change("n"), change("m")],
+        },
+      ]),
+    );
+
+    assert.deepEqual(names(result), [
+      ["auth", ["change_a"]],
+      ["push-change_m", ["change_m"]],
+      ["push-change_n", ["change_n"]],
+      ["profile", ["change_p"]],
+    ]);
+    assert.deepEqual(
+      result.newBookmarks.map((b) => [b.name, b.commitId, b.hasRemote]),
+      [
+        ["push-change_m", "commit_m", false],
+        ["push-change_n", "commit_n", false],
+      ],
+    );
+  });
+
+  test("avoids existing names and leaves other people's segments alone", () => {
+    const result = splitChanges(
+      analysis([
+        {
+          bookmarks: [bookmark("theirs", { isForeign: true })],
+          changes: [change("t"), change("s")],
+        },
+        {
+          bookmarks: [bookmark("wip")],
+          changes: [change("w"), change("v", "WIP"), change("u", "wip")],
+        },
+      ]),
+      "{description}",
+    );
+
+    assert.deepEqual(names(result), [
+      ["theirs", ["change_t", "change_s"]],
+      ["wip-2", ["change_u"]],
+      ["wip-3", ["change_v"]],
+      ["wip", ["change_w"]],
+    ]);
+  });
+
+  test("avoids bookmarks outside the change graph", () => {
+    const result = splitChanges(
+      analysis([
+        {
+          bookmarks: [bookmark("profile")],
+          changes: [change("p"), change("n"), change("m")],
+        },
+      ]),
+      undefined,
+      // Someone else's local bookmark, and a branch that only exists on the remote
+      ["push-change_m", "push-change_n", "push-change_n-2"],
+    );
+
+    assert.deepEqual(names(result), [
+      ["push-change_m-2", ["change_m"]],
+      ["push-change_n-3", ["change_n"]],
+      ["profile", ["change_p"]],
+    ]);
+  });
+});
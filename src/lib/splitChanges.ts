@@ -0,0 +1,107 @@
+// AIDEV-NOTE: Splitting stacks into one PR per change
+// jj users often describe several changes and only bookmark the top one, which makes them a single
+// segment and so a single PR. `submit --split-changes` gives every other change in the stack a
+// generated bookmark, so each one gets its own PR. The split is done on the analyzed segments in
+// memory, so a dry run can show the resulting plan; the bookmarks are only created with jj right
+// before the plan is executed.
+
+import type { Bookmark, BookmarkSegment, LogEntry } from "./jjTypes.js";
+import type { SubmissionAnalysis } from "./submit.js";
+
+// The same names `jj git push --change` gives bookmarks
+export const defaultSplitBookmarkTemplate = "push-{changeId}";
+
+/**
+ * Turn a description into something usable in a bookmark name, e.g. "Add login form" -> "add-login-form"
+ */
+export function slugify(text: string, maxLength = 40): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+/, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Fill in a split bookmark name template
+ * Supports {changeId}, {description} (a slug of the first line, or the change id if there is none)
+ * and {bookmark} (the bookmark at the top of the change's segment)
+ */
+export function formatSplitBookmarkName(
+  template: string,
+  change: LogEntry,
+  segmentBookmark: string,
+): string {
+  const values: Record<string, string> = {
+    changeId: change.changeId,
+    description: slugify(change.descriptionFirstLine) || change.changeId,
+    bookmark: segmentBookmark,
+  };
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    if (!(key in values)) {
+      throw new Error(
+        `Unknown placeholder ${placeholder} in bookmark name template "${template}". Use {changeId}, {description} or {bookmark}.`,
+      );
+    }
+    return values[key];
+  });
+}
+
+/**
+ * Give every unbookmarked change in the analyzed stack its own segment, with a generated bookmark
+ * AIDEV-NOTE: Segments on other people's changes are left alone, since they're never pushed
+ * @param existingNames Bookmarks outside the change graph that the generated names must avoid,
+ * e.g. other people's local bookmarks or branches that only exist on a remote
+ * @returns The analysis with the split segments, and the bookmarks that have to be created
+ */
+export function splitChanges(
+  analysis: SubmissionAnalysis,
+  template: string = defaultSplitBookmarkTemplate,
+  existingNames: Iterable<string> = [],
+): { analysis: SubmissionAnalysis; newBookmarks: Bookmark[] } {
+  const takenNames = new Set([
+    ...analysis.changeGraph.bookmarks.keys(),
+    ...existingNames,
+  ]);
+  const newBookmarks: Bookmark[] = [];
+  const segments: BookmarkSegment[] = [];
+
+  for (const segment of analysis.relevantSegments) {
+    const [top, ...unbookmarked] = segment.changes;
+    if (unbookmarked.length === 0 || segment.bookmarks[0].isForeign) {
+      segments.push(segment);
+      continue;
+    }
+
+    // Changes are newest first, and segments go from the bottom of the stack up
+    for (const change of [...unbookmarked].reverse()) {
+      const baseName = formatSplitBookmarkName(
+        template,
+        change,
+        segment.bookmarks[0].name,
+      );
+      let name = baseName;
+      for (let n = 2; takenNames.has(name); n++) {
+        name = `${baseName}-${n}`;
+      }
+      takenNames.add(name);
+
+      const bookmark: Bookmark = {
+        name,
+        commitId: change.commitId,
+        changeId: change.changeId,
+        hasRemote: false,
+        isSynced: false,
+      };
+      newBookmarks.push(bookmark);
+      segments.push({ bookmarks: [bookmark], changes: [change] });
+    }
+    segments.push({ bookmarks: segment.bookmarks, changes: [top] });
+  }
+
+  return {
+    analysis: { ...analysis, relevantSegments: segments },
+    newBookmarks,
+  };
+}
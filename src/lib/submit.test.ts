@@ -0,0 +1,1204 @@
+import {
+  addGeneratedBodyMarker,
+  applyNewPRMetadata,
+  applyPRTemplate,
+  buildStackCommentBody,
+  createSubmissionPlan,
+  deleteStackComment,
+  deleteStackDescription,
+  extractStackBlock,
+  findPRBaseProblem,
+  findPRTitlesNeedingUpdate,
+  findUnsubmittableChanges,
+  generatePRBody,
+  getBaseBranchOptions,
+  getExistingPRs,
+  isGeneratedBodyUnedited,
+  isGeneratedTitleUnedited,
+  isGraphQLUnavailable,
+  markPRReadyForReview,
+  orderPushAndRetargetSteps,
+  parsePRCommentData,
+  replaceGeneratedBody,
+  resolveDefaultBranch,
+  resolveDraftOptions,
+  resolveGitHubRepository,
+  setGeneratedTitleMarker,
+  upsertStackBlock,
+  type GitHubConfig,
+  type PRCommentData,
+  type PRMetadata,
+  type PullRequest,
+  type SubmissionPlan,
+  type SubmissionResult,
+} from "./submit.js";
+import type { Bookmark, LogEntry, NarrowedBookmarkSegment } from "./jjTypes.js";
+import { DefaultBranchNotFoundError, type JjFunctions } from "./jjUtils.js";
+import { RequestError, type Octokit } from "octokit";
+import assert from "assert/strict";
+
+suite("stack comment data", () => {
+  const prCommentData: PRCommentData = {
+    version: 1,
+    stack: [
+      {
+        bookmarkName: "auth",
+        prUrl: "https://github.com/owner/repo/pull/1",
+        prNumber: 1,
+        merged: true,
+      },
+      {
+        bookmarkName: "profile",
+        prUrl: "https://github.com/owner/repo/pull/2",
+        prNumber: 2,
+        merged: false,
+      },
+      {
+        bookmarkName: "profile-edit",
+        prUrl: "https://github.com/owner/repo/pull/3",
+        prNumber: 3,
+        merged: false,
+      },
+    ],
+  };
+
+  test("round-trips through the comment body", () => {
+    const body = buildStackCommentBody(prCommentData, 1);
+    assert.deepEqual(parsePRCommentData(body), prCommentData);
+  });
+
+  test("renders merged, current and other PRs", () => {
+    const body = buildStackCommentBody(prCommentData, 1);
+    assert.ok(body.includes("This PR is part of a stack of 3 bookmarks"));
+    assert.ok(
+      body.includes("1. ~~[auth](https://github.com/owner/repo/pull/1)~~"),
+    );
+    assert.ok(body.includes("1. **profile ← this PR**"));
+    assert.ok(
+      body.includes("1. [profile-edit](https://github.com/owner/repo/pull/3)"),
+    );
+  });
+
+  test("migrates version 0 data", () => {
+    const v0Data = {
+      version: 0,
+      stack: [
+        {
+          bookmarkName: "auth",
+          prUrl: "https://github.com/owner/repo/pull/1",
+          prNumber: 1,
+        },
+      ],
+    };
+    const body = `<!--- JJ-STACK_INFO: ${Buffer.from(JSON.stringify(v0Data)).toString("base64")} --->\nThis PR is part of a stack`;
+
+    assert.deepEqual(parsePRCommentData(body), {
+      version: 1,
+      stack: [{ ...v0Data.stack[0], merged: false }],
+    });
+  });
+
+  test("ignores comments without valid data", () => {
+    assert.equal(parsePRCommentData("Looks good to me!"), undefined);
+    assert.equal(
+      parsePRCommentData("<!--- JJ-STACK_INFO: not-base64-json --->"),
+      undefined,
+    );
+    const unknownVersion = Buffer.from(
+      JSON.stringify({ version: 99, stack: [] }),
+    ).toString("base64");
+    assert.equal(
+      parsePRCommentData(`<!--- JJ-STACK_INFO: ${unknownVersion} --->`),
+      undefined,
+    );
+  });
+});
+
+suite("stack description block", () => {
+  test("adds a block to an empty description", () => {
+    const body = upsertStackBlock(null, "stack list");
+    assert.equal(
+      body,
+      "<!-- jj-stack:start -->\nstack list\n<!-- jj-stack:end -->",
+    );
+    assert.equal(extractStackBlock(body), "stack list");
+  });
+
+  test("places a new block above the author's text", () => {
+    const body = upsertStackBlock("Fixes #12", "stack list");
+    assert.equal(
+      body,
+      "<!-- jj-stack:start -->\nstack list\n<!-- jj-stack:end -->\n\nFixes #12",
+    );
+  });
+
+  test("replaces an existing block and preserves surrounding text", () => {
+    const original =
+      "Intro\n<!-- jj-stack:start -->\nold list\n<!-- jj-stack:end -->\nOutro";
+    const body = upsertStackBlock(original, "new list");
+    assert.equal(
+      body,
+      "Intro\n<!-- jj-stack:start -->\nnew list\n<!-- jj-stack:end -->\nOutro",
+    );
+    assert.equal(extractStackBlock(body), "new list");
+  });
+
+  test("ignores descriptions without a complete block", () => {
+    assert.equal(extractStackBlock(null), undefined);
+    assert.equal(extractStackBlock("<!-- jj-stack:start -->\nlist"), undefined);
+  });
+
+  test("removes stack info left behind by another mode", async () => {
+    const calls: string[] = [];
+    const comments = [
+      { id: 1, body: "LGTM" },
+      {
+        id: 2,
+        body: "Stack list\n\n*Created with [jj-stack](https://github.com/keanemind/jj-stack)*",
+      },
+    ];
+    const bodies: Record<number, string> = {
+      1: upsertStackBlock("Fixes #12", "stack list"),
+      2: "Fixes #13",
+    };
+    const githubConfig = {
+      owner: "owner",
+      repo: "repo",
+      octokit: {
+        paginate: () => Promise.resolve(comments),
+        rest: {
+          issues: {
+            listComments: () => assert.fail("should be paginated"),
+            deleteComment: ({ comment_id }: { comment_id: number }) => {
+              calls.push(`delete comment ${comment_id}`);
+              return Promise.resolve({});
+            },
+          },
+          pulls: {
+            get: ({ pull_number }: { pull_number: number }) =>
+              Promise.resolve({ data: { body: bodies[pull_number] } }),
+            update: ({
+              pull_number,
+              body,
+            }: {
+              pull_number: number;
+              body: string;
+            }) => {
+              calls.push(`update #${pull_number}: ${body}`);
+              return Promise.resolve({ data: {} });
+            },
+          },
+        },
+      },
+    } as unknown as GitHubConfig;
+
+    await deleteStackComment(githubConfig, 1);
+    await deleteStackDescription(githubConfig, 1);
+    await deleteStackDescription(githubConfig, 2);
+
+    assert.deepEqual(calls, ["delete comment 2", "update #1: Fixes #12"]);
+  });
+});
+
+suite("PR body generation", () => {
+  function change(changeId: string, description: string): LogEntry {
+    return {
+      commitId: `commit_${changeId}`,
+      changeId,
+      authorName: "Test",
+      authorEmail: "test@example.com",
+      descriptionFirstLine: description.split("\n")[0],
+      description,
+      parents: [],
+      trunkParents: [],
+      hasConflict: false,
+      isDivergent: false,
+      localBookmarks: [],
+      remoteBookmarks: [],
+      isCurrentWorkingCopy: false,
+      authoredAt: new Date(),
+      committedAt: new Date(),
+    };
+  }
+
+  function segment(changes: LogEntry[]): NarrowedBookmarkSegment[] {
+    return [
+      {
+        bookmark: {
+          name: "feature",
+          commitId: changes[0].commitId,
+          changeId: changes[0].changeId,
+          hasRemote: false,
+          isSynced: false,
+        },
+        changes,
+      },
+    ];
+  }
+
+  test("uses a single change's description verbatim", () => {
+    const description = "Add login\n\nAdds a login form.\n\nFixes #3";
+    assert.equal(
+      generatePRBody("feature", segment([change("a", description)])),
+      description,
+    );
+  });
+
+  test("lists each change of a multi-change segment, oldest first", () => {
+    const body = generatePRBody(
+      "feature",
+      segment([
+        change("b", "Add logout"),
+        change("a", "Add login\n\nAdds a login form."),
+      ]),
+    );
+    assert.equal(
+      body,
+      "This PR contains 2 changes:\n\n- **Add login** (`a`)\n\n  Adds a login form.\n\n- **Add logout** (`b`)",
+    );
+  });
+
+  test("detects hand-edited descriptions", () => {
+    const body = addGeneratedBodyMarker("Add login");
+    assert.ok(isGeneratedBodyUnedited(body));
+    assert.ok(!isGeneratedBodyUnedited(body.replace("login", "sign-in")));
+    assert.ok(!isGeneratedBodyUnedited(`${body}\n\nAlso fixes #4`));
+    assert.ok(!isGeneratedBodyUnedited("Written by hand"));
+    assert.ok(!isGeneratedBodyUnedited(null));
+  });
+
+  test("ignores and preserves the stack block", () => {
+    const body = upsertStackBlock(addGeneratedBodyMarker("Add login"), "list");
+    assert.ok(isGeneratedBodyUnedited(body));
+
+    const newBody = replaceGeneratedBody(body, "Add sign-in");
+    assert.equal(extractStackBlock(newBody), "list");
+    assert.ok(newBody.includes("Add sign-in"));
+    assert.ok(isGeneratedBodyUnedited(newBody));
+  });
+
+  suite("titles", () => {
+    function existingPR(title: string, generatedTitle?: string) {
+      const body = addGeneratedBodyMarker("Add login");
+      return new Map([
+        [
+          "feature",
+          {
+            number: 1,
+            title,
+            body:
+              generatedTitle === undefined
+                ? body
+                : setGeneratedTitleMarker(body, generatedTitle),
+          } as PullRequest,
+        ],
+      ]);
+    }
+
+    test("keeps titles that match the description", () => {
+      const segments = segment([change("a", "Add login")]);
+      assert.deepEqual(
+        findPRTitlesNeedingUpdate(
+          [segments[0].bookmark],
+          existingPR("Add login", "Add login"),
+          segments,
+        ),
+        [],
+      );
+    });
+
+    test("updates titles after the description changes", () => {
+      const segments = segment([change("a", "Add sign-in")]);
+      const [update] = findPRTitlesNeedingUpdate(
+        [segments[0].bookmark],
+        existingPR("Add login", "Add login"),
+        segments,
+      );
+      assert.equal(update.currentTitle, "Add login");
+      assert.equal(update.newTitle, "Add sign-in");
+      assert.ok(
+        isGeneratedTitleUnedited({
+          title: "Add sign-in",
+          body: update.newBody,
+        }),
+      );
+      assert.ok(isGeneratedBodyUnedited(update.newBody));
+
+      const newBody = replaceGeneratedBody(update.newBody, "Add sign-in");
+      assert.ok(
+        isGeneratedTitleUnedited({ title: "Add sign-in", body: newBody }),
+      );
+    });
+
+    test("leaves titles edited on GitHub alone", () => {
+      const segments = segment([change("a", "Add sign-in")]);
+      for (const prs of [
+        existingPR("Login form (please review)", "Add login"),
+        existingPR("Add login"),
+      ]) {
+        assert.deepEqual(
+          findPRTitlesNeedingUpdate([segments[0].bookmark], prs, segments),
+          [],
+        );
+      }
+    });
+  });
+
+  test("places the body into a PR template", () => {
+    assert.equal(applyPRTemplate(undefined, "Add login"), "Add login");
+    assert.equal(
+      applyPRTemplate(
+        "## Summary\n{{description}}\n\n## Testing\n",
+        "Add login",
+      ),
+      "## Summary\nAdd login\n\n## Testing",
+    );
+    assert.equal(
+      applyPRTemplate("## Checklist\n- [ ] Tests\n", "Add login"),
+      "Add login\n\n## Checklist\n- [ ] Tests",
+    );
+  });
+});
+
+suite("GitHub repository", () => {
+  const jj = {
+    getGitRemoteList: () =>
+      Promise.resolve([
+        { name: "origin", url: "git@git.corp.example:team/app.git" },
+        { name: "fork", url: "https://git.corp.example/me/app.git" },
+      ]),
+  } as JjFunctions;
+  const enterpriseHosts = { "git.corp.example": "" };
+
+  let env: Record<string, string | undefined>;
+  setup(() => {
+    env = {
+      GITHUB_OWNER: process.env.GITHUB_OWNER,
+      GITHUB_REPO: process.env.GITHUB_REPO,
+    };
+  });
+  teardown(() => {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  test("takes the repository from the remote", async () => {
+    delete process.env.GITHUB_OWNER;
+    delete process.env.GITHUB_REPO;
+    assert.deepEqual(
+      await resolveGitHubRepository(jj, "origin", "fork", enterpriseHosts),
+      {
+        host: {
+          hostname: "git.corp.example",
+          apiUrl: "https://git.corp.example/api/v3",
+        },
+        owner: "team",
+        repo: "app",
+        headOwner: "me",
+      },
+    );
+  });
+
+  test("keeps the remote's GitHub Enterprise host when the repository is overridden", async () => {
+    process.env.GITHUB_OWNER = "platform";
+    process.env.GITHUB_REPO = "app-mirror";
+    assert.deepEqual(
+      await resolveGitHubRepository(jj, "origin", "fork", enterpriseHosts),
+      {
+        host: {
+          hostname: "git.corp.example",
+          apiUrl: "https://git.corp.example/api/v3",
+        },
+        owner: "platform",
+        repo: "app-mirror",
+        headOwner: "me",
+      },
+    );
+  });
+});
+
+suite("PR base branches", () => {
+  const segments = ["auth", "profile"].map(
+    (name): NarrowedBookmarkSegment => ({
+      bookmark: {
+        name,
+        commitId: `commit_${name}`,
+        changeId: `change_${name}`,
+        hasRemote: true,
+        isSynced: true,
+      },
+      changes: [],
+    }),
+  );
+
+  test("stacks each PR on the bookmark below it", () => {
+    assert.deepEqual(getBaseBranchOptions("auth", segments, "main"), ["main"]);
+    assert.deepEqual(getBaseBranchOptions("profile", segments, "main"), [
+      "auth",
+    ]);
+  });
+
+  test("targets the default branch from a fork", () => {
+    assert.deepEqual(getBaseBranchOptions("profile", segments, "main", true), [
+      "main",
+    ]);
+  });
+
+  test("falls back to the repository's default branch on GitHub", async () => {
+    const githubConfig = {
+      owner: "owner",
+      repo: "repo",
+      headOwner: "owner",
+      octokit: {
+        rest: {
+          repos: {
+            get: () => Promise.resolve({ data: { default_branch: "develop" } }),
+          },
+        },
+      },
+    } as unknown as GitHubConfig;
+    const jj = (getDefaultBranch: () => Promise<string>) =>
+      ({ getDefaultBranch }) as JjFunctions;
+
+    assert.equal(
+      await resolveDefaultBranch(
+        jj(() => Promise.resolve("main")),
+        githubConfig,
+      ),
+      "main",
+    );
+    assert.equal(
+      await resolveDefaultBranch(
+        jj(() =>
+          Promise.reject(new DefaultBranchNotFoundError(["release-1.2"])),
+        ),
+        githubConfig,
+      ),
+      "develop",
+    );
+    await assert.rejects(
+      resolveDefaultBranch(
+        jj(() => Promise.reject(new Error("jj failed"))),
+        githubConfig,
+      ),
+      /jj failed/,
+    );
+  });
+});
+
+suite("existing PR lookup", () => {
+  const bookmarks: Bookmark[] = ["auth", "profile", "settings"].map((name) => ({
+    name,
+    commitId: `commit_${name}`,
+    changeId: `change_${name}`,
+    hasRemote: true,
+    isSynced: true,
+  }));
+
+  function prNode(number: number, head: string, headOwner: string) {
+    return {
+      id: `PR_${number}`,
+      databaseId: 1000 + number,
+      number,
+      url: `https://github.com/owner/repo/pull/${number}`,
+      title: `PR ${number}`,
+      body: "",
+      isDraft: false,
+      baseRefName: "main",
+      baseRefOid: "base_sha",
+      headRefName: head,
+      headRefOid: "head_sha",
+      author: { login: headOwner },
+      headRepositoryOwner: { login: headOwner },
+    };
+  }
+
+  test("looks up every bookmark in one GraphQL request", async () => {
+    const queries: Record<string, unknown>[] = [];
+    const octokit = {
+      graphql: (_query: string, variables: Record<string, unknown>) => {
+        queries.push(variables);
+        return Promise.resolve({
+          repository: {
+            pr0: { nodes: [prNode(1, "auth", "owner")] },
+            pr1: { nodes: [prNode(2, "profile", "someone-else")] },
+            pr2: { nodes: [] },
+          },
+        });
+      },
+    } as unknown as Octokit;
+
+    const prs = await getExistingPRs(octokit, "owner", "repo", bookmarks);
+
+    assert.equal(queries.length, 1);
+    assert.deepEqual(queries[0], {
+      owner: "owner",
+      repo: "repo",
+      head0: "auth",
+      head1: "profile",
+      head2: "settings",
+    });
+    assert.deepEqual([...prs.keys()], ["auth"]);
+    const pr = prs.get("auth")!;
+    assert.equal(pr.number, 1);
+    assert.equal(pr.node_id, "PR_1");
+    assert.equal(pr.html_url, "https://github.com/owner/repo/pull/1");
+    assert.equal(pr.base.ref, "main");
+    assert.equal(pr.head.ref, "auth");
+  });
+
+  function requestError(status: number) {
+    return new RequestError(`HTTP ${status}`, status, {
+      request: { method: "POST", url: "/graphql", headers: {} },
+    });
+  }
+
+  test("falls back to REST when GraphQL isn't available", async () => {
+    const heads: string[] = [];
+    const octokit = {
+      graphql: () => Promise.reject(requestError(404)),
+      rest: {
+        pulls: {
+          list: ({ head }: { head: string }) => {
+            heads.push(head);
+            return Promise.resolve({
+              data: head === "fork-owner:profile" ? [{ number: 2 }] : [],
+            });
+          },
+        },
+      },
+    } as unknown as Octokit;
+
+    const prs = await getExistingPRs(
+      octokit,
+      "owner",
+      "repo",
+      bookmarks,
+      "fork-owner",
+    );
+
+    assert.deepEqual(heads, [
+      "fork-owner:auth",
+      "fork-owner:profile",
+      "fork-owner:settings",
+    ]);
+    assert.deepEqual([...prs.keys()], ["profile"]);
+  });
+
+  test("only falls back when GraphQL itself fails", async () => {
+    const graphqlError = (type: string) =>
+      Object.assign(
+        new Error("Request failed due to following response errors"),
+        {
+          name: "GraphqlResponseError",
+          errors: [{ type, message: type }],
+        },
+      );
+    assert.equal(isGraphQLUnavailable(requestError(404)), true);
+    assert.equal(isGraphQLUnavailable(graphqlError("UNDEFINED_FIELD")), true);
+    assert.equal(isGraphQLUnavailable(graphqlError("RATE_LIMITED")), false);
+    assert.equal(isGraphQLUnavailable(requestError(401)), false);
+    assert.equal(isGraphQLUnavailable(new Error("ECONNRESET")), false);
+
+    const octokit = {
+      graphql: () => Promise.reject(requestError(401)),
+      rest: { pulls: { list: () => assert.fail("REST shouldn't be tried") } },
+    } as unknown as Octokit;
+    await assert.rejects(
+      getExistingPRs(octokit, "owner", "repo", bookmarks),
+      /HTTP 401/,
+    );
+  });
+});
+
+suite("execution order", () => {
+  const [auth, profile, settings] = ["auth", "profile", "settings"].map(
+    (name): Bookmark => ({
+      name,
+      commitId: `commit_${name}`,
+      changeId: `change_${name}`,
+      hasRemote: true,
+      isSynced: false,
+    }),
+  );
+
+  function baseUpdate(bookmark: Bookmark, from: string, to: string) {
+    const pr = { number: 1, base: { ref: from } } as PullRequest;
+    return {
+      bookmark,
+      currentBaseBranch: from,
+      expectedBaseBranchOptions: [to],
+      pr,
+    };
+  }
+
+  function plan(
+    bookmarksNeedingPRBaseUpdate: SubmissionPlan["bookmarksNeedingPRBaseUpdate"],
+  ): SubmissionPlan {
+    return {
+      targetBookmark: "settings",
+      bookmarksToSubmit: [auth, profile, settings],
+      bookmarksNeedingPush: [auth, profile, settings],
+      bookmarksNeedingPR: [],
+      bookmarksNeedingPRBaseUpdate,
+      bookmarksNeedingPRTitleUpdate: [],
+      bookmarksNeedingPRBodyUpdate: [],
+      bookmarksNeedingReadyForReview: [],
+      newPRMetadata: { reviewers: [], assignees: [], labels: [] },
+      repoInfo: { owner: "owner", repo: "repo" },
+      existingPRs: new Map(),
+      remoteName: "origin",
+      defaultBranch: "main",
+      stackInfoMode: "comment",
+    };
+  }
+
+  function describe(steps: ReturnType<typeof orderPushAndRetargetSteps>) {
+    return steps.map((step) =>
+      step.kind === "push"
+        ? `push ${step.bookmark.name}`
+        : `${step.bookmark.name}: ${step.from} -> ${step.to}${step.temporary ? " (temporary)" : ""}`,
+    );
+  }
+
+  test("retargets each PR right after pushing it, bottom to top", () => {
+    const steps = orderPushAndRetargetSteps(
+      plan([
+        baseUpdate(profile, "main", "auth"),
+        baseUpdate(settings, "main", "profile"),
+      ]),
+    );
+    assert.deepEqual(describe(steps), [
+      "push auth",
+      "push profile",
+      "profile: main -> auth",
+      "push settings",
+      "settings: main -> profile",
+    ]);
+  });
+
+  test("parks PRs on the default branch before their base leaves the stack", () => {
+    const steps = orderPushAndRetargetSteps(
+      plan([
+        baseUpdate(auth, "old-auth", "main"),
+        baseUpdate(settings, "old-profile", "profile"),
+      ]),
+    );
+    assert.deepEqual(describe(steps), [
+      "auth: old-auth -> main",
+      "settings: old-profile -> main (temporary)",
+      "push auth",
+      "push profile",
+      "push settings",
+      "settings: main -> profile",
+    ]);
+  });
+
+  test("reports PRs left on the wrong base", () => {
+    const pr = { number: 2, state: "open", base: { ref: "auth", sha: "abc" } };
+    assert.equal(findPRBaseProblem(pr, "auth", "abc"), undefined);
+    assert.equal(findPRBaseProblem(pr, "auth"), undefined);
+    assert.equal(
+      findPRBaseProblem({ ...pr, state: "closed" }, "auth", "abc"),
+      "PR #2 is closed",
+    );
+    assert.equal(
+      findPRBaseProblem(pr, "main"),
+      "PR #2 is based on auth instead of main",
+    );
+    assert.equal(
+      findPRBaseProblem(pr, "auth", "def"),
+      "PR #2 is based on auth at abc, but auth is at def",
+    );
+  });
+
+  test("matches jj's short commit ids against GitHub's full shas", () => {
+    const pr = {
+      number: 2,
+      state: "open",
+      base: { ref: "auth", sha: "3f4e2a1b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f" },
+    };
+    assert.equal(findPRBaseProblem(pr, "auth", "3f4e2a1b9c8d"), undefined);
+    assert.equal(
+      findPRBaseProblem(pr, "auth", "0a1b2c3d4e5f"),
+      "PR #2 is based on auth at 3f4e2a1b, but auth is at 0a1b2c3d",
+    );
+  });
+});
+
+suite("unsubmittable changes", () => {
+  function segment(
+    name: string,
+    problems: { hasConflict?: boolean; isDivergent?: boolean } = {},
+    conflictedTargets?: string[],
+  ): NarrowedBookmarkSegment {
+    const change = {
+      commitId: `commit_${name}`,
+      changeId: `change_${name}`,
+      descriptionFirstLine: `Change ${name}`,
+      hasConflict: false,
+      isDivergent: false,
+      ...problems,
+    } as LogEntry;
+    return {
+      bookmark: {
+        name,
+        commitId: change.commitId,
+        changeId: change.changeId,
+        hasRemote: false,
+        isSynced: false,
+        conflictedTargets,
+      },
+      changes: [change],
+    };
+  }
+
+  test("refuses to plan a stack with conflicts or divergent changes", async () => {
+    const segments = [
+      segment("auth", { hasConflict: true }),
+      segment("profile"),
+      segment("settings", { isDivergent: true }),
+      segment("prefs", {}, ["commit_a", "commit_b"]),
+    ];
+    const problems = findUnsubmittableChanges(segments);
+    assert.equal(problems.length, 3);
+    assert.match(
+      problems[0],
+      /change_auth "Change auth" \(in auth\) has unresolved conflicts/,
+    );
+    assert.match(problems[1], /change_setti.* is divergent/);
+    assert.match(problems[2], /jj bookmark set prefs -r <commit>/);
+    assert.deepEqual(findUnsubmittableChanges([segment("profile")]), []);
+
+    await assert.rejects(
+      createSubmissionPlan(
+        {} as JjFunctions,
+        {} as GitHubConfig,
+        segments,
+        "origin",
+      ),
+      /Can't submit prefs until these are fixed/,
+    );
+  });
+});
+
+suite("other people's bookmarks", () => {
+  function segment(
+    name: string,
+    bookmark: Partial<Bookmark> = {},
+  ): NarrowedBookmarkSegment {
+    const change = {
+      commitId: `commit_${name}`,
+      changeId: `change_${name}`,
+      descriptionFirstLine: `Change ${name}`,
+      description: `Change ${name}`,
+      hasConflict: false,
+      isDivergent: false,
+    } as LogEntry;
+    return {
+      bookmark: {
+        name,
+        commitId: change.commitId,
+        changeId: change.changeId,
+        hasRemote: false,
+        isSynced: false,
+        ...bookmark,
+      },
+      changes: [change],
+    };
+  }
+
+  // Answers PR lookups with an open PR for each of the given branches, based on develop
+  function githubWithPRs(heads: string[]): GitHubConfig {
+    const graphql = (_query: string, variables: Record<string, string>) => {
+      const repository: Record<string, unknown> = {};
+      for (const [key, head] of Object.entries(variables)) {
+        if (!key.startsWith("head")) continue;
+        const number = heads.indexOf(head) + 1;
+        repository[`pr${key.slice(4)}`] = {
+          nodes: number
+            ? [
+                {
+                  id: `PR_${number}`,
+                  databaseId: number,
+                  number,
+                  url: `https://github.com/owner/repo/pull/${number}`,
+                  title: `Change ${head}`,
+                  body: "Hand-written",
+                  isDraft: true,
+                  baseRefName: "develop",
+                  baseRefOid: "base_sha",
+                  headRefName: head,
+                  headRefOid: "head_sha",
+                  author: { login: "teammate" },
+                  headRepositoryOwner: { login: "owner" },
+                },
+              ]
+            : [],
+        };
+      }
+      return Promise.resolve({ repository });
+    };
+    return {
+      owner: "owner",
+      repo: "repo",
+      headOwner: "owner",
+      octokit: { graphql },
+    } as unknown as GitHubConfig;
+  }
+
+  const jj = {
+    getDefaultBranch: () => Promise.resolve("main"),
+  } as JjFunctions;
+
+  test("stacks on their PRs without pushing or editing them", async () => {
+    const segments = [
+      segment("theirs", { hasRemote: true, isSynced: true, isForeign: true }),
+      segment("mine"),
+    ];
+
+    const plan = await createSubmissionPlan(
+      jj,
+      githubWithPRs(["theirs"]),
+      segments,
+      "origin",
+      { updatePRBodies: true, markReady: true },
+    );
+
+    assert.deepEqual(
+      plan.bookmarksToSubmit.map((b) => b.name),
+      ["theirs", "mine"],
+    );
+    assert.equal(plan.existingPRs.get("theirs")?.number, 1);
+    assert.deepEqual(
+      plan.bookmarksNeedingPush.map((b) => b.name),
+      ["mine"],
+    );
+    assert.deepEqual(
+      plan.bookmarksNeedingPR.map((item) => [
+        item.bookmark.name,
+        item.baseBranchOptions,
+      ]),
+      [["mine", ["theirs"]]],
+    );
+    // Their PR is based on develop and a draft, but that's up to them
+    assert.deepEqual(plan.bookmarksNeedingPRBaseUpdate, []);
+    assert.deepEqual(plan.bookmarksNeedingReadyForReview, []);
+  });
+
+  test("needs their bookmark to have a PR and match the remote", async () => {
+    const segments = [
+      segment("unopened", { hasRemote: true, isSynced: true, isForeign: true }),
+      segment("rebased", { hasRemote: true, isSynced: false, isForeign: true }),
+      segment("mine"),
+    ];
+
+    await assert.rejects(
+      createSubmissionPlan(jj, githubWithPRs(["rebased"]), segments, "origin"),
+      (error: Error) => {
+        assert.match(error.message, /Can't submit mine until these are fixed/);
+        assert.match(error.message, /unopened is someone else's .* no open PR/);
+        assert.match(error.message, /jj rebase -d rebased@<remote>/);
+        return true;
+      },
+    );
+    await assert.rejects(
+      createSubmissionPlan(
+        jj,
+        githubWithPRs([]),
+        segments.slice(0, 1),
+        "origin",
+      ),
+      /Can't submit unopened: it's on someone else's change/,
+    );
+  });
+});
+
+suite("draft PRs", () => {
+  const segments = ["auth", "profile", "settings"].map(
+    (name): NarrowedBookmarkSegment => ({
+      bookmark: {
+        name,
+        commitId: `commit_${name}`,
+        changeId: `change_${name}`,
+        hasRemote: true,
+        isSynced: true,
+      },
+      changes: [
+        {
+          commitId: `commit_${name}`,
+          changeId: `change_${name}`,
+          descriptionFirstLine: `Change ${name}`,
+          description: `Change ${name}`,
+          hasConflict: false,
+          isDivergent: false,
+        } as LogEntry,
+      ],
+    }),
+  );
+
+  // auth has a draft PR and profile a ready one, both on the right base; settings has none yet
+  const githubConfig = {
+    owner: "owner",
+    repo: "repo",
+    headOwner: "owner",
+    octokit: {
+      graphql: (_query: string, variables: Record<string, string>) => {
+        const repository: Record<string, unknown> = {};
+        for (const [key, head] of Object.entries(variables)) {
+          if (!key.startsWith("head")) continue;
+          const number = ["auth", "profile"].indexOf(head) + 1;
+          repository[`pr${key.slice(4)}`] = {
+            nodes: number
+              ? [
+                  {
+                    id: `PR_${number}`,
+                    databaseId: number,
+                    number,
+                    url: `https://github.com/owner/repo/pull/${number}`,
+                    title: `Change ${head}`,
+                    body: "Hand-written",
+                    isDraft: head === "auth",
+                    baseRefName: head === "auth" ? "main" : "auth",
+                    baseRefOid: "base_sha",
+                    headRefName: head,
+                    headRefOid: "head_sha",
+                    author: { login: "owner" },
+                    headRepositoryOwner: { login: "owner" },
+                  },
+                ]
+              : [],
+          };
+        }
+        return Promise.resolve({ repository });
+      },
+    },
+  } as unknown as GitHubConfig;
+
+  const jj = {
+    getDefaultBranch: () => Promise.resolve("main"),
+  } as JjFunctions;
+
+  test("creates new PRs as drafts only when asked", async () => {
+    for (const [options, draft] of [
+      [{}, false],
+      [{ draft: false }, false],
+      [{ draft: true }, true],
+    ] as const) {
+      const plan = await createSubmissionPlan(
+        jj,
+        githubConfig,
+        segments,
+        "origin",
+        options,
+      );
+      assert.deepEqual(
+        plan.bookmarksNeedingPR.map((item) => [item.bookmark.name, item.draft]),
+        [["settings", draft]],
+      );
+      assert.deepEqual(plan.bookmarksNeedingReadyForReview, []);
+    }
+  });
+
+  test("marks existing draft PRs ready with --ready", async () => {
+    const plan = await createSubmissionPlan(
+      jj,
+      githubConfig,
+      segments,
+      "origin",
+      { markReady: true },
+    );
+    assert.deepEqual(
+      plan.bookmarksNeedingReadyForReview.map((item) => [
+        item.bookmark.name,
+        item.pr.number,
+      ]),
+      [["auth", 1]],
+    );
+    assert.deepEqual(
+      plan.bookmarksNeedingPR.map((item) => item.draft),
+      [false],
+    );
+  });
+
+  test("lets the flags override the configured draft default", () => {
+    const flags = { draft: false, ready: false };
+    assert.deepEqual(resolveDraftOptions(flags), {
+      draft: false,
+      markReady: false,
+    });
+    assert.deepEqual(resolveDraftOptions(flags, true), {
+      draft: true,
+      markReady: false,
+    });
+    assert.deepEqual(resolveDraftOptions({ ...flags, draft: true }, false), {
+      draft: true,
+      markReady: false,
+    });
+    assert.deepEqual(resolveDraftOptions({ ...flags, ready: true }, true), {
+      draft: false,
+      markReady: true,
+    });
+    assert.throws(
+      () => resolveDraftOptions({ draft: true, ready: true }),
+      /--draft and --ready cannot be used together/,
+    );
+  });
+
+  test("marks a PR ready through GraphQL", async () => {
+    const calls: unknown[] = [];
+    const octokit = {
+      graphql: (_query: string, variables: unknown) => {
+        calls.push(variables);
+        return Promise.resolve({});
+      },
+      rest: {
+        pulls: {
+          get: ({ pull_number }: { pull_number: number }) =>
+            Promise.resolve({ data: { number: pull_number, draft: false } }),
+        },
+      },
+    } as unknown as Octokit;
+
+    const pr = await markPRReadyForReview(octokit, "owner", "repo", {
+      number: 1,
+      node_id: "PR_1",
+    } as PullRequest);
+
+    assert.deepEqual(calls, [{ pullRequestId: "PR_1" }]);
+    assert.deepEqual(pr, { number: 1, draft: false });
+  });
+});
+
+suite("new PR metadata", () => {
+  const auth: Bookmark = {
+    name: "auth",
+    commitId: "commit_auth",
+    changeId: "change_auth",
+    hasRemote: true,
+    isSynced: true,
+  };
+  const pr = { number: 1, user: { login: "me" } } as PullRequest;
+
+  function plan(metadata: Partial<PRMetadata>) {
+    return {
+      newPRMetadata: { reviewers: [], assignees: [], labels: [], ...metadata },
+    } as unknown as SubmissionPlan;
+  }
+
+  function result(): SubmissionResult {
+    return {
+      success: true,
+      pushedBookmarks: [],
+      createdPRs: [],
+      updatedPRs: [],
+      errors: [],
+    };
+  }
+
+  // Records each request without the repository, and fails the ones for the given endpoints
+  function github(calls: unknown[], failing: string[] = []): GitHubConfig {
+    const endpoint = (name: string) => (params: Record<string, unknown>) => {
+      if (failing.includes(name)) {
+        return Promise.reject(new Error(`${name} failed`));
+      }
+      const request = { ...params };
+      delete request.owner;
+      delete request.repo;
+      calls.push({ [name]: request });
+      return Promise.resolve({ data: {} });
+    };
+    return {
+      owner: "owner",
+      repo: "repo",
+      headOwner: "owner",
+      octokit: {
+        rest: {
+          pulls: { requestReviewers: endpoint("requestReviewers") },
+          issues: {
+            addAssignees: endpoint("addAssignees"),
+            addLabels: endpoint("addLabels"),
+          },
+        },
+      },
+    } as unknown as GitHubConfig;
+  }
+
+  test("requests reviews from users and teams, but not the PR's author", async () => {
+    const calls: unknown[] = [];
+    const reported: string[][] = [];
+
+    await applyNewPRMetadata(
+      plan({ reviewers: ["alice", "my-org/frontend", "me"] }),
+      github(calls),
+      auth,
+      pr,
+      result(),
+      {
+        onReviewersRequested: (_bookmark, reviewers) =>
+          reported.push(reviewers),
+      },
+    );
+
+    assert.deepEqual(calls, [
+      {
+        requestReviewers: {
+          pull_number: 1,
+          reviewers: ["alice"],
+          team_reviewers: ["frontend"],
+        },
+      },
+    ]);
+    assert.deepEqual(reported, [["alice", "my-org/frontend"]]);
+  });
+
+  test("adds assignees and labels, and skips what isn't set", async () => {
+    const calls: unknown[] = [];
+
+    await applyNewPRMetadata(
+      plan({ assignees: ["me"], labels: ["stacked"] }),
+      github(calls),
+      auth,
+      pr,
+      result(),
+    );
+
+    assert.deepEqual(calls, [
+      { addAssignees: { issue_number: 1, assignees: ["me"] } },
+      { addLabels: { issue_number: 1, labels: ["stacked"] } },
+    ]);
+  });
+
+  test("records failures without stopping or failing the submission", async () => {
+    const calls: unknown[] = [];
+    const submissionResult = result();
+    const errors: string[] = [];
+
+    await applyNewPRMetadata(
+      plan({ reviewers: ["alice"], assignees: ["me"], labels: ["stacked"] }),
+      github(calls, ["requestReviewers", "addAssignees"]),
+      auth,
+      pr,
+      submissionResult,
+      { onError: (_error, context) => errors.push(context) },
+    );
+
+    assert.deepEqual(calls, [
+      { addLabels: { issue_number: 1, labels: ["stacked"] } },
+    ]);
+    assert.deepEqual(errors, [
+      "requesting reviewers for auth",
+      "adding assignees for auth",
+    ]);
+    assert.deepEqual(
+      submissionResult.errors.map((e) => e.error.message),
+      ["requestReviewers failed", "addAssignees failed"],
+    );
+    assert.equal(submissionResult.success, true);
+  });
+});
@@ -1,5 +1,13 @@
-import { Octokit } from "octokit";
-import { getGitHubAuth } from "./auth.js";
+import { createHash } from "crypto";
+import { RequestError, type Octokit } from "octokit";
+import {
+  getGitHubAuth,
+  githubDotCom,
+  resolveGitHubHost,
+  type GitHubHost,
+} from "./auth.js";
+import { loadConfig } from "./config.js";
+import { createOctokit } from "./github.js";
 import type {
   Bookmark,
   ChangeGraph,
@@ -7,10 +15,17 @@ import type {
   NarrowedBookmarkSegment,
 } from "./jjTypes.js";
 import type { JjFunctions } from "./jjUtils.js";
-import { isGitHubRemote } from "./jjUtils.js";
+import {
+  DefaultBranchNotFoundError,
+  describeExclusionFix,
+  describeExclusionReason,
+  getRemoteHost,
+  isGitHubRemote,
+} from "./jjUtils.js";
+import { logger } from "./logger.js";
 import * as v from "valibot";
 
-export type PullRequest = PullRequestItem | PullRequestListItem;
+export type PullRequest = PullRequestItem | PullRequestListItem | ExistingPR;
 type PullRequestItem = Awaited<
   ReturnType<Octokit["rest"]["pulls"]["get"]>
 >["data"];
@@ -22,6 +37,16 @@ export interface GitHubConfig {
   owner: string;
   repo: string;
   octokit: Octokit;
+  // AIDEV-NOTE: Owner of the repository bookmarks are pushed to. Differs from owner in the fork
+  // workflow, where PRs are opened against upstream from branches in the user's fork.
+  headOwner: string;
+}
+
+/**
+ * Whether bookmarks are pushed to a fork rather than to the repository PRs are opened against
+ */
+export function isForkWorkflow(githubConfig: GitHubConfig): boolean {
+  return githubConfig.headOwner !== githubConfig.owner;
 }
 
 // AIDEV-NOTE: Types for three-phase submission approach
@@ -33,6 +58,46 @@ export interface SubmissionAnalysis {
   relevantSegments: BookmarkSegment[];
 }
 
+// AIDEV-NOTE: Where the stack list is rendered on each PR. "body" keeps it in a delimited
+// block of the PR description, which is harder for bots to bury than a comment.
+export type StackInfoMode = "comment" | "body" | "both";
+
+// Phase 2: Plan creation options
+export interface SubmissionOptions {
+  stackInfoMode?: StackInfoMode;
+  updatePRBodies?: boolean; // Regenerate descriptions of existing PRs that weren't hand-edited
+  draft?: boolean; // Create new PRs as drafts
+  markReady?: boolean; // Convert existing draft PRs in the stack to ready for review
+  reviewers?: string[]; // Users, or teams as "org/team-slug", to request reviews from on new PRs
+  assignees?: string[]; // Users to assign to new PRs
+  labels?: string[]; // Labels to add to new PRs
+  prTemplate?: string; // Template that generated PR descriptions are placed into
+}
+
+/**
+ * Decide whether new PRs are created as drafts and existing drafts are marked ready, from the
+ * --draft and --ready flags and the configured draft default
+ * AIDEV-NOTE: --ready overrides a configured draft default rather than conflicting with it
+ */
+export function resolveDraftOptions(
+  flags: { draft: boolean; ready: boolean },
+  configDraft = false,
+): { draft: boolean; markReady: boolean } {
+  if (flags.draft && flags.ready) {
+    throw new Error("--draft and --ready cannot be used together");
+  }
+  return {
+    draft: flags.draft || (!flags.ready && configDraft),
+    markReady: flags.ready,
+  };
+}
+
+export interface PRMetadata {
+  reviewers: string[];
+  assignees: string[];
+  labels: string[];
+}
+
 // Phase 2: Plan creation callbacks (simplified, no bookmark selection)
 export interface PlanCallbacks {
   onCheckingPRs?: (bookmarks: Bookmark[]) => void;
@@ -40,17 +105,39 @@ export interface PlanCallbacks {
   onError?: (error: Error, context: string) => void;
 }
 
-const PRCommentDataSchema = v.object({
-  version: v.number(),
+// AIDEV-NOTE: Stack metadata embedded in PR comments is versioned. Older payloads are
+// still parsed and migrated to the current version by migratePRCommentData, so bump
+// the version (and add a migration) whenever the stored shape changes.
+const PRCommentDataV0Schema = v.object({
+  version: v.literal(0),
+  stack: v.array(
+    v.object({
+      bookmarkName: v.string(),
+      prUrl: v.pipe(v.string(), v.url()),
+      prNumber: v.number(),
+    }),
+  ),
+});
+
+const PRCommentDataV1Schema = v.object({
+  version: v.literal(1),
   stack: v.array(
     v.object({
       bookmarkName: v.string(),
       prUrl: v.pipe(v.string(), v.url()),
       prNumber: v.number(),
+      merged: v.boolean(),
     }),
   ),
 });
-type PRCommentData = v.InferOutput<typeof PRCommentDataSchema>;
+
+const PRCommentDataSchema = v.variant("version", [
+  PRCommentDataV0Schema,
+  PRCommentDataV1Schema,
+]);
+
+export const currentPRCommentDataVersion = 1;
+export type PRCommentData = v.InferOutput<typeof PRCommentDataV1Schema>;
 
 export interface SubmissionPlan {
   targetBookmark: string;
@@ -59,7 +146,8 @@ export interface SubmissionPlan {
   bookmarksNeedingPR: {
     bookmark: Bookmark;
     baseBranchOptions: string[];
-    prContent: { title: string };
+    prContent: { title: string; body: string };
+    draft: boolean;
   }[];
   bookmarksNeedingPRBaseUpdate: {
     bookmark: Bookmark;
@@ -67,16 +155,54 @@ export interface SubmissionPlan {
     expectedBaseBranchOptions: string[];
     pr: PullRequest;
   }[];
+  bookmarksNeedingPRTitleUpdate: {
+    bookmark: Bookmark;
+    currentTitle: string;
+    newTitle: string;
+    newBody: string; // The description with the new title's marker
+    pr: PullRequest;
+  }[];
+  bookmarksNeedingPRBodyUpdate: {
+    bookmark: Bookmark;
+    pr: PullRequest;
+    newBody: string;
+  }[];
+  bookmarksNeedingReadyForReview: {
+    bookmark: Bookmark;
+    pr: PullRequest;
+  }[];
+  newPRMetadata: PRMetadata; // Applied to every PR created by this plan
   repoInfo: { owner: string; repo: string };
   existingPRs: Map<string, PullRequest>;
   remoteName: string;
+  defaultBranch: string;
+  stackInfoMode: StackInfoMode;
 }
 
+/**
+ * A push or PR base update, in the order executeSubmissionPlan runs them
+ */
+export type ExecutionStep =
+  | { kind: "push"; bookmark: Bookmark }
+  | {
+      kind: "update-base";
+      bookmark: Bookmark;
+      pr: PullRequest;
+      from: string;
+      to: string;
+      temporary: boolean; // Parks the PR on the default branch until its new base is pushed
+    };
+
 // Phase 3: Execution callbacks (unchanged from before)
 export interface ExecutionCallbacks {
   onPushStarted?: (bookmark: Bookmark, remote: string) => void;
   onPushCompleted?: (bookmark: Bookmark, remote: string) => void;
-  onPRStarted?: (bookmark: Bookmark, title: string, base: string) => void;
+  onPRStarted?: (
+    bookmark: Bookmark,
+    title: string,
+    base: string,
+    draft: boolean,
+  ) => void;
   onPRCompleted?: (bookmark: Bookmark, pr: PullRequest) => void;
   onPRBaseUpdateStarted?: (
     bookmark: Bookmark,
@@ -84,6 +210,20 @@ export interface ExecutionCallbacks {
     newBase: string,
   ) => void;
   onPRBaseUpdateCompleted?: (bookmark: Bookmark, pr: PullRequest) => void;
+  onPRTitleUpdateStarted?: (
+    bookmark: Bookmark,
+    currentTitle: string,
+    newTitle: string,
+  ) => void;
+  onPRTitleUpdateCompleted?: (bookmark: Bookmark, pr: PullRequest) => void;
+  onPRBodyUpdateStarted?: (bookmark: Bookmark) => void;
+  onPRBodyUpdateCompleted?: (bookmark: Bookmark, pr: PullRequest) => void;
+  onPRReadyForReviewStarted?: (bookmark: Bookmark) => void;
+  onPRReadyForReviewCompleted?: (bookmark: Bookmark, pr: PullRequest) => void;
+  onReviewersRequested?: (bookmark: Bookmark, reviewers: string[]) => void;
+  onAssigneesAdded?: (bookmark: Bookmark, assignees: string[]) => void;
+  onLabelsAdded?: (bookmark: Bookmark, labels: string[]) => void;
+  onStackInfoUpdated?: (bookmarkName: string, prNumber: number) => void;
   onError?: (error: Error, context: string) => void;
 }
 
@@ -120,16 +260,51 @@ export function analyzeSubmissionGraph(
     }
   }
 
+  const excluded = changeGraph.excludedBookmarks.find(
+    (b) => b.name === bookmarkName,
+  );
+  if (excluded) {
+    throw new Error(
+      `Bookmark '${bookmarkName}' can't be submitted: ${describeExclusionReason(excluded.reason)}. ${describeExclusionFix(bookmarkName, excluded.reason)}`,
+    );
+  }
   throw new Error(`Bookmark '${bookmarkName}' not found in any stack`);
 }
 
 /**
- * Extract GitHub owner and repo from jj git remote URL
+ * Get the branch the bottom PR of a stack targets, falling back to the GitHub repository's
+ * default branch when trunk() has no remote bookmark that looks like one
+ */
+export async function resolveDefaultBranch(
+  jj: JjFunctions,
+  githubConfig: GitHubConfig,
+): Promise<string> {
+  try {
+    return await jj.getDefaultBranch();
+  } catch (error) {
+    if (!(error instanceof DefaultBranchNotFoundError)) {
+      throw error;
+    }
+    const { data } = await githubConfig.octokit.rest.repos.get({
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+    });
+    logger.debug(
+      `No default branch candidate on trunk(), using ${data.default_branch} from GitHub`,
+    );
+    return data.default_branch;
+  }
+}
+
+/**
+ * Extract GitHub host, owner and repo from jj git remote URL
  */
 export async function getGitHubRepoInfo(
   jj: JjFunctions,
   remoteName: string,
+  enterpriseHosts: string[] = [],
 ): Promise<{
+  host: string;
   owner: string;
   repo: string;
 }> {
@@ -145,16 +320,19 @@ export async function getGitHubRepoInfo(
   const remoteUrl = targetRemote.url;
 
   // Validate that this is a GitHub remote
-  if (!isGitHubRemote(remoteUrl)) {
+  if (!isGitHubRemote(remoteUrl, enterpriseHosts)) {
     throw new Error(
-      `Remote '${remoteName}' does not point to GitHub.com: ${remoteUrl}`,
+      `Remote '${remoteName}' does not point to GitHub.com or a configured GitHub Enterprise host: ${remoteUrl}`,
     );
   }
 
-  // Parse GitHub URLs - support both HTTPS and SSH formats
+  // Parse GitHub URLs - support HTTPS and SSH formats
   // HTTPS: https://github.com/owner/repo.git
+  // SSH: ssh://git@github.com:22/owner/repo.git
   // SSH: git@github.com:owner/repo.git
-  const match = remoteUrl.match(/github\.com[:/]([^/]+)\/([^/.]+)/);
+  const match = remoteUrl.match(
+    /^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@/]+@)?[^:/@]+(?::\d+)?[:/]+([^/]+)\/([^/]+?)(?:\.git)?\/?$/i,
+  );
 
   if (!match) {
     throw new Error(
@@ -162,42 +340,119 @@ export async function getGitHubRepoInfo(
     );
   }
 
-  const owner = match[1];
-  let repo = match[2];
+  return { host: getRemoteHost(remoteUrl)!, owner: match[1], repo: match[2] };
+}
+
+/**
+ * Get the GitHub instance a remote is on, for checking authentication against it
+ */
+export async function getGitHubHost(
+  jj: JjFunctions,
+  remoteName: string,
+): Promise<GitHubHost> {
+  const { config } = await loadConfig(jj);
+  const enterpriseHosts = config.githubHosts ?? {};
+  const { host } = await getGitHubRepoInfo(
+    jj,
+    remoteName,
+    Object.keys(enterpriseHosts),
+  );
+  return resolveGitHubHost(host, enterpriseHosts);
+}
 
-  // Remove .git suffix if present
-  if (repo.endsWith(".git")) {
-    repo = repo.slice(0, -4);
+/**
+ * Find the GitHub instance, repository and fork owner that PRs are opened with
+ * AIDEV-NOTE: The remote's host picks the GitHub instance, so GitHub Enterprise remotes get their
+ * own API URL and token. GITHUB_OWNER and GITHUB_REPO only override the repository: with both set,
+ * the remote URL doesn't have to be a GitHub URL, but its host still picks the instance.
+ */
+export async function resolveGitHubRepository(
+  jj: JjFunctions,
+  remoteName: string,
+  pushRemoteName: string = remoteName,
+  enterpriseHosts: Record<string, string> = {},
+): Promise<{
+  host: GitHubHost;
+  owner: string;
+  repo: string;
+  headOwner: string;
+}> {
+  const envOwner = process.env.GITHUB_OWNER;
+  const envRepo = process.env.GITHUB_REPO;
+  let repoInfo: { host: string; owner: string; repo: string };
+  if (envOwner && envRepo) {
+    const remotes = await jj.getGitRemoteList();
+    const remoteUrl = remotes.find((remote) => remote.name === remoteName)?.url;
+    repoInfo = {
+      host: (remoteUrl && getRemoteHost(remoteUrl)) ?? githubDotCom.hostname,
+      owner: envOwner,
+      repo: envRepo,
+    };
+  } else {
+    repoInfo = await getGitHubRepoInfo(
+      jj,
+      remoteName,
+      Object.keys(enterpriseHosts),
+    );
+  }
+  const host = resolveGitHubHost(repoInfo.host, enterpriseHosts);
+
+  // Environment variables override the owner/repo from the git remote
+  const owner = envOwner || repoInfo.owner;
+  const repo = envRepo || repoInfo.repo;
+
+  // Bookmarks pushed to the PR remote end up in the repository PRs are opened against, so only a
+  // push remote owned by someone else is a fork. Comparing remotes rather than against owner
+  // keeps a GITHUB_OWNER override from looking like a fork.
+  let headOwner = owner;
+  if (pushRemoteName !== remoteName) {
+    const pushRepoInfo = await getGitHubRepoInfo(
+      jj,
+      pushRemoteName,
+      Object.keys(enterpriseHosts),
+    );
+    const pushHost = resolveGitHubHost(pushRepoInfo.host, enterpriseHosts);
+    if (pushHost.hostname !== host.hostname) {
+      throw new Error(
+        `Push remote '${pushRemoteName}' (${pushRepoInfo.host}) must be on the same GitHub host as '${remoteName}' (${repoInfo.host})`,
+      );
+    }
+    if (pushRepoInfo.owner !== repoInfo.owner) {
+      headOwner = pushRepoInfo.owner;
+    }
   }
 
-  return { owner, repo };
+  return { host, owner, repo, headOwner };
 }
 
 /**
  * Get the GitHub configuration from environment or config
+ * AIDEV-NOTE: PRs are opened against remoteName; pushRemoteName is only used to find the owner of
+ * the fork that bookmarks are pushed to (see resolveGitHubRepository).
  */
 export async function getGitHubConfig(
   jj: JjFunctions,
   remoteName: string,
+  pushRemoteName: string = remoteName,
 ): Promise<GitHubConfig> {
+  const { config } = await loadConfig(jj);
+  const { host, owner, repo, headOwner } = await resolveGitHubRepository(
+    jj,
+    remoteName,
+    pushRemoteName,
+    config.githubHosts,
+  );
+
   // Get authentication using the auth utility
-  const authResult = await getGitHubAuth();
+  const authResult = await getGitHubAuth(host);
   if (authResult.kind !== "success") {
-    throw new Error(`GitHub authentication failed: ${authResult.reason}`);
-  }
-  const octokit = new Octokit({ auth: authResult.config.token });
-
-  // Try to extract owner/repo from git remote, fall back to environment variables
-  let owner = process.env.GITHUB_OWNER;
-  let repo = process.env.GITHUB_REPO;
-
-  if (!owner || !repo) {
-    const repoInfo = await getGitHubRepoInfo(jj, remoteName);
-    owner = repoInfo.owner;
-    repo = repoInfo.repo;
+    throw new Error(
+      `GitHub authentication failed for ${host.hostname}: ${authResult.reason}`,
+    );
   }
+  const octokit = createOctokit(authResult.config.token, host.apiUrl);
 
-  return { owner, repo, octokit };
+  return { owner, repo, octokit, headOwner };
 }
 
 /**
@@ -208,11 +463,12 @@ export async function findExistingPR(
   owner: string,
   repo: string,
   headBranch: string,
+  headOwner: string = owner,
 ): Promise<PullRequestListItem | null> {
   const result = await octokit.rest.pulls.list({
     owner,
     repo,
-    head: `${owner}:${headBranch}`,
+    head: `${headOwner}:${headBranch}`,
     state: "open",
   });
 
@@ -222,18 +478,21 @@ export async function findExistingPR(
 
 /**
  * Get the base branch for a bookmark based on what it's stacked on
+ * AIDEV-NOTE: In the fork workflow every PR targets the default branch, because the bookmarks
+ * below it only exist in the fork and PRs can't target another repository's branches
  */
 export function getBaseBranchOptions(
   bookmarkName: string,
   segments: NarrowedBookmarkSegment[],
   defaultBranch: string,
+  forkWorkflow = false,
 ): string[] {
   // Find the bookmark in the segments array
   for (let i = 0; i < segments.length; i++) {
     const segment = segments[i];
     if (segment.bookmark.name === bookmarkName) {
       // If this is the first segment in the stack, it's based on the default branch
-      if (i === 0) {
+      if (i === 0 || forkWorkflow) {
         return [defaultBranch];
       }
 
@@ -269,6 +528,62 @@ export function generatePRTitle(
   return segment.changes[0].descriptionFirstLine || bookmarkName;
 }
 
+/**
+ * Generate PR body from the descriptions of the bookmark's changes
+ * AIDEV-NOTE: A single-change segment uses its description verbatim. Multi-change segments list
+ * each change from oldest to newest, with the rest of its description indented under it.
+ */
+export function generatePRBody(
+  bookmarkName: string,
+  segments: NarrowedBookmarkSegment[],
+): string {
+  const segment = segments.find((s) => s.bookmark.name === bookmarkName);
+  if (!segment) {
+    throw new Error(`Segment not found for bookmark ${bookmarkName}`);
+  }
+
+  if (segment.changes.length === 0) {
+    throw new Error(`No changes found for bookmark ${bookmarkName}`);
+  }
+
+  if (segment.changes.length === 1) {
+    return segment.changes[0].description;
+  }
+
+  // Changes are ordered newest first
+  const changes = [...segment.changes].reverse();
+  let body = `This PR contains ${changes.length} changes:\n`;
+  for (const change of changes) {
+    const [firstLine, ...rest] = change.description.split("\n");
+    body += `\n- **${firstLine || "(no description)"}** (\`${change.changeId}\`)\n`;
+    const details = rest.join("\n").trim();
+    if (details) {
+      body += `\n${details.replace(/^(?=.)/gm, "  ")}\n`;
+    }
+  }
+  return body.trimEnd();
+}
+
+const prTemplatePlaceholder = "{{description}}";
+
+/**
+ * Place a generated PR body into the repository's PR template
+ * AIDEV-NOTE: The body replaces {{description}} if the template has it, otherwise the template
+ * follows the body. The result is what gets hashed, so template edits count as out-of-date bodies.
+ */
+export function applyPRTemplate(
+  template: string | undefined,
+  body: string,
+): string {
+  if (!template?.trim()) {
+    return body;
+  }
+  if (template.includes(prTemplatePlaceholder)) {
+    return template.split(prTemplatePlaceholder).join(body).trim();
+  }
+  return `${body}\n\n${template.trim()}`.trim();
+}
+
 /**
  * Create a new PR
  */
@@ -279,12 +594,17 @@ export async function createPR(
   bookmarkName: string,
   baseBranch: string,
   title: string,
+  body: string,
+  draft = false,
+  headOwner: string = owner,
 ): Promise<PullRequestItem> {
   const result = await octokit.rest.pulls.create({
     owner,
     repo,
     title,
-    head: bookmarkName,
+    body,
+    draft,
+    head: headOwner === owner ? bookmarkName : `${headOwner}:${bookmarkName}`,
     base: baseBranch,
   });
 
@@ -311,20 +631,203 @@ export async function updatePRBase(
   return result.data;
 }
 
+/**
+ * Update the title of an existing PR, along with the description that records it
+ */
+export async function updatePRTitle(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  title: string,
+  body: string,
+): Promise<PullRequestItem> {
+  const result = await octokit.rest.pulls.update({
+    owner,
+    repo,
+    pull_number: prNumber,
+    title,
+    body,
+  });
+
+  return result.data;
+}
+
+/**
+ * Convert a draft PR to ready for review
+ * AIDEV-NOTE: The REST API can't change a PR's draft state, so this uses the GraphQL mutation
+ * and then re-fetches the PR to return the same shape as the other update functions.
+ */
+export async function markPRReadyForReview(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+): Promise<PullRequestItem> {
+  await octokit.graphql(
+    `mutation($pullRequestId: ID!) {
+      markPullRequestReadyForReview(input: { pullRequestId: $pullRequestId }) {
+        pullRequest { id }
+      }
+    }`,
+    { pullRequestId: pr.node_id },
+  );
+
+  const result = await octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: pr.number,
+  });
+
+  return result.data;
+}
+
+/**
+ * Request reviews on a PR. Reviewers written as "org/team-slug" are requested as teams.
+ */
+export async function requestPRReviewers(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  reviewers: string[],
+): Promise<void> {
+  const teamReviewers = reviewers
+    .filter((reviewer) => reviewer.includes("/"))
+    .map((reviewer) => reviewer.slice(reviewer.indexOf("/") + 1));
+  const userReviewers = reviewers.filter((reviewer) => !reviewer.includes("/"));
+
+  await octokit.rest.pulls.requestReviewers({
+    owner,
+    repo,
+    pull_number: prNumber,
+    reviewers: userReviewers,
+    team_reviewers: teamReviewers,
+  });
+}
+
+/**
+ * Add assignees to a PR
+ */
+export async function addPRAssignees(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  assignees: string[],
+): Promise<void> {
+  await octokit.rest.issues.addAssignees({
+    owner,
+    repo,
+    issue_number: prNumber,
+    assignees,
+  });
+}
+
+/**
+ * Add labels to a PR
+ */
+export async function addPRLabels(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  labels: string[],
+): Promise<void> {
+  await octokit.rest.issues.addLabels({
+    owner,
+    repo,
+    issue_number: prNumber,
+    labels,
+  });
+}
+
+/**
+ * Update the description of an existing PR
+ */
+export async function updatePRBody(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  body: string,
+): Promise<PullRequestItem> {
+  const result = await octokit.rest.pulls.update({
+    owner,
+    repo,
+    pull_number: prNumber,
+    body,
+  });
+
+  return result.data;
+}
+
 const commentDataPrefix = "<!--- JJ-STACK_INFO: ";
 const commentDataPostfix = " --->";
 const stackCommentFooter =
   "*Created with [jj-stack](https://github.com/keanemind/jj-stack)*";
 const stackCommentThisPRText = "← this PR";
+const stackBlockStart = "<!-- jj-stack:start -->";
+const stackBlockEnd = "<!-- jj-stack:end -->";
+const generatedBodyPrefix = "<!--- JJ-STACK_BODY: ";
+const generatedBodyPostfix = " --->";
+const generatedTitlePrefix = "<!--- JJ-STACK_TITLE: ";
+const generatedTitlePostfix = " --->";
 
 /**
- * Create or update a stack information comment on a PR
+ * Migrate stack metadata from any supported version to the current version
  */
-export async function createOrUpdateStackComment(
-  githubConfig: GitHubConfig,
+export function migratePRCommentData(
+  data: v.InferOutput<typeof PRCommentDataSchema>,
+): PRCommentData {
+  switch (data.version) {
+    case 0:
+      // Version 0 did not record merge state. Merged ancestors are re-detected by
+      // executeSubmissionPlan, so it's safe to assume nothing is merged here.
+      return {
+        version: 1,
+        stack: data.stack.map((item) => ({ ...item, merged: false })),
+      };
+    case 1:
+      return data;
+  }
+}
+
+/**
+ * Parse the metadata line of a stack comment, returning undefined if it is missing or invalid
+ */
+export function parsePRCommentData(
+  commentBody: string,
+): PRCommentData | undefined {
+  const lines = commentBody.trim().split("\n");
+  if (
+    !lines[0] ||
+    !lines[0].startsWith(commentDataPrefix) ||
+    !lines[0].endsWith(commentDataPostfix)
+  ) {
+    return undefined;
+  }
+
+  const rawData = lines[0].slice(
+    commentDataPrefix.length,
+    -commentDataPostfix.length,
+  );
+  const decoded = Buffer.from(rawData, "base64").toString();
+  try {
+    const parsedJson = JSON.parse(decoded) as unknown;
+    return migratePRCommentData(v.parse(PRCommentDataSchema, parsedJson));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the markdown body of the stack information comment for one PR in the stack
+ */
+export function buildStackCommentBody(
   prCommentData: PRCommentData,
   currentBookmarkIdx: number,
-): Promise<void> {
+): string {
   const encodedPRCommentData = Buffer.from(
     JSON.stringify(prCommentData),
   ).toString("base64");
@@ -336,30 +839,229 @@ export async function createOrUpdateStackComment(
     const isCurrent = i === currentBookmarkIdx;
     if (isCurrent) {
       commentBody += `1. **${stackItem.bookmarkName} ${stackCommentThisPRText}**\n`;
+    } else if (stackItem.merged) {
+      commentBody += `1. ~~[${stackItem.bookmarkName}](${stackItem.prUrl})~~ (merged)\n`;
     } else {
       commentBody += `1. [${stackItem.bookmarkName}](${stackItem.prUrl})\n`;
     }
   }
 
   commentBody += `\n---\n${stackCommentFooter}`;
+  return commentBody;
+}
 
-  const currentPRnumber = prCommentData.stack[currentBookmarkIdx].prNumber;
+/**
+ * Extract the contents of the jj-stack block from a PR description, if present
+ */
+export function extractStackBlock(prBody: string | null): string | undefined {
+  if (!prBody) {
+    return undefined;
+  }
+  const startIdx = prBody.indexOf(stackBlockStart);
+  const endIdx = prBody.indexOf(stackBlockEnd, startIdx);
+  if (startIdx === -1 || endIdx === -1) {
+    return undefined;
+  }
+  return prBody.slice(startIdx + stackBlockStart.length, endIdx).trim();
+}
 
-  // List existing comments to find our stack comment
-  const comments = await githubConfig.octokit.rest.issues.listComments({
-    owner: githubConfig.owner,
-    repo: githubConfig.repo,
-    issue_number: currentPRnumber,
-  });
+/**
+ * Insert or replace the jj-stack block in a PR description
+ * AIDEV-NOTE: Text written by the author outside the delimiters is always preserved. A new block
+ * is placed at the top of the description so that it's the first thing reviewers see.
+ */
+export function upsertStackBlock(
+  prBody: string | null,
+  blockContents: string,
+): string {
+  const block = `${stackBlockStart}\n${blockContents}\n${stackBlockEnd}`;
+  const body = prBody ?? "";
+
+  const startIdx = body.indexOf(stackBlockStart);
+  const endIdx = body.indexOf(stackBlockEnd, startIdx);
+  if (startIdx !== -1 && endIdx !== -1) {
+    return (
+      body.slice(0, startIdx) +
+      block +
+      body.slice(endIdx + stackBlockEnd.length)
+    );
+  }
 
-  // Find existing jj-stack comment by looking for our footer
-  const existingComment = comments.data.find((comment) =>
-    comment.body?.includes(stackCommentFooter),
-  );
+  return body.trim() === "" ? block : `${block}\n\n${body}`;
+}
 
-  if (existingComment) {
-    // Update existing comment
-    await githubConfig.octokit.rest.issues.updateComment({
+/**
+ * Remove the jj-stack block from a PR description, if present
+ */
+function removeStackBlock(prBody: string): string {
+  const startIdx = prBody.indexOf(stackBlockStart);
+  const endIdx = prBody.indexOf(stackBlockEnd, startIdx);
+  if (startIdx === -1 || endIdx === -1) {
+    return prBody;
+  }
+  return (
+    prBody.slice(0, startIdx) + prBody.slice(endIdx + stackBlockEnd.length)
+  );
+}
+
+function hashGeneratedText(generatedText: string): string {
+  return createHash("sha256")
+    .update(generatedText.trim())
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Append a marker recording a hash of the generated body, used to detect hand edits later
+ */
+export function addGeneratedBodyMarker(generatedBody: string): string {
+  return `${generatedBody.trim()}\n\n${generatedBodyPrefix}${hashGeneratedText(generatedBody)}${generatedBodyPostfix}`.trim();
+}
+
+/**
+ * Check whether a PR description still contains exactly the body jj-stack generated for it
+ * AIDEV-NOTE: The stack block (see upsertStackBlock) and the title marker are ignored, since
+ * jj-stack maintains them separately. Descriptions without a marker were written by hand and are
+ * never considered unedited.
+ */
+export function isGeneratedBodyUnedited(prBody: string | null): boolean {
+  if (!prBody) {
+    return false;
+  }
+  const body = removeGeneratedTitleMarker(removeStackBlock(prBody));
+  const markerIdx = body.lastIndexOf(generatedBodyPrefix);
+  if (markerIdx === -1) {
+    return false;
+  }
+  const markerEndIdx = body.indexOf(generatedBodyPostfix, markerIdx);
+  if (markerEndIdx === -1) {
+    return false;
+  }
+  const recordedHash = body.slice(
+    markerIdx + generatedBodyPrefix.length,
+    markerEndIdx,
+  );
+  const trailingText = body.slice(markerEndIdx + generatedBodyPostfix.length);
+  return (
+    trailingText.trim() === "" &&
+    recordedHash === hashGeneratedText(body.slice(0, markerIdx))
+  );
+}
+
+/**
+ * Replace the generated part of a PR description, keeping the stack block and title marker if
+ * there are any
+ */
+export function replaceGeneratedBody(
+  prBody: string | null,
+  generatedBody: string,
+): string {
+  let newBody = addGeneratedBodyMarker(generatedBody);
+  const titleMarker = findGeneratedTitleMarker(prBody);
+  if (titleMarker) {
+    newBody = `${newBody}\n${titleMarker.marker}`;
+  }
+  const stackBlock = extractStackBlock(prBody);
+  return stackBlock === undefined
+    ? newBody
+    : upsertStackBlock(newBody, stackBlock);
+}
+
+function findGeneratedTitleMarker(prBody: string | null) {
+  const startIdx = prBody?.lastIndexOf(generatedTitlePrefix) ?? -1;
+  if (!prBody || startIdx === -1) {
+    return undefined;
+  }
+  const endIdx = prBody.indexOf(generatedTitlePostfix, startIdx);
+  if (endIdx === -1) {
+    return undefined;
+  }
+  return {
+    startIdx,
+    endIdx: endIdx + generatedTitlePostfix.length,
+    marker: prBody.slice(startIdx, endIdx + generatedTitlePostfix.length),
+    hash: prBody.slice(startIdx + generatedTitlePrefix.length, endIdx),
+  };
+}
+
+function removeGeneratedTitleMarker(prBody: string): string {
+  const titleMarker = findGeneratedTitleMarker(prBody);
+  if (!titleMarker) {
+    return prBody;
+  }
+  return (
+    prBody.slice(0, titleMarker.startIdx) + prBody.slice(titleMarker.endIdx)
+  ).trim();
+}
+
+/**
+ * Record a hash of the generated title at the end of a PR description, replacing any earlier one
+ * AIDEV-NOTE: Titles can't carry a hidden marker like descriptions do, so the title's hash is kept
+ * in the description. A title that no longer matches it was edited by hand on GitHub.
+ */
+export function setGeneratedTitleMarker(
+  prBody: string | null,
+  generatedTitle: string,
+): string {
+  const marker = `${generatedTitlePrefix}${hashGeneratedText(generatedTitle)}${generatedTitlePostfix}`;
+  const body = removeGeneratedTitleMarker(prBody ?? "");
+  return body === "" ? marker : `${body}\n${marker}`;
+}
+
+/**
+ * Check whether a PR's title is still the one jj-stack generated for it. PRs without a title
+ * marker were titled by hand and are never considered unedited.
+ */
+export function isGeneratedTitleUnedited(pr: {
+  title: string;
+  body: string | null;
+}): boolean {
+  const titleMarker = findGeneratedTitleMarker(pr.body);
+  return titleMarker?.hash === hashGeneratedText(pr.title);
+}
+
+/**
+ * List all comments on a PR, following pagination
+ */
+async function listPRComments(githubConfig: GitHubConfig, prNumber: number) {
+  return githubConfig.octokit.paginate(
+    githubConfig.octokit.rest.issues.listComments,
+    {
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+      issue_number: prNumber,
+      per_page: 100,
+    },
+  );
+}
+
+/**
+ * Create or update a stack information comment on a PR
+ */
+export async function createOrUpdateStackComment(
+  githubConfig: GitHubConfig,
+  prCommentData: PRCommentData,
+  currentBookmarkIdx: number,
+): Promise<void> {
+  const commentBody = buildStackCommentBody(prCommentData, currentBookmarkIdx);
+  const currentPRnumber = prCommentData.stack[currentBookmarkIdx].prNumber;
+
+  // List existing comments to find our stack comment
+  const comments = await listPRComments(githubConfig, currentPRnumber);
+
+  // Find existing jj-stack comment by looking for our footer
+  const existingComment = comments.find((comment) =>
+    comment.body?.includes(stackCommentFooter),
+  );
+
+  if (existingComment) {
+    if (existingComment.body === commentBody) {
+      // Already up to date
+      return;
+    }
+
+    // Update existing comment
+    await githubConfig.octokit.rest.issues.updateComment({
       owner: githubConfig.owner,
       repo: githubConfig.repo,
       comment_id: existingComment.id,
@@ -376,53 +1078,507 @@ export async function createOrUpdateStackComment(
   }
 }
 
-async function findCommentData(
+/**
+ * Create or update the stack information block in a PR's description
+ */
+export async function createOrUpdateStackDescription(
+  githubConfig: GitHubConfig,
+  prCommentData: PRCommentData,
+  currentBookmarkIdx: number,
+): Promise<void> {
+  const blockContents = buildStackCommentBody(
+    prCommentData,
+    currentBookmarkIdx,
+  );
+  const currentPRnumber = prCommentData.stack[currentBookmarkIdx].prNumber;
+
+  // Fetch the PR fresh so that edits the author made since planning are preserved
+  const pr = (
+    await githubConfig.octokit.rest.pulls.get({
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+      pull_number: currentPRnumber,
+    })
+  ).data;
+
+  const newBody = upsertStackBlock(pr.body, blockContents);
+  if (newBody === pr.body) {
+    // Already up to date
+    return;
+  }
+
+  await githubConfig.octokit.rest.pulls.update({
+    owner: githubConfig.owner,
+    repo: githubConfig.repo,
+    pull_number: currentPRnumber,
+    body: newBody,
+  });
+}
+
+/**
+ * Delete the stack information comment from a PR, if it has one
+ */
+export async function deleteStackComment(
+  githubConfig: GitHubConfig,
+  prNumber: number,
+): Promise<void> {
+  const comments = await listPRComments(githubConfig, prNumber);
+  for (const comment of comments) {
+    if (comment.body?.includes(stackCommentFooter)) {
+      await githubConfig.octokit.rest.issues.deleteComment({
+        owner: githubConfig.owner,
+        repo: githubConfig.repo,
+        comment_id: comment.id,
+      });
+    }
+  }
+}
+
+/**
+ * Remove the stack information block from a PR's description, if it has one
+ */
+export async function deleteStackDescription(
   githubConfig: GitHubConfig,
   prNumber: number,
-): Promise<PRCommentData | undefined> {
-  const comments = await githubConfig.octokit.rest.issues.listComments({
+): Promise<void> {
+  const pr = (
+    await githubConfig.octokit.rest.pulls.get({
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+      pull_number: prNumber,
+    })
+  ).data;
+  if (extractStackBlock(pr.body) === undefined) {
+    return;
+  }
+
+  await githubConfig.octokit.rest.pulls.update({
     owner: githubConfig.owner,
     repo: githubConfig.repo,
-    issue_number: prNumber,
+    pull_number: prNumber,
+    body: removeStackBlock(pr.body ?? "").trim(),
   });
+}
+
+/**
+ * Find the stack metadata for a PR, looking in its description first and then its comments
+ */
+export async function findCommentData(
+  githubConfig: GitHubConfig,
+  prNumber: number,
+): Promise<PRCommentData | undefined> {
+  const pr = (
+    await githubConfig.octokit.rest.pulls.get({
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+      pull_number: prNumber,
+    })
+  ).data;
+  const stackBlock = extractStackBlock(pr.body);
+  const descriptionData = stackBlock && parsePRCommentData(stackBlock);
+  if (descriptionData) {
+    return descriptionData;
+  }
+
+  const comments = await listPRComments(githubConfig, prNumber);
 
-  const comment = comments.data.find((comment) =>
+  const comment = comments.find((comment) =>
     comment.body?.includes(stackCommentFooter),
   );
 
-  if (comment?.body) {
-    const lines = comment.body.trim().split("\n");
-    if (
-      lines[0] &&
-      lines[0].includes(commentDataPrefix) &&
-      lines[0].includes(commentDataPostfix)
-    ) {
-      const rawData = lines[0].slice(
-        commentDataPrefix.length,
-        -commentDataPostfix.length,
+  return comment?.body ? parsePRCommentData(comment.body) : undefined;
+}
+
+/**
+ * Find the part of a previously recorded stack that has already been merged below the given root PR.
+ * AIDEV-NOTE: When the bottom PR of a stack is merged, it disappears from the local graph, but
+ * reviewers still benefit from seeing it in the stack list. We keep every entry below the root PR
+ * from the old metadata as long as the entry directly below the root has been merged.
+ */
+async function findAlreadyMergedStack(
+  githubConfig: GitHubConfig,
+  rootPRNumber: number,
+): Promise<PRCommentData["stack"]> {
+  const rootPRCommentData = await findCommentData(githubConfig, rootPRNumber);
+  if (rootPRCommentData === undefined) {
+    return [];
+  }
+
+  const rootPRIdx = rootPRCommentData.stack.findIndex(
+    (item) => item.prNumber === rootPRNumber,
+  );
+  // If the root PR is not found or is the first in the stack, no already-merged parent
+  if (rootPRIdx <= 0) {
+    return [];
+  }
+
+  const rootParentPRInfo = rootPRCommentData.stack[rootPRIdx - 1];
+  if (!rootParentPRInfo.merged) {
+    const rootParentPR = (
+      await githubConfig.octokit.rest.pulls.get({
+        owner: githubConfig.owner,
+        repo: githubConfig.repo,
+        pull_number: rootParentPRInfo.prNumber,
+      })
+    ).data;
+
+    if (!rootParentPR.merged) {
+      return [];
+    }
+  }
+
+  // Everything below a merged PR has necessarily been merged as well
+  return rootPRCommentData.stack
+    .slice(0, rootPRIdx)
+    .map((item) => ({ ...item, merged: true }));
+}
+
+/**
+ * Apply the plan's reviewers, assignees and labels to a newly created PR
+ * AIDEV-NOTE: The PR already exists at this point, so failures are reported through onError and
+ * recorded in the result without marking the submission as failed.
+ */
+export async function applyNewPRMetadata(
+  plan: SubmissionPlan,
+  githubConfig: GitHubConfig,
+  bookmark: Bookmark,
+  pr: PullRequest,
+  result: SubmissionResult,
+  callbacks?: ExecutionCallbacks,
+): Promise<void> {
+  const { octokit, owner, repo } = githubConfig;
+  // GitHub rejects review requests from the PR's own author
+  const reviewers = plan.newPRMetadata.reviewers.filter(
+    (reviewer) => reviewer !== pr.user?.login,
+  );
+  const { assignees, labels } = plan.newPRMetadata;
+
+  const reportError = (error: unknown, context: string) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    result.errors.push({ error: err, context });
+    callbacks?.onError?.(err, context);
+  };
+
+  if (reviewers.length > 0) {
+    try {
+      await requestPRReviewers(octokit, owner, repo, pr.number, reviewers);
+      callbacks?.onReviewersRequested?.(bookmark, reviewers);
+    } catch (error) {
+      reportError(error, `requesting reviewers for ${bookmark.name}`);
+    }
+  }
+
+  if (assignees.length > 0) {
+    try {
+      await addPRAssignees(octokit, owner, repo, pr.number, assignees);
+      callbacks?.onAssigneesAdded?.(bookmark, assignees);
+    } catch (error) {
+      reportError(error, `adding assignees for ${bookmark.name}`);
+    }
+  }
+
+  if (labels.length > 0) {
+    try {
+      await addPRLabels(octokit, owner, repo, pr.number, labels);
+      callbacks?.onLabelsAdded?.(bookmark, labels);
+    } catch (error) {
+      reportError(error, `adding labels for ${bookmark.name}`);
+    }
+  }
+}
+
+/**
+ * Create or update the stack information (comment and/or description block) on every PR in the
+ * submitted stack, depending on plan.stackInfoMode
+ * AIDEV-NOTE: Stack info is best-effort. Failures are recorded in the result and reported
+ * through onError, but never mark the submission as failed.
+ */
+async function updateStackInfo(
+  plan: SubmissionPlan,
+  githubConfig: GitHubConfig,
+  bookmarkToPR: Map<string, PullRequest>,
+  result: SubmissionResult,
+  callbacks?: ExecutionCallbacks,
+): Promise<void> {
+  const reportError = (error: unknown, context: string) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    result.errors.push({ error: err, context });
+    callbacks?.onError?.(err, context);
+  };
+
+  const submittedStack: PRCommentData["stack"] = [];
+  for (const bookmark of plan.bookmarksToSubmit) {
+    const pr = bookmarkToPR.get(bookmark.name);
+    if (!pr) {
+      reportError(
+        new Error(`No PR found for ${bookmark.name}`),
+        "creating/updating stack info",
       );
-      const decoded = Buffer.from(rawData, "base64").toString();
-      try {
-        const parsedJson = JSON.parse(decoded) as unknown;
-        return v.parse(PRCommentDataSchema, parsedJson);
-      } catch {
-        // ignore
+      return;
+    }
+    submittedStack.push({
+      bookmarkName: bookmark.name,
+      prUrl: pr.html_url,
+      prNumber: pr.number,
+      merged: false,
+    });
+  }
+
+  if (submittedStack.length === 0) {
+    return;
+  }
+
+  let alreadyMergedStack: PRCommentData["stack"] = [];
+  try {
+    alreadyMergedStack = await findAlreadyMergedStack(
+      githubConfig,
+      submittedStack[0].prNumber,
+    );
+  } catch (error) {
+    // Still write the comments, just without the merged part of the stack
+    reportError(error, "looking up already-merged PRs in the stack");
+  }
+
+  const prCommentData: PRCommentData = {
+    version: currentPRCommentDataVersion,
+    stack: [...alreadyMergedStack, ...submittedStack],
+  };
+
+  const writeComment = plan.stackInfoMode !== "body";
+  const writeDescription = plan.stackInfoMode !== "comment";
+  const foreignBookmarks = new Set(
+    plan.bookmarksToSubmit.filter((b) => b.isForeign).map((b) => b.name),
+  );
+
+  // Only the PRs that were just submitted are updated; merged PRs and other people's PRs are
+  // listed but left alone
+  for (let i = alreadyMergedStack.length; i < prCommentData.stack.length; i++) {
+    const stackItem = prCommentData.stack[i];
+    if (foreignBookmarks.has(stackItem.bookmarkName)) {
+      continue;
+    }
+    // Stack info left in the other place by an earlier stackInfo mode is removed, otherwise it
+    // goes stale (and sync would keep reading a stale description block)
+    let updated = true;
+    try {
+      if (writeComment) {
+        await createOrUpdateStackComment(githubConfig, prCommentData, i);
+      } else {
+        await deleteStackComment(githubConfig, stackItem.prNumber);
       }
+    } catch (error) {
+      updated = false;
+      reportError(
+        error,
+        `${writeComment ? "creating/updating" : "deleting"} stack comment for ${stackItem.bookmarkName}`,
+      );
+    }
+    try {
+      if (writeDescription) {
+        await createOrUpdateStackDescription(githubConfig, prCommentData, i);
+      } else {
+        await deleteStackDescription(githubConfig, stackItem.prNumber);
+      }
+    } catch (error) {
+      updated = false;
+      reportError(
+        error,
+        `${writeDescription ? "updating" : "removing"} stack info in PR description for ${stackItem.bookmarkName}`,
+      );
+    }
+    if (updated) {
+      callbacks?.onStackInfoUpdated?.(
+        stackItem.bookmarkName,
+        stackItem.prNumber,
+      );
     }
   }
-  return undefined;
+}
+
+// AIDEV-NOTE: Number of head branches looked up per GraphQL request. Each one is an aliased
+// pullRequests connection, so this bounds the query's node count as well as its size.
+const prLookupBatchSize = 25;
+
+interface ExistingPRNode {
+  id: string;
+  databaseId: number;
+  number: number;
+  url: string;
+  title: string;
+  body: string;
+  isDraft: boolean;
+  baseRefName: string;
+  baseRefOid: string;
+  headRefName: string;
+  headRefOid: string;
+  author: { login: string } | null;
+  headRepositoryOwner: { login: string } | null;
+}
+
+type ExistingPRsQueryResult = {
+  repository: Record<string, { nodes: ExistingPRNode[] }>;
+};
+
+/**
+ * An open PR found by getExistingPRs
+ * AIDEV-NOTE: Only the fields the GraphQL lookup fills in. The REST PR types have all of them, so
+ * PRs from REST can be used as an ExistingPR. Add new fields to the query as well as here.
+ */
+export interface ExistingPR {
+  id: number;
+  node_id: string;
+  number: number;
+  html_url: string;
+  title: string;
+  body: string | null;
+  draft?: boolean;
+  state: string;
+  user: { login: string } | null;
+  base: { ref: string; sha: string; label: string };
+  head: { ref: string; sha: string; label: string };
+}
+
+/**
+ * Convert a PR returned by the GraphQL lookup to the REST field names used everywhere else
+ */
+function toExistingPR(
+  node: ExistingPRNode,
+  owner: string,
+  headOwner: string,
+): ExistingPR {
+  return {
+    id: node.databaseId,
+    node_id: node.id,
+    number: node.number,
+    html_url: node.url,
+    title: node.title,
+    body: node.body,
+    draft: node.isDraft,
+    state: "open",
+    user: node.author ? { login: node.author.login } : null,
+    base: {
+      ref: node.baseRefName,
+      sha: node.baseRefOid,
+      label: `${owner}:${node.baseRefName}`,
+    },
+    head: {
+      ref: node.headRefName,
+      sha: node.headRefOid,
+      label: `${headOwner}:${node.headRefName}`,
+    },
+  };
+}
+
+/**
+ * Look up the open PRs for a batch of head branches in a single GraphQL request
+ */
+async function findExistingPRsGraphQL(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headBranches: string[],
+  headOwner: string,
+): Promise<Map<string, ExistingPR>> {
+  const variableDefinitions = headBranches
+    .map((_, i) => `$head${i}: String!`)
+    .join(", ");
+  const connections = headBranches
+    .map(
+      (_, i) => `pr${i}: pullRequests(
+        headRefName: $head${i}
+        states: OPEN
+        first: 10
+        orderBy: { field: CREATED_AT, direction: DESC }
+      ) {
+        nodes {
+          id databaseId number url title body isDraft
+          baseRefName baseRefOid headRefName headRefOid
+          author { login }
+          headRepositoryOwner { login }
+        }
+      }`,
+    )
+    .join("\n");
+
+  const result = await octokit.graphql<ExistingPRsQueryResult>(
+    `query($owner: String!, $repo: String!, ${variableDefinitions}) {
+      repository(owner: $owner, name: $repo) {
+        ${connections}
+      }
+    }`,
+    {
+      owner,
+      repo,
+      ...Object.fromEntries(headBranches.map((head, i) => [`head${i}`, head])),
+    },
+  );
+
+  const results = new Map<string, ExistingPR>();
+  headBranches.forEach((head, i) => {
+    // Same-named branches in other forks also match headRefName
+    const node = result.repository[`pr${i}`].nodes.find(
+      (n) => n.headRepositoryOwner?.login === headOwner,
+    );
+    if (node) {
+      results.set(head, toExistingPR(node, owner, headOwner));
+    }
+  });
+  return results;
+}
+
+/**
+ * Whether a failed GraphQL request means GraphQL can't be used, so REST should be tried instead
+ * AIDEV-NOTE: That's errors in the query's response (e.g. a field an older GHES doesn't have), or
+ * no GraphQL endpoint at all. Rate limits, bad credentials and network errors would fail over REST
+ * too, so they aren't.
+ */
+export function isGraphQLUnavailable(error: unknown): boolean {
+  if (error instanceof Error && error.name === "GraphqlResponseError") {
+    const { errors = [] } = error as { errors?: { type?: string }[] };
+    return !errors.some((e) => e.type === "RATE_LIMITED");
+  }
+  return error instanceof RequestError && error.status === 404;
 }
 
 /**
  * Check for existing PRs for all bookmarks
+ * AIDEV-NOTE: Looks up every bookmark in batched GraphQL requests rather than one REST request
+ * per bookmark. Falls back to REST if GraphQL can't be used (e.g. it's disabled on a GHES instance).
  */
 export async function getExistingPRs(
   octokit: Octokit,
   owner: string,
   repo: string,
-  bookmarks: Bookmark[],
-): Promise<Map<string, PullRequestListItem>> {
-  const results = new Map<string, PullRequestListItem>();
+  bookmarks: Pick<Bookmark, "name">[],
+  headOwner: string = owner,
+): Promise<Map<string, ExistingPR>> {
+  const headBranches = bookmarks.map((bookmark) => bookmark.name);
+
+  try {
+    const results = new Map<string, ExistingPR>();
+    for (let i = 0; i < headBranches.length; i += prLookupBatchSize) {
+      const batch = await findExistingPRsGraphQL(
+        octokit,
+        owner,
+        repo,
+        headBranches.slice(i, i + prLookupBatchSize),
+        headOwner,
+      );
+      for (const [head, pr] of batch) {
+        results.set(head, pr);
+      }
+    }
+    return results;
+  } catch (error) {
+    if (!isGraphQLUnavailable(error)) {
+      throw error;
+    }
+    logger.debug(
+      `GraphQL PR lookup failed, falling back to REST: ${String(error)}`,
+    );
+  }
+
+  const results = new Map<string, ExistingPR>();
 
   for (const bookmark of bookmarks) {
     const existingPR = await findExistingPR(
@@ -430,6 +1586,7 @@ export async function getExistingPRs(
       owner,
       repo,
       bookmark.name,
+      headOwner,
     );
     if (existingPR) {
       results.set(bookmark.name, existingPR);
@@ -439,25 +1596,87 @@ export async function getExistingPRs(
   return results;
 }
 
+/**
+ * Find existing PRs whose title no longer matches the title generated from the change description.
+ * Titles that were edited by hand are left alone.
+ */
+export function findPRTitlesNeedingUpdate(
+  bookmarks: Bookmark[],
+  existingPRs: Map<string, PullRequest>,
+  segments: NarrowedBookmarkSegment[],
+): SubmissionPlan["bookmarksNeedingPRTitleUpdate"] {
+  const updates: SubmissionPlan["bookmarksNeedingPRTitleUpdate"] = [];
+
+  for (const bookmark of bookmarks) {
+    const existingPR = existingPRs.get(bookmark.name);
+    if (!existingPR || !isGeneratedTitleUnedited(existingPR)) {
+      continue;
+    }
+
+    const newTitle = generatePRTitle(bookmark.name, segments);
+    if (existingPR.title !== newTitle) {
+      updates.push({
+        bookmark,
+        currentTitle: existingPR.title,
+        newTitle,
+        newBody: setGeneratedTitleMarker(existingPR.body, newTitle),
+        pr: existingPR,
+      });
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Find existing PRs whose generated description is out of date and hasn't been hand-edited
+ */
+export function findPRBodiesNeedingUpdate(
+  bookmarks: Bookmark[],
+  existingPRs: Map<string, PullRequest>,
+  segments: NarrowedBookmarkSegment[],
+  prTemplate?: string,
+): SubmissionPlan["bookmarksNeedingPRBodyUpdate"] {
+  const updates: SubmissionPlan["bookmarksNeedingPRBodyUpdate"] = [];
+
+  for (const bookmark of bookmarks) {
+    const existingPR = existingPRs.get(bookmark.name);
+    if (!existingPR || !isGeneratedBodyUnedited(existingPR.body)) {
+      continue;
+    }
+
+    const newBody = replaceGeneratedBody(
+      existingPR.body,
+      applyPRTemplate(prTemplate, generatePRBody(bookmark.name, segments)),
+    );
+    if (newBody !== existingPR.body) {
+      updates.push({ bookmark, pr: existingPR, newBody });
+    }
+  }
+
+  return updates;
+}
+
 /**
  * Validate existing PRs against expected base branches and identify mismatches
  */
 export function validatePRBases(
   bookmarks: Bookmark[],
-  existingPRs: Map<string, PullRequestListItem | null>,
+  existingPRs: Map<string, ExistingPR | null>,
   segments: NarrowedBookmarkSegment[],
   defaultBranch: string,
+  forkWorkflow = false,
 ): {
   bookmark: Bookmark;
   currentBaseBranch: string;
   expectedBaseBranchOptions: string[];
-  pr: PullRequestListItem;
+  pr: ExistingPR;
 }[] {
   const mismatches: {
     bookmark: Bookmark;
     currentBaseBranch: string;
     expectedBaseBranchOptions: string[];
-    pr: PullRequestListItem;
+    pr: ExistingPR;
   }[] = [];
 
   for (const bookmark of bookmarks) {
@@ -468,6 +1687,7 @@ export function validatePRBases(
         bookmark.name,
         segments,
         defaultBranch,
+        forkWorkflow,
       );
       const currentBaseBranch = existingPR.base.ref;
 
@@ -485,6 +1705,70 @@ export function validatePRBases(
   return mismatches;
 }
 
+/**
+ * Find the bookmarks and changes in a stack that mustn't be pushed as they are: conflicted
+ * bookmarks, divergent changes and changes with unresolved conflicts
+ * @returns One line per problem, saying how to fix it; empty if the stack can be pushed
+ */
+export function findUnsubmittableChanges(
+  segments: NarrowedBookmarkSegment[],
+): string[] {
+  const problems: string[] = [];
+
+  for (const { bookmark, changes } of segments) {
+    if (bookmark.conflictedTargets) {
+      problems.push(
+        `  - ${bookmark.name} is conflicted. Point it at one commit with \`jj bookmark set ${bookmark.name} -r <commit>\`.`,
+      );
+      continue;
+    }
+    for (const change of changes) {
+      const label = `${change.changeId.slice(0, 12)} "${change.descriptionFirstLine}" (in ${bookmark.name})`;
+      if (change.isDivergent) {
+        problems.push(
+          `  - ${label} is divergent. Abandon the copies you don't want with \`jj abandon <commit>\`.`,
+        );
+      }
+      if (change.hasConflict) {
+        problems.push(
+          `  - ${label} has unresolved conflicts. Resolve them with \`jj resolve\` or by editing the files.`,
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Find the other people's bookmarks in a stack that can't be built on: those without an open PR
+ * to use as a base, and those that differ from the remote, since they won't be pushed
+ * @returns One line per problem, saying how to fix it; empty if the stack can be submitted
+ */
+export function findForeignBookmarkProblems(
+  bookmarks: Bookmark[],
+  existingPRs: Map<string, PullRequest>,
+): string[] {
+  const problems: string[] = [];
+
+  for (const bookmark of bookmarks) {
+    if (!bookmark.isForeign) {
+      continue;
+    }
+    if (!existingPRs.has(bookmark.name)) {
+      problems.push(
+        `  - ${bookmark.name} is someone else's bookmark and has no open PR to stack on. Ask its author to open one.`,
+      );
+    } else if (!bookmark.isSynced) {
+      problems.push(
+        `  - ${bookmark.name} is someone else's bookmark and doesn't match the remote, but it won't be pushed. Rebase onto the remote version with \`jj rebase -d ${bookmark.name}@<remote>\`.`,
+      );
+    }
+  }
+
+  return problems;
+}
+
 /**
  * PHASE 2: Create submission plan from resolved bookmarks
  * AIDEV-NOTE: Takes exactly one bookmark per segment (enforced by CLI)
@@ -494,35 +1778,77 @@ export async function createSubmissionPlan(
   githubConfig: GitHubConfig,
   segments: NarrowedBookmarkSegment[],
   remoteName: string,
+  options: SubmissionOptions = {},
   callbacks?: PlanCallbacks,
 ): Promise<SubmissionPlan> {
   try {
     const bookmarksToSubmit = segments.map((s) => s.bookmark);
     const targetBookmark = bookmarksToSubmit[bookmarksToSubmit.length - 1].name;
 
+    if (bookmarksToSubmit[bookmarksToSubmit.length - 1].isForeign) {
+      throw new Error(
+        `Can't submit ${targetBookmark}: it's on someone else's change`,
+      );
+    }
+
+    const problems = findUnsubmittableChanges(segments);
+    if (problems.length > 0) {
+      throw new Error(
+        `Can't submit ${targetBookmark} until these are fixed:\n${problems.join("\n")}`,
+      );
+    }
+
+    // AIDEV-NOTE: Other people's bookmarks (see Bookmark.isForeign) are only stacked on: their
+    // existing PRs are used as bases, but they're never pushed and their PRs are never edited
+    const ownBookmarks = bookmarksToSubmit.filter((b) => !b.isForeign);
+    const foreignBookmarks = bookmarksToSubmit.filter((b) => b.isForeign);
+
     callbacks?.onCheckingPRs?.(bookmarksToSubmit);
     const existingPRs = await getExistingPRs(
       githubConfig.octokit,
       githubConfig.owner,
       githubConfig.repo,
-      bookmarksToSubmit,
+      ownBookmarks,
+      githubConfig.headOwner,
+    );
+    // Other people push to the repository PRs are opened against, not to this user's fork
+    const foreignPRs = await getExistingPRs(
+      githubConfig.octokit,
+      githubConfig.owner,
+      githubConfig.repo,
+      foreignBookmarks,
+    );
+    for (const [name, pr] of foreignPRs) {
+      existingPRs.set(name, pr);
+    }
+
+    const foreignProblems = findForeignBookmarkProblems(
+      foreignBookmarks,
+      existingPRs,
     );
+    if (foreignProblems.length > 0) {
+      throw new Error(
+        `Can't submit ${targetBookmark} until these are fixed:\n${foreignProblems.join("\n")}`,
+      );
+    }
 
-    const defaultBranch = await jj.getDefaultBranch();
+    const defaultBranch = await resolveDefaultBranch(jj, githubConfig);
+    const forkWorkflow = isForkWorkflow(githubConfig);
 
     // Validate existing PRs against expected base branches
     const bookmarksNeedingPRBaseUpdate = validatePRBases(
-      bookmarksToSubmit,
+      ownBookmarks,
       existingPRs,
       segments,
       defaultBranch,
+      forkWorkflow,
     );
 
     // Determine what actions are needed
     const bookmarksNeedingPush: Bookmark[] = [];
     const bookmarksNeedingPR: SubmissionPlan["bookmarksNeedingPR"] = [];
 
-    for (const bookmark of bookmarksToSubmit) {
+    for (const bookmark of ownBookmarks) {
       const hasExistingPR = existingPRs.get(bookmark.name);
 
       if (!bookmark.hasRemote || !bookmark.isSynced) {
@@ -530,30 +1856,91 @@ export async function createSubmissionPlan(
       }
 
       if (!hasExistingPR) {
+        const title = generatePRTitle(bookmark.name, segments);
         bookmarksNeedingPR.push({
           bookmark,
           baseBranchOptions: getBaseBranchOptions(
             bookmark.name,
             segments,
             defaultBranch,
+            forkWorkflow,
           ),
-          prContent: { title: generatePRTitle(bookmark.name, segments) },
+          prContent: {
+            title,
+            body: setGeneratedTitleMarker(
+              addGeneratedBodyMarker(
+                applyPRTemplate(
+                  options.prTemplate,
+                  generatePRBody(bookmark.name, segments),
+                ),
+              ),
+              title,
+            ),
+          },
+          draft: options.draft ?? false,
         });
       }
     }
 
+    // Keep titles in sync with the top change's description (e.g. after `jj describe`)
+    const bookmarksNeedingPRTitleUpdate = findPRTitlesNeedingUpdate(
+      ownBookmarks,
+      existingPRs,
+      segments,
+    );
+
+    // Descriptions are regenerated from what the title updates leave, so their markers are kept
+    const retitledPRs = new Map(existingPRs);
+    for (const {
+      bookmark,
+      newTitle,
+      newBody,
+      pr,
+    } of bookmarksNeedingPRTitleUpdate) {
+      retitledPRs.set(bookmark.name, { ...pr, title: newTitle, body: newBody });
+    }
+    const bookmarksNeedingPRBodyUpdate = options.updatePRBodies
+      ? findPRBodiesNeedingUpdate(
+          ownBookmarks,
+          retitledPRs,
+          segments,
+          options.prTemplate,
+        )
+      : [];
+
+    const bookmarksNeedingReadyForReview: SubmissionPlan["bookmarksNeedingReadyForReview"] =
+      [];
+    if (options.markReady) {
+      for (const bookmark of ownBookmarks) {
+        const existingPR = existingPRs.get(bookmark.name);
+        if (existingPR?.draft) {
+          bookmarksNeedingReadyForReview.push({ bookmark, pr: existingPR });
+        }
+      }
+    }
+
     const plan: SubmissionPlan = {
       targetBookmark,
       bookmarksToSubmit,
       bookmarksNeedingPush,
       bookmarksNeedingPR,
       bookmarksNeedingPRBaseUpdate,
+      bookmarksNeedingPRTitleUpdate,
+      bookmarksNeedingPRBodyUpdate,
+      bookmarksNeedingReadyForReview,
+      newPRMetadata: {
+        reviewers: options.reviewers ?? [],
+        assignees: options.assignees ?? [],
+        labels: options.labels ?? [],
+      },
       repoInfo: {
         owner: githubConfig.owner,
         repo: githubConfig.repo,
       },
       existingPRs,
       remoteName,
+      defaultBranch,
+      stackInfoMode: options.stackInfoMode ?? "comment",
     };
 
     callbacks?.onPlanReady?.(plan);
@@ -565,9 +1952,183 @@ export async function createSubmissionPlan(
   }
 }
 
+/**
+ * Order the plan's pushes and PR base updates so that GitHub never closes a PR or shows it
+ * against the wrong base while the stack is being updated
+ * AIDEV-NOTE: GitHub closes PRs whose base branch is deleted, and shows a PR's whole stack as
+ * its diff while its base is missing its parent's new commits. So:
+ * 1. PRs whose current base is leaving the stack (e.g. a renamed intermediate bookmark) are first
+ *    parked on the default branch, so removing the old branch can't close them
+ * 2. Then, bottom to top, each bookmark is pushed and its PR retargeted straight away. A PR's new
+ *    base is always pushed before the PR is pointed at it.
+ */
+export function orderPushAndRetargetSteps(
+  plan: SubmissionPlan,
+): ExecutionStep[] {
+  const stackNames = new Set(plan.bookmarksToSubmit.map((b) => b.name));
+  const needsPush = new Set(plan.bookmarksNeedingPush.map((b) => b.name));
+  const steps: ExecutionStep[] = [];
+  const finalUpdates = new Map<string, ExecutionStep>();
+
+  for (const {
+    bookmark,
+    currentBaseBranch,
+    expectedBaseBranchOptions,
+    pr,
+  } of plan.bookmarksNeedingPRBaseUpdate) {
+    if (expectedBaseBranchOptions.length !== 1) {
+      throw new Error(
+        `Expected exactly one base branch option for ${bookmark.name}, but got ${expectedBaseBranchOptions.length}`,
+      );
+    }
+    const newBase = expectedBaseBranchOptions[0];
+    const baseIsLeaving =
+      !stackNames.has(currentBaseBranch) &&
+      currentBaseBranch !== plan.defaultBranch;
+
+    if (baseIsLeaving && newBase === plan.defaultBranch) {
+      steps.push({
+        kind: "update-base",
+        bookmark,
+        pr,
+        from: currentBaseBranch,
+        to: newBase,
+        temporary: false,
+      });
+    } else if (baseIsLeaving) {
+      steps.push({
+        kind: "update-base",
+        bookmark,
+        pr,
+        from: currentBaseBranch,
+        to: plan.defaultBranch,
+        temporary: true,
+      });
+      finalUpdates.set(bookmark.name, {
+        kind: "update-base",
+        bookmark,
+        pr,
+        from: plan.defaultBranch,
+        to: newBase,
+        temporary: false,
+      });
+    } else {
+      finalUpdates.set(bookmark.name, {
+        kind: "update-base",
+        bookmark,
+        pr,
+        from: currentBaseBranch,
+        to: newBase,
+        temporary: false,
+      });
+    }
+  }
+
+  for (const bookmark of plan.bookmarksToSubmit) {
+    if (needsPush.has(bookmark.name)) {
+      steps.push({ kind: "push", bookmark });
+    }
+    const update = finalUpdates.get(bookmark.name);
+    if (update) {
+      steps.push(update);
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Describe what's wrong with a PR's base after submission, or return undefined if nothing is
+ * @param expectedBaseCommitId The commit the base branch should point at, when it's part of the
+ * stack. jj's commit ids are short, so it's compared as a prefix of GitHub's full sha.
+ */
+export function findPRBaseProblem(
+  pr: { number: number; state: string; base: { ref: string; sha: string } },
+  expectedBase: string,
+  expectedBaseCommitId?: string,
+): string | undefined {
+  if (pr.state !== "open") {
+    return `PR #${pr.number} is ${pr.state}`;
+  }
+  if (pr.base.ref !== expectedBase) {
+    return `PR #${pr.number} is based on ${pr.base.ref} instead of ${expectedBase}`;
+  }
+  if (expectedBaseCommitId && !pr.base.sha.startsWith(expectedBaseCommitId)) {
+    return `PR #${pr.number} is based on ${expectedBase} at ${pr.base.sha.slice(0, 8)}, but ${expectedBase} is at ${expectedBaseCommitId.slice(0, 8)}`;
+  }
+  return undefined;
+}
+
+// GitHub updates a PR's base sha some time after its base branch is pushed
+const baseShaCheckAttempts = 3;
+const baseShaCheckDelayMs = 2000;
+
+/**
+ * Re-fetch every PR in the stack and check that it is still open and diffed against the right base
+ * AIDEV-NOTE: Best-effort like updateStackInfo - the pushes and PR updates have already happened,
+ * so problems are reported as errors without marking the submission as failed. A base sha that
+ * doesn't match yet is re-checked a few times before it's reported, since GitHub lags behind pushes.
+ */
+async function verifyPRBases(
+  plan: SubmissionPlan,
+  githubConfig: GitHubConfig,
+  bookmarkToPR: Map<string, PullRequest>,
+  expectedBases: Map<string, string>,
+  result: SubmissionResult,
+  callbacks?: ExecutionCallbacks,
+): Promise<void> {
+  const stackCommitIds = new Map(
+    plan.bookmarksToSubmit.map((b) => [b.name, b.commitId]),
+  );
+
+  for (const bookmark of plan.bookmarksToSubmit) {
+    const pr = bookmarkToPR.get(bookmark.name);
+    const expectedBase = expectedBases.get(bookmark.name);
+    if (!pr || !expectedBase) {
+      continue;
+    }
+
+    const context = `verifying the base of the PR for ${bookmark.name}`;
+    try {
+      let problem: string | undefined;
+      for (let attempt = 1; attempt <= baseShaCheckAttempts; attempt++) {
+        const { data: currentPR } = await githubConfig.octokit.rest.pulls.get({
+          owner: githubConfig.owner,
+          repo: githubConfig.repo,
+          pull_number: pr.number,
+        });
+        problem = findPRBaseProblem(
+          currentPR,
+          expectedBase,
+          stackCommitIds.get(expectedBase),
+        );
+        const shaMayBeStale =
+          currentPR.state === "open" && currentPR.base.ref === expectedBase;
+        if (!problem || !shaMayBeStale || attempt === baseShaCheckAttempts) {
+          break;
+        }
+        logger.debug(`${problem}, checking again`);
+        await new Promise((resolve) =>
+          setTimeout(resolve, baseShaCheckDelayMs),
+        );
+      }
+      if (problem) {
+        const error = new Error(problem);
+        result.errors.push({ error, context });
+        callbacks?.onError?.(error, context);
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      result.errors.push({ error: err, context });
+      callbacks?.onError?.(err, context);
+    }
+  }
+}
+
 /**
  * PHASE 3: Execute the submission plan
- * AIDEV-NOTE: Pure execution of the plan with no decision-making
+ * AIDEV-NOTE: Pure execution of the plan with no decision-making. Pushes and base updates run
+ * in the order given by orderPushAndRetargetSteps, and every PR's base is verified at the end.
  */
 export async function executeSubmissionPlan(
   jj: JjFunctions,
@@ -584,53 +2145,117 @@ export async function executeSubmissionPlan(
   };
 
   try {
-    // Push all bookmarks that need pushing
-    for (const bookmark of plan.bookmarksNeedingPush) {
+    const bookmarkToPR = new Map<string, PullRequest>(plan.existingPRs);
+    const expectedBases = new Map<string, string>(
+      [...plan.existingPRs].map(([name, pr]) => [name, pr.base.ref]),
+    );
+
+    // Push bookmarks and update PR bases, interleaved bottom to top
+    for (const step of orderPushAndRetargetSteps(plan)) {
+      const { bookmark } = step;
+      if (step.kind === "push") {
+        try {
+          callbacks?.onPushStarted?.(bookmark, plan.remoteName);
+          await jj.pushBookmark(bookmark.name, plan.remoteName);
+          callbacks?.onPushCompleted?.(bookmark, plan.remoteName);
+          result.pushedBookmarks.push(bookmark);
+        } catch (error) {
+          throw new Error(`Error pushing ${bookmark.name}: ${String(error)}`);
+        }
+        continue;
+      }
+
       try {
-        callbacks?.onPushStarted?.(bookmark, plan.remoteName);
-        await jj.pushBookmark(bookmark.name, plan.remoteName);
-        callbacks?.onPushCompleted?.(bookmark, plan.remoteName);
-        result.pushedBookmarks.push(bookmark);
+        callbacks?.onPRBaseUpdateStarted?.(bookmark, step.from, step.to);
+
+        const updatedPR = await updatePRBase(
+          githubConfig.octokit,
+          githubConfig.owner,
+          githubConfig.repo,
+          step.pr.number,
+          step.to,
+        );
+
+        callbacks?.onPRBaseUpdateCompleted?.(bookmark, updatedPR);
+        if (!step.temporary) {
+          result.updatedPRs.push({ bookmark, pr: updatedPR });
+        }
+        expectedBases.set(bookmark.name, step.to);
       } catch (error) {
-        throw new Error(`Error pushing ${bookmark.name}: ${String(error)}`);
+        throw new Error(
+          `Error updating PR base for ${bookmark.name}: ${String(error)}`,
+        );
       }
     }
 
-    const bookmarkToPR = new Map<string, PullRequest>(plan.existingPRs);
-
-    // Update PR bases for existing PRs that need it (in order from bottom to top)
+    // Update titles of existing PRs whose top change was reworded
     for (const {
       bookmark,
-      currentBaseBranch,
-      expectedBaseBranchOptions,
+      currentTitle,
+      newTitle,
+      newBody,
       pr,
-    } of plan.bookmarksNeedingPRBaseUpdate) {
+    } of plan.bookmarksNeedingPRTitleUpdate) {
       try {
-        if (expectedBaseBranchOptions.length !== 1) {
-          throw new Error(
-            `Expected exactly one base branch option for ${bookmark.name}, but got ${expectedBaseBranchOptions.length}`,
-          );
-        }
+        callbacks?.onPRTitleUpdateStarted?.(bookmark, currentTitle, newTitle);
 
-        callbacks?.onPRBaseUpdateStarted?.(
-          bookmark,
-          currentBaseBranch,
-          expectedBaseBranchOptions[0],
+        const updatedPR = await updatePRTitle(
+          githubConfig.octokit,
+          githubConfig.owner,
+          githubConfig.repo,
+          pr.number,
+          newTitle,
+          newBody,
         );
 
-        const updatedPR = await updatePRBase(
+        callbacks?.onPRTitleUpdateCompleted?.(bookmark, updatedPR);
+        result.updatedPRs.push({ bookmark, pr: updatedPR });
+      } catch (error) {
+        throw new Error(
+          `Error updating PR title for ${bookmark.name}: ${String(error)}`,
+        );
+      }
+    }
+
+    // Regenerate descriptions of existing PRs that the author hasn't edited
+    for (const { bookmark, pr, newBody } of plan.bookmarksNeedingPRBodyUpdate) {
+      try {
+        callbacks?.onPRBodyUpdateStarted?.(bookmark);
+
+        const updatedPR = await updatePRBody(
           githubConfig.octokit,
           githubConfig.owner,
           githubConfig.repo,
           pr.number,
-          expectedBaseBranchOptions[0],
+          newBody,
         );
 
-        callbacks?.onPRBaseUpdateCompleted?.(bookmark, updatedPR);
+        callbacks?.onPRBodyUpdateCompleted?.(bookmark, updatedPR);
         result.updatedPRs.push({ bookmark, pr: updatedPR });
       } catch (error) {
         throw new Error(
-          `Error updating PR base for ${bookmark.name}: ${String(error)}`,
+          `Error updating PR description for ${bookmark.name}: ${String(error)}`,
+        );
+      }
+    }
+
+    // Convert existing draft PRs to ready for review
+    for (const { bookmark, pr } of plan.bookmarksNeedingReadyForReview) {
+      try {
+        callbacks?.onPRReadyForReviewStarted?.(bookmark);
+
+        const updatedPR = await markPRReadyForReview(
+          githubConfig.octokit,
+          githubConfig.owner,
+          githubConfig.repo,
+          pr,
+        );
+
+        callbacks?.onPRReadyForReviewCompleted?.(bookmark, updatedPR);
+        result.updatedPRs.push({ bookmark, pr: updatedPR });
+      } catch (error) {
+        throw new Error(
+          `Error marking PR for ${bookmark.name} ready for review: ${String(error)}`,
         );
       }
     }
@@ -640,6 +2265,7 @@ export async function executeSubmissionPlan(
       bookmark,
       baseBranchOptions,
       prContent,
+      draft,
     } of plan.bookmarksNeedingPR) {
       try {
         if (baseBranchOptions.length !== 1) {
@@ -652,6 +2278,7 @@ export async function executeSubmissionPlan(
           bookmark,
           prContent.title,
           baseBranchOptions[0],
+          draft,
         );
 
         const pr = await createPR(
@@ -661,11 +2288,24 @@ export async function executeSubmissionPlan(
           bookmark.name,
           baseBranchOptions[0],
           prContent.title,
+          prContent.body,
+          draft,
+          githubConfig.headOwner,
         );
 
         callbacks?.onPRCompleted?.(bookmark, pr);
         result.createdPRs.push({ bookmark, pr });
         bookmarkToPR.set(bookmark.name, pr);
+        expectedBases.set(bookmark.name, baseBranchOptions[0]);
+
+        await applyNewPRMetadata(
+          plan,
+          githubConfig,
+          bookmark,
+          pr,
+          result,
+          callbacks,
+        );
       } catch (error) {
         throw new Error(
           `Error creating PR for ${bookmark.name}: ${String(error)}`,
@@ -673,88 +2313,17 @@ export async function executeSubmissionPlan(
       }
     }
 
-    // Create/update stack comments for all PRs
-    if (bookmarkToPR.size == -1) {
-      const rootBookmark = plan.bookmarksToSubmit[0];
-      const rootPR = bookmarkToPR.get(rootBookmark.name);
-      if (!rootPR) {
-        throw new Error(
-          "PR not found in bookmarkToPr for bookmark in bookmarksToSubmit",
-        );
-      }
-
-      const alreadyMergedStack = await (async () => {
-        const rootPRCommentData = await findCommentData(
-          githubConfig,
-          rootPR.number,
-        );
-        if (rootPRCommentData === undefined) {
-          return [];
-        }
+    // Create/update stack info for all PRs
+    await updateStackInfo(plan, githubConfig, bookmarkToPR, result, callbacks);
 
-        const rootPRIdx = rootPRCommentData.stack.findIndex(
-          (item) => item.prNumber === rootPR.number,
-        );
-        // If the root PR is not found or is the first in the stack, no already-merged parent
-        if (rootPRIdx <= 0) {
-          return [];
-        }
-
-        const rootParentPRInfo = rootPRCommentData.stack[rootPRIdx - 1];
-
-        const rootParentPR = (
-          await githubConfig.octokit.rest.pulls.get({
-            owner: githubConfig.owner,
-            repo: githubConfig.repo,
-            pull_number: rootParentPRInfo.prNumber,
-          })
-        ).data;
-
-        if (!rootParentPR.merged) {
-          return [];
-        }
-
-        return rootPRCommentData.stack.slice(0, rootPRIdx);
-      })();
-
-      const prCommentData = {
-        version: 0,
-        stack: [
-          ...alreadyMergedStack,
-          ...plan.bookmarksToSubmit.map((bookmark) => {
-            const pr = bookmarkToPR.get(bookmark.name);
-            if (!pr) {
-              throw new Error(
-                "PR not found in bookmarkToPr for bookmark in bookmarksToSubmit",
-              );
-            }
-            return {
-              bookmarkName: bookmark.name,
-              prUrl: pr.html_url,
-              prNumber: pr.number,
-            };
-          }),
-        ],
-      } satisfies PRCommentData;
-
-      for (let i = 0; i < prCommentData.stack.length; i++) {
-        const stackItem = prCommentData.stack[i];
-        try {
-          await createOrUpdateStackComment(githubConfig, prCommentData, i);
-        } catch (error) {
-          const err = error instanceof Error ? error : new Error(String(error));
-          result.errors.push({
-            error: err,
-            context: `creating/updating stack comment for ${stackItem.bookmarkName}`,
-          });
-          callbacks?.onError?.(
-            err,
-            `creating/updating stack comment for ${stackItem.bookmarkName}`,
-          );
-          // Don't mark as failed for comment errors
-        }
-      }
-    }
+    await verifyPRBases(
+      plan,
+      githubConfig,
+      bookmarkToPR,
+      expectedBases,
+      result,
+      callbacks,
+    );
 
     return result;
   } catch (error) {
@@ -0,0 +1,129 @@
+import { createSyncPlan, findNearestOpenBase, type PRState } from "./sync.js";
+import {
+  buildStackCommentBody,
+  upsertStackBlock,
+  type GitHubConfig,
+  type PRCommentData,
+} from "./submit.js";
+import type { Bookmark } from "./jjTypes.js";
+import type { JjFunctions } from "./jjUtils.js";
+import assert from "assert/strict";
+
+suite("sync retargeting", () => {
+  const stack: PRCommentData["stack"] = [1, 2, 3].map((prNumber) => ({
+    bookmarkName: `bookmark${prNumber}`,
+    prUrl: `https://github.com/owner/repo/pull/${prNumber}`,
+    prNumber,
+    merged: false,
+  }));
+
+  function states(...entries: PRState[]) {
+    return new Map(
+      entries.map((state, i) => [
+        i + 1,
+        { state, headRef: `bookmark${i + 1}` },
+      ]),
+    );
+  }
+
+  test("keeps targeting an open parent", () => {
+    assert.equal(
+      findNearestOpenBase(stack, 2, states("open", "open", "open"), "main"),
+      "bookmark2",
+    );
+  });
+
+  test("skips merged and closed ancestors", () => {
+    assert.equal(
+      findNearestOpenBase(stack, 2, states("open", "merged", "open"), "main"),
+      "bookmark1",
+    );
+    assert.equal(
+      findNearestOpenBase(stack, 2, states("merged", "closed", "open"), "main"),
+      "main",
+    );
+  });
+
+  test("bottom of the stack targets the default branch", () => {
+    assert.equal(
+      findNearestOpenBase(stack, 0, states("open", "open", "open"), "main"),
+      "main",
+    );
+  });
+
+  test("suggests deleting bookmarks of merged PRs, even ones left on trunk()", async () => {
+    const bookmark = (name: string): Bookmark => ({
+      name,
+      commitId: `commit_${name}`,
+      changeId: `change_${name}`,
+      hasRemote: true,
+      isSynced: true,
+    });
+    const jj = {
+      getMyBookmarks: () => Promise.resolve([bookmark("bookmark3")]),
+      // bookmark2 was merged by fast-forward, so it's on trunk() now
+      getTrunkBookmarks: () => Promise.resolve([bookmark("bookmark2")]),
+      getDefaultBranch: () => Promise.resolve("main"),
+    } as JjFunctions;
+
+    const stackBody = upsertStackBlock(
+      "",
+      buildStackCommentBody({ version: 1, stack }, 2),
+    );
+    const githubConfig = {
+      owner: "owner",
+      repo: "repo",
+      headOwner: "owner",
+      octokit: {
+        graphql: (_query: string, variables: Record<string, string>) =>
+          Promise.resolve({
+            repository: {
+              pr0: {
+                nodes:
+                  variables.head0 === "bookmark3"
+                    ? [
+                        {
+                          number: 3,
+                          url: stack[2].prUrl,
+                          baseRefName: "bookmark2",
+                          headRefName: "bookmark3",
+                          headRepositoryOwner: { login: "owner" },
+                        },
+                      ]
+                    : [],
+              },
+            },
+          }),
+        rest: {
+          pulls: {
+            get: ({ pull_number }: { pull_number: number }) =>
+              Promise.resolve({
+                data:
+                  pull_number === 3
+                    ? { body: stackBody }
+                    : {
+                        merged: true,
+                        state: "closed",
+                        head: { ref: `bookmark${pull_number}` },
+                      },
+              }),
+          },
+        },
+      },
+    } as unknown as GitHubConfig;
+
+    const plan = await createSyncPlan(jj, githubConfig);
+
+    assert.deepEqual(
+      plan.prsNeedingRetarget.map((item) => [
+        item.pr.number,
+        item.newBaseBranch,
+      ]),
+      [[3, "main"]],
+    );
+    assert.deepEqual(
+      plan.bookmarksSafeToDelete.map((b) => b.name),
+      ["bookmark2"],
+    );
+  });
+});
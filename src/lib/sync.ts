@@ -0,0 +1,268 @@
+// AIDEV-NOTE: Sync command library - keeps GitHub PRs in line with the stack after PRs merge
+// Uses the same plan/execute split as submit.ts: createSyncPlan only reads state, executeSyncPlan
+// only applies the plan. The stack metadata written by submit (see PRCommentData) is the source of
+// truth for which PRs belong to a stack, since merged bookmarks disappear from the local graph.
+
+import type { Bookmark } from "./jjTypes.js";
+import type { JjFunctions } from "./jjUtils.js";
+import {
+  findCommentData,
+  getExistingPRs,
+  isForkWorkflow,
+  resolveDefaultBranch,
+  updatePRBase,
+  type GitHubConfig,
+  type PRCommentData,
+  type PullRequest,
+} from "./submit.js";
+import { logger } from "./logger.js";
+
+export type PRState = "open" | "merged" | "closed";
+
+export interface SyncPlan {
+  prsNeedingRetarget: {
+    bookmarkName: string;
+    pr: PullRequest;
+    currentBaseBranch: string;
+    newBaseBranch: string;
+  }[];
+  finishedPRs: {
+    bookmarkName: string;
+    prNumber: number;
+    prUrl: string;
+    state: Exclude<PRState, "open">;
+  }[];
+  bookmarksSafeToDelete: Bookmark[];
+  prsWithoutStackInfo: { bookmarkName: string; pr: PullRequest }[];
+  repoInfo: { owner: string; repo: string };
+  defaultBranch: string;
+}
+
+export interface SyncCallbacks {
+  onCheckingPRs?: (bookmarks: Bookmark[]) => void;
+  onPlanReady?: (plan: SyncPlan) => void;
+  onRetargetStarted?: (
+    bookmarkName: string,
+    currentBase: string,
+    newBase: string,
+  ) => void;
+  onRetargetCompleted?: (bookmarkName: string, pr: PullRequest) => void;
+  onError?: (error: Error, context: string) => void;
+}
+
+export interface SyncResult {
+  success: boolean;
+  retargetedPRs: Array<{ bookmarkName: string; pr: PullRequest }>;
+  errors: Array<{ error: Error; context: string }>;
+}
+
+/**
+ * Find the base branch a PR should target given the states of the PRs below it in its stack
+ * AIDEV-NOTE: Walks down the stack from the PR's position and returns the head branch of the
+ * nearest PR that is still open. If every PR below has been merged or closed, the PR should
+ * target the default branch.
+ */
+export function findNearestOpenBase(
+  stack: PRCommentData["stack"],
+  stackIdx: number,
+  prStates: Map<number, { state: PRState; headRef: string }>,
+  defaultBranch: string,
+): string {
+  for (let i = stackIdx - 1; i >= 0; i--) {
+    const ancestor = prStates.get(stack[i].prNumber);
+    if (ancestor?.state === "open") {
+      return ancestor.headRef;
+    }
+  }
+  return defaultBranch;
+}
+
+/**
+ * Look up the state of a PR, caching results since stacks share most of their PRs
+ */
+async function getPRState(
+  githubConfig: GitHubConfig,
+  prNumber: number,
+  cache: Map<number, { state: PRState; headRef: string }>,
+): Promise<{ state: PRState; headRef: string }> {
+  const cached = cache.get(prNumber);
+  if (cached) {
+    return cached;
+  }
+
+  const pr = (
+    await githubConfig.octokit.rest.pulls.get({
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+      pull_number: prNumber,
+    })
+  ).data;
+
+  const prState = {
+    state: pr.merged ? "merged" : pr.state === "open" ? "open" : "closed",
+    headRef: pr.head.ref,
+  } satisfies { state: PRState; headRef: string };
+  cache.set(prNumber, prState);
+  return prState;
+}
+
+/**
+ * Create a plan for bringing open PRs in line with merged or closed PRs lower in their stacks
+ */
+export async function createSyncPlan(
+  jj: JjFunctions,
+  githubConfig: GitHubConfig,
+  callbacks?: SyncCallbacks,
+): Promise<SyncPlan> {
+  try {
+    const allBookmarks = await jj.getMyBookmarks();
+    const bookmarksByName = new Map(allBookmarks.map((b) => [b.name, b]));
+    // Other people's PRs are theirs to retarget
+    const bookmarks = allBookmarks.filter((b) => !b.isForeign);
+
+    callbacks?.onCheckingPRs?.(bookmarks);
+    const openPRs = await getExistingPRs(
+      githubConfig.octokit,
+      githubConfig.owner,
+      githubConfig.repo,
+      bookmarks,
+      githubConfig.headOwner,
+    );
+
+    const defaultBranch = await resolveDefaultBranch(jj, githubConfig);
+
+    const prStates = new Map<number, { state: PRState; headRef: string }>();
+    for (const pr of openPRs.values()) {
+      prStates.set(pr.number, { state: "open", headRef: pr.head.ref });
+    }
+
+    const prsNeedingRetarget: SyncPlan["prsNeedingRetarget"] = [];
+    const prsWithoutStackInfo: SyncPlan["prsWithoutStackInfo"] = [];
+    const finishedPRs = new Map<number, SyncPlan["finishedPRs"][0]>();
+
+    for (const [bookmarkName, pr] of openPRs) {
+      const commentData = await findCommentData(githubConfig, pr.number);
+      const stackIdx =
+        commentData?.stack.findIndex((item) => item.prNumber === pr.number) ??
+        -1;
+      if (!commentData || stackIdx === -1) {
+        logger.debug(`No stack info found for PR #${pr.number}`);
+        prsWithoutStackInfo.push({ bookmarkName, pr });
+        continue;
+      }
+
+      for (let i = 0; i < stackIdx; i++) {
+        const item = commentData.stack[i];
+        const { state } = await getPRState(
+          githubConfig,
+          item.prNumber,
+          prStates,
+        );
+        if (state !== "open") {
+          finishedPRs.set(item.prNumber, {
+            bookmarkName: item.bookmarkName,
+            prNumber: item.prNumber,
+            prUrl: item.prUrl,
+            state,
+          });
+        }
+      }
+
+      // PRs from a fork always target the default branch (see getBaseBranchOptions)
+      const newBaseBranch = isForkWorkflow(githubConfig)
+        ? defaultBranch
+        : findNearestOpenBase(
+            commentData.stack,
+            stackIdx,
+            prStates,
+            defaultBranch,
+          );
+      if (pr.base.ref !== newBaseBranch) {
+        prsNeedingRetarget.push({
+          bookmarkName,
+          pr,
+          currentBaseBranch: pr.base.ref,
+          newBaseBranch,
+        });
+      }
+    }
+
+    // A bookmark whose PR was merged by fast-forward sits on trunk(), which getMyBookmarks skips
+    if (
+      [...finishedPRs.values()].some(
+        (item) => !bookmarksByName.has(item.bookmarkName),
+      )
+    ) {
+      for (const bookmark of await jj.getTrunkBookmarks()) {
+        bookmarksByName.set(bookmark.name, bookmark);
+      }
+    }
+    const bookmarksSafeToDelete = [...finishedPRs.values()]
+      .map((item) => bookmarksByName.get(item.bookmarkName))
+      .filter((bookmark): bookmark is Bookmark => bookmark !== undefined);
+
+    const plan: SyncPlan = {
+      prsNeedingRetarget,
+      finishedPRs: [...finishedPRs.values()],
+      bookmarksSafeToDelete,
+      prsWithoutStackInfo,
+      repoInfo: { owner: githubConfig.owner, repo: githubConfig.repo },
+      defaultBranch,
+    };
+
+    callbacks?.onPlanReady?.(plan);
+    return plan;
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    callbacks?.onError?.(err, "planning");
+    throw err;
+  }
+}
+
+/**
+ * Execute the sync plan by retargeting PRs
+ * AIDEV-NOTE: Each retarget is independent, so one failure doesn't stop the others
+ */
+export async function executeSyncPlan(
+  plan: SyncPlan,
+  githubConfig: GitHubConfig,
+  callbacks?: SyncCallbacks,
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    success: true,
+    retargetedPRs: [],
+    errors: [],
+  };
+
+  for (const {
+    bookmarkName,
+    pr,
+    currentBaseBranch,
+    newBaseBranch,
+  } of plan.prsNeedingRetarget) {
+    try {
+      callbacks?.onRetargetStarted?.(
+        bookmarkName,
+        currentBaseBranch,
+        newBaseBranch,
+      );
+      const updatedPR = await updatePRBase(
+        githubConfig.octokit,
+        githubConfig.owner,
+        githubConfig.repo,
+        pr.number,
+        newBaseBranch,
+      );
+      callbacks?.onRetargetCompleted?.(bookmarkName, updatedPR);
+      result.retargetedPRs.push({ bookmarkName, pr: updatedPR });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const context = `retargeting PR for ${bookmarkName}`;
+      result.errors.push({ error: err, context });
+      callbacks?.onError?.(err, context);
+      result.success = false;
+    }
+  }
+
+  return result;
+}